@@ -0,0 +1,57 @@
+import { CachedResponse, getStateStore } from './githubCache.js';
+
+// A version bumped by the push webhook, kept in the proxy's state store. Browsers poll
+// /api/github/version with its ETag, so an unchanged version costs an empty 304. The recent
+// changes are listed with it, letting a client that was one or two pushes behind refetch
+// only the notes that changed.
+// Versions are push times in milliseconds, so a store that lost the version (a cold start
+// in memory) still numbers the next push above every earlier one. Use GITHUB_CACHE=kv
+// (or file on a single machine) so every instance reports the same version.
+
+export interface ContentChange {
+  version: number;
+  previous: number;   // Version before this push; a client that has it missed nothing older
+  ref: string;        // Branch that was pushed
+  commit?: string;    // Head commit after the push
+  paths: string[];    // Added, modified and removed files the proxy serves
+  pushedAt: string;
+}
+
+export interface ContentVersion {
+  version: number;
+  changes: ContentChange[]; // Newest last, at most MAX_CHANGES
+}
+
+const VERSION_KEY = 'content-version';
+const MAX_CHANGES = 20;
+
+const toResponse = (value: ContentVersion): CachedResponse => ({
+  status: 200,
+  etag: `"content-v${value.version}"`,
+  contentType: 'application/json; charset=utf-8',
+  body: JSON.stringify(value),
+  encoding: 'utf8',
+  storedAt: Date.now(),
+});
+
+/**
+ * The current version as a response ready for sendCachedResponse(); version 0 before any push.
+ */
+export const readContentVersion = async (): Promise<CachedResponse> =>
+  (await getStateStore().get(VERSION_KEY)) || toResponse({ version: 0, changes: [] });
+
+// Read-modify-write: two pushes landing at the same instant may share a version number,
+// which only means clients refetch both sets of paths together
+export const bumpContentVersion = async (
+  change: Omit<ContentChange, 'version' | 'previous'>
+): Promise<ContentVersion> => {
+  const current: ContentVersion = JSON.parse((await readContentVersion()).body);
+  // Past the current version even if this clock is behind the one that set it
+  const version = Math.max(Date.now(), current.version + 1);
+  const next: ContentVersion = {
+    version,
+    changes: [...current.changes, { ...change, version, previous: current.version }].slice(-MAX_CHANGES),
+  };
+  await getStateStore().set(VERSION_KEY, toResponse(next));
+  return next;
+};
@@ -0,0 +1,227 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { githubHeaders } from './middleware.js';
+
+// Conditional requests for the GitHub proxy.
+// Successful responses are kept with their ETag; the next request for the same URL sends
+// If-None-Match, and GitHub answers 304 without counting it against the rate limit.
+// The store is chosen with GITHUB_CACHE:
+//   memory (default) -> per serverless instance, lost on cold start
+//   file             -> JSON files under GITHUB_CACHE_DIR (defaults to the OS temp dir)
+//   kv               -> Vercel KV / Upstash Redis REST API (KV_REST_API_URL, KV_REST_API_TOKEN)
+
+export interface CachedResponse {
+  status: number;
+  etag?: string;
+  contentType: string;
+  body: string;
+  encoding: 'utf8' | 'base64';
+  storedAt: number;
+}
+
+export interface CacheStore {
+  get: (key: string) => Promise<CachedResponse | null>;
+  set: (key: string, value: CachedResponse) => Promise<void>;
+  delete: (key: string) => Promise<void>;
+}
+
+// Browsers revalidate on every use; the proxy answers that from its own cache
+export const API_CACHE_CONTROL = 'public, max-age=0, must-revalidate';
+export const RAW_CACHE_CONTROL = 'public, max-age=3600';
+
+const MEMORY_ENTRIES = 200;
+const MAX_CACHED_BYTES = 2 * 1024 * 1024; // Larger attachments are proxied without caching
+
+// --- Stores ---
+
+export const createMemoryStore = (maxEntries = MEMORY_ENTRIES): CacheStore => {
+  const entries = new Map<string, CachedResponse>();
+  return {
+    get: async key => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      // Re-insert so the Map's order doubles as least-recently-used order
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    set: async (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      while (entries.size > maxEntries) entries.delete(entries.keys().next().value!);
+    },
+    delete: async key => {
+      entries.delete(key);
+    },
+  };
+};
+
+export const createFileStore = (dir = path.join(os.tmpdir(), 'blogsweb-github-cache')): CacheStore => {
+  const fileFor = (key: string) => path.join(dir, `${crypto.createHash('sha1').update(key).digest('hex')}.json`);
+  return {
+    get: async key => {
+      try {
+        return JSON.parse(await fs.promises.readFile(fileFor(key), 'utf8'));
+      } catch {
+        return null;
+      }
+    },
+    set: async (key, value) => {
+      await fs.promises.mkdir(dir, { recursive: true });
+      await fs.promises.writeFile(fileFor(key), JSON.stringify(value));
+    },
+    delete: async key => {
+      await fs.promises.rm(fileFor(key), { force: true });
+    },
+  };
+};
+
+export const createKvStore = (url: string, token: string, prefix = 'github:'): CacheStore => {
+  const command = async (name: string, key: string, body?: string) => {
+    const response = await fetch(`${url.replace(/\/+$/, '')}/${name}/${encodeURIComponent(prefix + key)}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body,
+    });
+    if (!response.ok) throw new Error(`KV ${name} responded ${response.status}`);
+    return (await response.json()).result as string | null;
+  };
+  return {
+    get: async key => {
+      const value = await command('get', key);
+      return value ? JSON.parse(value) : null;
+    },
+    set: async (key, value) => {
+      await command('set', key, JSON.stringify(value));
+    },
+    delete: async key => {
+      await command('del', key);
+    },
+  };
+};
+
+let store: CacheStore | null = null;
+let storeIsShared = false; // File or KV: outlives the instance and never evicts
+
+export const getCacheStore = (): CacheStore => {
+  if (store) return store;
+
+  const kind = (process.env.GITHUB_CACHE || 'memory').toLowerCase();
+  const kvUrl = process.env.KV_REST_API_URL || process.env.UPSTASH_REDIS_REST_URL;
+  const kvToken = process.env.KV_REST_API_TOKEN || process.env.UPSTASH_REDIS_REST_TOKEN;
+
+  if (kind === 'file') {
+    store = createFileStore(process.env.GITHUB_CACHE_DIR || undefined);
+    storeIsShared = true;
+  } else if (kind === 'kv' && kvUrl && kvToken) {
+    store = createKvStore(kvUrl, kvToken);
+    storeIsShared = true;
+  } else {
+    if (kind !== 'memory') console.warn(`[github-cache] Unusable GITHUB_CACHE=${kind}, using memory`);
+    store = createMemoryStore();
+  }
+  return store;
+};
+
+let stateStore: CacheStore | null = null;
+
+/**
+ * Store for the proxy's own state (the content version) rather than GitHub responses.
+ * File and KV stores are shared and never evict, so they double as it; in memory it gets
+ * a Map of its own, out of reach of the response cache's LRU.
+ */
+export const getStateStore = (): CacheStore => {
+  if (stateStore) return stateStore;
+  const cache = getCacheStore();
+  stateStore = storeIsShared ? cache : createMemoryStore(Infinity);
+  return stateStore;
+};
+
+// A broken file system or KV must not take the proxy down with it
+const readEntry = async (key: string) => {
+  try {
+    return await getCacheStore().get(key);
+  } catch (error) {
+    console.warn('[github-cache] Read failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+};
+
+const writeEntry = async (key: string, value: CachedResponse) => {
+  try {
+    await getCacheStore().set(key, value);
+  } catch (error) {
+    console.warn('[github-cache] Write failed:', error instanceof Error ? error.message : error);
+  }
+};
+
+// --- Fetching ---
+
+const isRateLimited = (response: Response) =>
+  response.status === 429 || (response.status === 403 && response.headers.get('x-ratelimit-remaining') === '0');
+
+/**
+ * GET a GitHub URL, revalidating a cached copy with If-None-Match.
+ * A 304 returns the cached copy; when GitHub rate-limits us, a cached copy is served stale.
+ * Error responses are returned as they are and never cached.
+ */
+export const fetchGitHub = async (url: string, accept?: string): Promise<CachedResponse> => {
+  const cached = await readEntry(url);
+  const headers = githubHeaders(accept);
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+
+  const response = await fetch(url, { headers });
+  if (cached && (response.status === 304 || isRateLimited(response))) {
+    if (response.status !== 304) console.warn(`[github-cache] Rate limited, serving cached ${url}`);
+    return cached;
+  }
+
+  const contentType = response.headers.get('content-type') || 'application/octet-stream';
+  const isText = /json|^text\//.test(contentType);
+  const buffer = Buffer.from(await response.arrayBuffer());
+  const entry: CachedResponse = {
+    status: response.status,
+    etag: response.headers.get('etag') || undefined,
+    contentType,
+    body: buffer.toString(isText ? 'utf8' : 'base64'),
+    encoding: isText ? 'utf8' : 'base64',
+    storedAt: Date.now(),
+  };
+  if (response.ok && entry.etag && buffer.length <= MAX_CACHED_BYTES) await writeEntry(url, entry);
+  return entry;
+};
+
+const matchesEtag = (header: string | string[] | undefined, etag: string) =>
+  String(header || '')
+    .split(',')
+    .some(candidate => candidate.trim() === etag || candidate.trim() === '*');
+
+/**
+ * Send a fetched response to the browser with its ETag, answering the browser's own
+ * If-None-Match with an empty 304.
+ */
+export const sendCachedResponse = (
+  req: VercelRequest,
+  res: VercelResponse,
+  entry: CachedResponse,
+  cacheControl = API_CACHE_CONTROL
+) => {
+  if (entry.status >= 200 && entry.status < 300) {
+    res.setHeader('Cache-Control', cacheControl);
+    if (entry.etag) {
+      res.setHeader('ETag', entry.etag);
+      if (matchesEtag(req.headers['if-none-match'], entry.etag)) return res.status(304).end();
+    }
+  }
+  res.setHeader('Content-Type', entry.contentType);
+  return res.status(entry.status).send(Buffer.from(entry.body, entry.encoding));
+};
+
+/**
+ * Proxy a GitHub API URL: conditional fetch, then forward body, status and ETag.
+ */
+export const forwardGitHubJson = async (req: VercelRequest, res: VercelResponse, url: string) =>
+  sendCachedResponse(req, res, await fetchGitHub(url));
@@ -0,0 +1,92 @@
+import {
+  GITHUB_CONFIG,
+  BLOG_INCLUDED_FOLDERS,
+  EXCLUDED_PATHS,
+  EXCLUDED_FILES,
+} from '../../src/config/index.js';
+import { HttpError } from './middleware.js';
+
+// Shared access policy for the GitHub proxy routes.
+// The proxy attaches our GITHUB_TOKEN, so it must only ever reach the blog's own
+// repository and the folders the site actually renders.
+
+const parseList = (value: string | undefined): string[] =>
+  (value || '')
+    .split(',')
+    .map(item => item.trim().toLowerCase())
+    .filter(Boolean);
+
+// GITHUB_ALLOWED_REPOS="owner/repo,owner/other" overrides the configured repository
+const getAllowedRepos = (): string[] => {
+  const fromEnv = parseList(process.env.GITHUB_ALLOWED_REPOS);
+  return fromEnv.length > 0 ? fromEnv : [`${GITHUB_CONFIG.username}/${GITHUB_CONFIG.repo}`.toLowerCase()];
+};
+
+// GITHUB_ALLOWED_USERS="name,other" overrides the configured profile owner
+const getAllowedUsers = (): string[] => {
+  const fromEnv = parseList(process.env.GITHUB_ALLOWED_USERS);
+  return fromEnv.length > 0 ? fromEnv : [GITHUB_CONFIG.username.toLowerCase()];
+};
+
+export const isRepoAllowed = (owner: string, repo: string): boolean =>
+  getAllowedRepos().includes(`${owner}/${repo}`.toLowerCase());
+
+export const isUserAllowed = (username: string): boolean =>
+  getAllowedUsers().includes(username.toLowerCase());
+
+/**
+ * Only repository-relative paths inside the published blog folders or the
+ * attachments folder may be read. Traversal, hidden and excluded entries are refused.
+ */
+export const isPathAllowed = (path: string): boolean => {
+  if (!path || path.startsWith('/') || path.includes('\\')) return false;
+
+  const parts = path.split('/');
+  if (parts.some(part => part === '' || part === '.' || part === '..' || part.startsWith('.'))) {
+    return false;
+  }
+
+  const attachmentsRoot = GITHUB_CONFIG.attachmentsPath;
+  if (attachmentsRoot && path.startsWith(`${attachmentsRoot}/`)) return true;
+
+  const fileName = parts[parts.length - 1];
+  if (EXCLUDED_FILES.includes(fileName)) return false;
+  if (parts.some(part => EXCLUDED_PATHS.includes(part))) return false;
+
+  const blogRoot = GITHUB_CONFIG.blogPath ? `${GITHUB_CONFIG.blogPath.replace(/\/+$/, '')}/` : '';
+  if (blogRoot && !path.startsWith(blogRoot)) return false;
+
+  const relativePath = path.slice(blogRoot.length);
+  if (BLOG_INCLUDED_FOLDERS.length === 0) return true;
+  return BLOG_INCLUDED_FOLDERS.some(folder => relativePath.startsWith(`${folder}/`));
+};
+
+/**
+ * Throw a 403 when the repository is outside the allowlist.
+ */
+export const assertRepoAllowed = (owner: string, repo: string) => {
+  if (!isRepoAllowed(owner, repo)) {
+    throw new HttpError(403, `Repository ${owner}/${repo} is not served by this proxy`, 'REPO_NOT_ALLOWED');
+  }
+};
+
+export const assertUserAllowed = (username: string) => {
+  if (!isUserAllowed(username)) {
+    throw new HttpError(403, `User ${username} is not served by this proxy`, 'USER_NOT_ALLOWED');
+  }
+};
+
+export const assertPathAllowed = (path: string) => {
+  if (!isPathAllowed(path)) {
+    throw new HttpError(403, 'Path is outside the published blog folders', 'PATH_NOT_ALLOWED');
+  }
+};
+
+// Branch, tag or commit names: no traversal, whitespace or URL syntax
+export const isRefValid = (ref: string): boolean => /^[\w.\-/]+$/.test(ref) && !ref.includes('..');
+
+export const assertRefValid = (ref: string) => {
+  if (!isRefValid(ref)) {
+    throw new HttpError(400, 'Missing or invalid ref parameter', 'INVALID_REF');
+  }
+};
@@ -0,0 +1,39 @@
+import { GITHUB_API } from './middleware.js';
+
+// GitHub URLs requested by the proxy routes. They double as the proxy's cache keys,
+// so the webhook builds the exact same strings to invalidate entries.
+
+// Encode each segment to prevent traversal attacks
+const encodeSegments = (value: string) => value.split('/').map(encodeURIComponent).join('/');
+
+export const repoUrl = (owner: string, repo: string) =>
+  `${GITHUB_API}/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+
+export const userUrl = (username: string) => `${GITHUB_API}/users/${encodeURIComponent(username)}`;
+
+export const treeUrl = (owner: string, repo: string, ref: string) =>
+  `${repoUrl(owner, repo)}/git/trees/${encodeURIComponent(ref)}?recursive=1`;
+
+// Commits touching a file, newest first, starting from the ref (or the default branch).
+// The defaults ask for the last commit only, which is what dates a note.
+export const commitsUrl = (owner: string, repo: string, path: string, ref?: string, page = 1, perPage = 1) => {
+  const refParam = ref ? `&sha=${encodeURIComponent(ref)}` : '';
+  const pageParam = page > 1 ? `&page=${page}` : '';
+  return `${repoUrl(owner, repo)}/commits?path=${encodeURIComponent(path)}${refParam}&per_page=${perPage}${pageParam}`;
+};
+
+// Page size of the revision history (HISTORY_PAGE_SIZE in src/services/contentService.ts),
+// and how many of its pages the webhook drops after a push. Later pages are still checked
+// against their ETag on the next request; they only go stale while GitHub rate-limits us.
+export const HISTORY_PAGE_SIZE = 20;
+export const HISTORY_PAGES_INVALIDATED = 10;
+
+// Every commits URL the client requests for a file: the last-commit lookup and the history pages
+export const commitsUrls = (owner: string, repo: string, path: string, ref?: string): string[] => [
+  commitsUrl(owner, repo, path, ref),
+  ...Array.from({ length: HISTORY_PAGES_INVALIDATED }, (_, i) => commitsUrl(owner, repo, path, ref, i + 1, HISTORY_PAGE_SIZE)),
+];
+
+// HEAD resolves to the repository's default branch when no ref is given
+export const rawUrl = (owner: string, repo: string, path: string, ref?: string) =>
+  `https://raw.githubusercontent.com/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/${encodeSegments(ref || 'HEAD')}/${encodeSegments(path)}`;
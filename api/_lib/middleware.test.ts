@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRoute, HttpError, parseBody, parseQuery, withLogging } from './middleware';
+import { mockRequest, mockResponse } from './mockHttp';
+
+describe('parseQuery', () => {
+  it('returns required and optional string parameters', () => {
+    const req = mockRequest({ query: { owner: 'me', repo: 'notes' } });
+    expect(parseQuery(req, { owner: 'required', repo: 'required', ref: 'optional' }))
+      .toEqual({ owner: 'me', repo: 'notes', ref: undefined });
+  });
+
+  it('rejects missing, empty and repeated parameters with a 400', () => {
+    const spec = { path: 'required' } as const;
+    for (const query of [{}, { path: '' }, { path: ['a', 'b'] }]) {
+      expect(() => parseQuery(mockRequest({ query }), spec)).toThrow(HttpError);
+      expect(() => parseQuery(mockRequest({ query }), spec)).toThrow(expect.objectContaining({ status: 400 }));
+    }
+  });
+});
+
+describe('parseBody', () => {
+  it('reads string fields from a JSON body', () => {
+    const req = mockRequest({ method: 'POST', body: { message: 'hi' } });
+    expect(parseBody(req, { message: 'required' })).toEqual({ message: 'hi' });
+  });
+
+  it('rejects a missing body or a non-string field', () => {
+    expect(() => parseBody(mockRequest({ method: 'POST' }), { message: 'required' })).toThrow('request body');
+    expect(() => parseBody(mockRequest({ method: 'POST', body: { message: 1 } }), { message: 'required' }))
+      .toThrow('message');
+  });
+});
+
+describe('createRoute', () => {
+  const route = createRoute(
+    { name: 'test', methods: ['GET'], errorMessage: 'Failed' },
+    (req, res) => {
+      const { id } = parseQuery(req, { id: 'required' });
+      if (id === 'boom') throw new Error('unexpected');
+      return res.status(200).json({ id });
+    }
+  );
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it('runs the handler with validated input', async () => {
+    const { res, sent } = mockResponse();
+    await route(mockRequest({ query: { id: '1' } }), res);
+    expect(res.statusCode).toBe(200);
+    expect(sent()).toEqual({ id: '1' });
+  });
+
+  it('answers validation errors with their status', async () => {
+    const { res, sent } = mockResponse();
+    await route(mockRequest(), res);
+    expect(res.statusCode).toBe(400);
+    expect(sent()).toEqual({ error: 'Missing or invalid id parameter' });
+  });
+
+  it('rejects other methods with a 405 and an Allow header', async () => {
+    const { res, headers } = mockResponse();
+    await route(mockRequest({ method: 'DELETE' }), res);
+    expect(res.statusCode).toBe(405);
+    expect(headers.allow).toBe('GET');
+  });
+
+  it('answers preflight requests without calling the handler', async () => {
+    const { res, headers } = mockResponse();
+    await route(mockRequest({ method: 'OPTIONS' }), res);
+    expect(res.statusCode).toBe(200);
+    expect(headers['access-control-allow-methods']).toBe('GET, OPTIONS');
+  });
+
+  it('hides unexpected errors behind the route message', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { res, sent } = mockResponse();
+    await route(mockRequest({ query: { id: 'boom' } }), res);
+    expect(res.statusCode).toBe(500);
+    expect(sent()).toEqual({ error: 'Failed' });
+  });
+});
+
+describe('withLogging', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  const logged = async (statusCode: number) => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const { res } = mockResponse();
+    await withLogging('test')((_req, response) => response.status(statusCode).end())(mockRequest(), res);
+    return log.mock.calls.length > 0;
+  };
+
+  it('logs only server errors in production', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('API_LOG', '');
+    expect(await logged(200)).toBe(false);
+    expect(await logged(502)).toBe(true);
+  });
+
+  it('logs every request when API_LOG=1', async () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('API_LOG', '1');
+    expect(await logged(200)).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Small composable middleware layer shared by every API route.
+// A route is written as a plain handler and wrapped with createRoute(), which adds
+// request logging, CORS, method guards and error shaping in a fixed order.
+
+export type ApiHandler = (req: VercelRequest, res: VercelResponse) => unknown | Promise<unknown>;
+export type Middleware = (next: ApiHandler) => ApiHandler;
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Error carrying an HTTP status. Thrown anywhere inside a route and turned into
+ * a `{ error, code? }` JSON response by withErrors().
+ */
+export class HttpError extends Error {
+  status: number;
+  code?: string;
+
+  constructor(status: number, message: string, code?: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+// --- Composition ---
+
+export const compose = (...middlewares: Middleware[]) => (handler: ApiHandler): ApiHandler =>
+  middlewares.reduceRight<ApiHandler>((next, middleware) => middleware(next), handler);
+
+// --- Middlewares ---
+
+const DEFAULT_ALLOWED_ORIGINS = ['https://blogsweb.vercel.app'];
+
+/**
+ * Apply the CORS policy shared by all routes.
+ * Origins come from ALLOWED_ORIGINS (comma separated); any origin is echoed in development.
+ */
+export const applyCors = (req: VercelRequest, res: VercelResponse, methods: HttpMethod[]) => {
+  const allowedOrigins = process.env.ALLOWED_ORIGINS
+    ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
+    : DEFAULT_ALLOWED_ORIGINS;
+  const origin = req.headers.origin;
+
+  if (origin && (allowedOrigins.includes(origin) || process.env.NODE_ENV === 'development')) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', [...methods, 'OPTIONS'].join(', '));
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, If-None-Match');
+  res.setHeader('Access-Control-Expose-Headers', 'ETag');
+};
+
+export const withCors = (methods: HttpMethod[]): Middleware => next => (req, res) => {
+  applyCors(req, res, methods);
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+  return next(req, res);
+};
+
+export const withMethods = (methods: HttpMethod[]): Middleware => next => (req, res) => {
+  if (!methods.includes(req.method as HttpMethod)) {
+    res.setHeader('Allow', methods.join(', '));
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+  return next(req, res);
+};
+
+export const withErrors = (fallbackMessage: string): Middleware => next => async (req, res) => {
+  try {
+    return await next(req, res);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      return res.status(error.status).json(error.code ? { error: error.message, code: error.code } : { error: error.message });
+    }
+    console.error(`${fallbackMessage}:`, error);
+    return res.status(500).json({ error: fallbackMessage });
+  }
+};
+
+/**
+ * Log each request with its status and duration. In production only server errors are
+ * logged unless API_LOG=1; every request is logged in development.
+ */
+export const withLogging = (name: string): Middleware => next => async (req, res) => {
+  const startedAt = Date.now();
+  try {
+    return await next(req, res);
+  } finally {
+    const verbose = process.env.NODE_ENV === 'development' || process.env.API_LOG === '1';
+    if (verbose || res.statusCode >= 500) {
+      console.log(`[api] ${name} ${req.method} ${res.statusCode} ${Date.now() - startedAt}ms`);
+    }
+  }
+};
+
+export interface RouteOptions {
+  name: string;           // Used in request logs
+  methods: HttpMethod[];
+  errorMessage: string;   // Returned with a 500 for unexpected errors
+}
+
+export const createRoute = ({ name, methods, errorMessage }: RouteOptions, handler: ApiHandler): ApiHandler =>
+  compose(
+    withLogging(name),
+    withCors(methods),
+    withMethods(methods),
+    withErrors(errorMessage),
+  )(handler);
+
+// --- Validation ---
+
+export type FieldSpec = Record<string, 'required' | 'optional'>;
+export type Fields<S extends FieldSpec> = {
+  [K in keyof S]: S[K] extends 'required' ? string : string | undefined;
+};
+
+const pickStrings = <S extends FieldSpec>(source: Record<string, unknown>, spec: S): Fields<S> => {
+  const result: Record<string, string | undefined> = {};
+  for (const [key, rule] of Object.entries(spec)) {
+    const value = source[key];
+    if (value === undefined || value === '') {
+      if (rule === 'required') throw new HttpError(400, `Missing or invalid ${key} parameter`);
+      result[key] = undefined;
+    } else if (typeof value !== 'string') {
+      throw new HttpError(400, `Missing or invalid ${key} parameter`);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result as Fields<S>;
+};
+
+/**
+ * Read string query parameters. Repeated (array) values and missing required
+ * keys are rejected with a 400.
+ */
+export const parseQuery = <S extends FieldSpec>(req: VercelRequest, spec: S): Fields<S> =>
+  pickStrings(req.query as Record<string, unknown>, spec);
+
+/**
+ * Read string fields from a JSON body with the same rules as parseQuery().
+ */
+export const parseBody = <S extends FieldSpec>(req: VercelRequest, spec: S): Fields<S> => {
+  if (!req.body || typeof req.body !== 'object') {
+    throw new HttpError(400, 'Missing or invalid request body');
+  }
+  return pickStrings(req.body as Record<string, unknown>, spec);
+};
+
+/**
+ * The request body exactly as it was sent, for signature checks. Vercel leaves the
+ * stream unread until `req.body` is accessed; the dev server keeps a copy on `req.rawBody`.
+ */
+export const readRawBody = async (req: VercelRequest): Promise<Buffer> => {
+  const stored = (req as VercelRequest & { rawBody?: Buffer }).rawBody;
+  if (Buffer.isBuffer(stored)) return stored;
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  return Buffer.concat(chunks);
+};
+
+// --- GitHub ---
+
+export const GITHUB_API = 'https://api.github.com';
+
+export const githubHeaders = (accept = 'application/vnd.github+json'): Record<string, string> => {
+  const headers: Record<string, string> = {
+    'Accept': accept,
+    'User-Agent': 'BlogsWeb-API'
+  };
+  const token = process.env.GITHUB_TOKEN;
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Minimal request and response doubles for route tests
+
+export interface MockResponse {
+  res: VercelResponse;
+  headers: Record<string, string>;
+  sent: () => unknown;
+}
+
+type RequestInit = Partial<Pick<VercelRequest, 'method' | 'query' | 'body' | 'headers'>> & { rawBody?: Buffer };
+
+export const mockRequest = (init: RequestInit = {}): VercelRequest =>
+  ({ method: 'GET', query: {}, headers: {}, ...init }) as VercelRequest;
+
+export const mockResponse = (): MockResponse => {
+  const headers: Record<string, string> = {};
+  let body: unknown;
+  const res = {
+    statusCode: 200,
+    setHeader(name: string, value: string) {
+      headers[name.toLowerCase()] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(value: unknown) {
+      body = value;
+      return res;
+    },
+    end() {
+      return res;
+    },
+  };
+  return { res: res as unknown as VercelResponse, headers, sent: () => body };
+};
@@ -0,0 +1,107 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import webhook from '../github/webhook';
+import { CachedResponse, getCacheStore } from './githubCache';
+import { readContentVersion } from './contentVersion';
+import { commitsUrls, rawUrl, treeUrl } from './githubUrls';
+import { mockRequest, mockResponse } from './mockHttp';
+
+// Lives in _lib because every other file under api/ is deployed as a function
+
+const SECRET = 'test-secret';
+const payload = fs.readFileSync(path.join(__dirname, '../../scripts/fixtures/push.json'));
+const [owner, repo] = ['66six11', 'MyNotes'];
+const note = '代码设计/设计模式/观察者模式.md';
+const attachment = 'attachments/observer-diagram.png';
+
+const sign = (body: Buffer, secret = SECRET) =>
+  `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const deliver = async (signature: string, event = 'push') => {
+  const { res, sent } = mockResponse();
+  await webhook(
+    mockRequest({
+      method: 'POST',
+      headers: { 'content-type': 'application/json', 'x-github-event': event, 'x-hub-signature-256': signature },
+      rawBody: payload,
+    }),
+    res
+  );
+  return { status: res.statusCode, body: sent() };
+};
+
+const entry = (body: string): CachedResponse => ({
+  status: 200,
+  contentType: 'text/plain',
+  body,
+  encoding: 'utf8',
+  storedAt: Date.now(),
+});
+
+const currentVersion = async () => JSON.parse((await readContentVersion()).body).version as number;
+
+describe('github/webhook', () => {
+  // Entries a push to the default branch must drop, with and without an explicit ref
+  const staleKeys = [
+    treeUrl(owner, repo, 'main'),
+    ...[note, attachment].flatMap(file =>
+      ['main', undefined].flatMap(ref => [rawUrl(owner, repo, file, ref), ...commitsUrls(owner, repo, file, ref)])
+    ),
+  ];
+  const keptKeys = [
+    treeUrl(owner, repo, 'develop'),
+    rawUrl(owner, repo, note, 'develop'),
+    rawUrl(owner, repo, '.obsidian/workspace.json', 'main'),
+  ];
+
+  beforeEach(async () => {
+    vi.stubEnv('GITHUB_WEBHOOK_SECRET', SECRET);
+    vi.stubEnv('GITHUB_ALLOWED_REPOS', `${owner}/${repo}`);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await Promise.all([...staleKeys, ...keptKeys].map(key => getCacheStore().set(key, entry(key))));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects a bad signature without touching the cache or the version', async () => {
+    const before = await currentVersion();
+    const result = await deliver(sign(payload, 'wrong-secret'));
+    expect(result.status).toBe(401);
+    for (const key of staleKeys) expect(await getCacheStore().get(key)).not.toBeNull();
+    expect(await currentVersion()).toBe(before);
+  });
+
+  it('drops the cached entries of the pushed branch and bumps the version', async () => {
+    const before = await currentVersion();
+    const result = await deliver(sign(payload));
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({ ref: 'main', paths: [attachment, note], invalidated: staleKeys.length });
+
+    for (const key of staleKeys) expect(await getCacheStore().get(key)).toBeNull();
+    for (const key of keptKeys) expect(await getCacheStore().get(key)).not.toBeNull();
+
+    const version = await currentVersion();
+    expect(version).toBeGreaterThan(before);
+    const { changes } = JSON.parse((await readContentVersion()).body);
+    expect(changes.at(-1)).toMatchObject({ version, previous: before, ref: 'main', paths: [attachment, note] });
+  });
+
+  it('keeps raising the version on later pushes', async () => {
+    await deliver(sign(payload));
+    const first = await currentVersion();
+    await deliver(sign(payload));
+    expect(await currentVersion()).toBeGreaterThan(first);
+  });
+
+  it('answers pings without changing anything', async () => {
+    const before = await currentVersion();
+    expect(await deliver(sign(payload), 'ping')).toEqual({ status: 200, body: { ok: true } });
+    expect(await currentVersion()).toBe(before);
+  });
+});
@@ -1,5 +1,5 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
 import { GoogleGenAI, Chat, GenerateContentResponse } from '@google/genai';
+import { createRoute, parseBody, HttpError } from '../_lib/middleware.js';
 
 const SYSTEM_INSTRUCTION = `
 你正在扮演来自《魔女之旅》（Majo no Tabitabi）的伊蕾娜 (Elaina)。
@@ -18,36 +18,20 @@ const SYSTEM_INSTRUCTION = `
 // 会话状态管理（内存中，适合Vercel Serverless环境）
 const chatSessions = new Map<string, Chat>();
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+export default createRoute(
+  { name: 'gemini/chat', methods: ['POST'], errorMessage: 'Failed to process message' },
+  async (req, res) => {
+    const { message, sessionId } = parseBody(req, { message: 'required', sessionId: 'optional' });
 
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  const { message, sessionId } = req.body;
-
-  if (!message || typeof message !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid message parameter' });
-  }
-
-  const apiKey = process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    console.error('Gemini API Key is missing in environment variables');
-    return res.status(500).json({ error: 'Server configuration error: API key missing' });
-  }
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      console.error('Gemini API Key is missing in environment variables');
+      throw new HttpError(500, 'Server configuration error: API key missing');
+    }
 
-  try {
     const ai = new GoogleGenAI({ apiKey });
     const sessionKey = sessionId || 'default';
-    
+
     let chatSession = chatSessions.get(sessionKey);
     if (!chatSession) {
       chatSession = ai.chats.create({
@@ -61,17 +45,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     const result: GenerateContentResponse = await chatSession.sendMessage({ message });
     const responseText = result.text || "嗯，我的魔法似乎在波动...（没有响应）";
-    
-    return res.status(200).json({ 
-      success: true, 
+
+    return res.status(200).json({
+      success: true,
       response: responseText,
-      sessionId: sessionKey 
-    });
-  } catch (error) {
-    console.error('Gemini API error:', error);
-    return res.status(500).json({ 
-      error: 'Failed to process message', 
-      details: error instanceof Error ? error.message : 'Unknown error' 
+      sessionId: sessionKey
     });
   }
-}
\ No newline at end of file
+);
@@ -1,57 +1,45 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  const token = process.env.GITHUB_TOKEN;
-
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
+import { createRoute, parseQuery, HttpError } from '../_lib/middleware.js';
+import { forwardGitHubJson } from '../_lib/githubCache.js';
+import { commitsUrl } from '../_lib/githubUrls.js';
+import { assertRepoAllowed, assertPathAllowed, assertRefValid } from '../_lib/githubGuard.js';
+
+const MAX_PER_PAGE = 100; // GitHub's own limit
+
+// Positive integer query parameter, or the fallback when it is absent
+const parsePositive = (value: string | undefined, fallback: number, max: number, name: string) => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw new HttpError(400, `Invalid ${name} parameter`, 'INVALID_PAGE');
   }
-
-  const { owner, repo, path } = req.query;
-
-  if (!owner || typeof owner !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid owner parameter' });
-  }
-
-  if (!repo || typeof repo !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid repo parameter' });
-  }
-
-  if (!path || typeof path !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid path parameter' });
-  }
-
-  try {
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github+json',
-      'User-Agent': 'BlogsWeb-API'
-    };
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    // Fetch the last commit for the specific file
-    const response = await fetch(
-      `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/commits?path=${encodeURIComponent(path)}&per_page=1`,
-      { headers }
+  return parsed;
+};
+
+export default createRoute(
+  { name: 'github/commits', methods: ['GET'], errorMessage: 'Failed to fetch commit data from GitHub' },
+  async (req, res) => {
+    const { owner, repo, path, ref, page, per_page } = parseQuery(req, {
+      owner: 'required',
+      repo: 'required',
+      path: 'required',
+      ref: 'optional',
+      page: 'optional',
+      per_page: 'optional',
+    });
+    assertRepoAllowed(owner, repo);
+    assertPathAllowed(path);
+    if (ref) assertRefValid(ref);
+
+    // Without paging parameters this is the last commit for the file, which dates the note;
+    // the revision history pages through the rest
+    const url = commitsUrl(
+      owner,
+      repo,
+      path,
+      ref,
+      parsePositive(page, 1, Number.MAX_SAFE_INTEGER, 'page'),
+      parsePositive(per_page, 1, MAX_PER_PAGE, 'per_page')
     );
-
-    const data = await response.json();
-
-    // Forward the status code from GitHub API
-    return res.status(response.status).json(data);
-  } catch (error) {
-    console.error('GitHub API error:', error);
-    return res.status(500).json({ error: 'Failed to fetch commit data from GitHub' });
+    return forwardGitHubJson(req, res, url);
   }
-}
+);
@@ -1,56 +1,15 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createRoute, parseQuery } from '../_lib/middleware.js';
+import { forwardGitHubJson } from '../_lib/githubCache.js';
+import { treeUrl } from '../_lib/githubUrls.js';
+import { assertRepoAllowed, assertRefValid } from '../_lib/githubGuard.js';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  const token = process.env.GITHUB_TOKEN;
+export default createRoute(
+  { name: 'github/tree', methods: ['GET'], errorMessage: 'Failed to fetch tree data from GitHub' },
+  async (req, res) => {
+    const { owner, repo, ref } = parseQuery(req, { owner: 'required', repo: 'required', ref: 'required' });
+    assertRepoAllowed(owner, repo);
+    assertRefValid(ref);
 
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  const { owner, repo, branch } = req.query;
-
-  if (!owner || typeof owner !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid owner parameter' });
-  }
-
-  if (!repo || typeof repo !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid repo parameter' });
-  }
-
-  if (!branch || typeof branch !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid branch parameter' });
-  }
-
-  try {
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github+json',
-      'User-Agent': 'BlogsWeb-API'
-    };
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(
-      `https://api.github.com/repos/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}/git/trees/${encodeURIComponent(branch)}?recursive=1`,
-      { headers }
-    );
-
-    const data = await response.json();
-
-    // Forward the status code from GitHub API
-    return res.status(response.status).json(data);
-  } catch (error) {
-    console.error('GitHub API error:', error);
-    return res.status(500).json({ error: 'Failed to fetch tree data from GitHub' });
+    return forwardGitHubJson(req, res, treeUrl(owner, repo, ref));
   }
-}
+);
@@ -1,47 +1,14 @@
-import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createRoute, parseQuery } from '../_lib/middleware.js';
+import { forwardGitHubJson } from '../_lib/githubCache.js';
+import { userUrl } from '../_lib/githubUrls.js';
+import { assertUserAllowed } from '../_lib/githubGuard.js';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-  const token = process.env.GITHUB_TOKEN;
+export default createRoute(
+  { name: 'github/user', methods: ['GET'], errorMessage: 'Failed to fetch user data from GitHub' },
+  async (req, res) => {
+    const { username } = parseQuery(req, { username: 'required' });
+    assertUserAllowed(username);
 
-  // Set CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'GET') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  const { username } = req.query;
-
-  if (!username || typeof username !== 'string') {
-    return res.status(400).json({ error: 'Missing or invalid username parameter' });
-  }
-
-  try {
-    const headers: Record<string, string> = {
-      'Accept': 'application/vnd.github+json',
-      'User-Agent': 'BlogsWeb-API'
-    };
-
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(`https://api.github.com/users/${encodeURIComponent(username)}`, {
-      headers
-    });
-
-    const data = await response.json();
-
-    // Forward the status code from GitHub API
-    return res.status(response.status).json(data);
-  } catch (error) {
-    console.error('GitHub API error:', error);
-    return res.status(500).json({ error: 'Failed to fetch user data from GitHub' });
+    return forwardGitHubJson(req, res, userUrl(username));
   }
-}
+);
@@ -0,0 +1,9 @@
+import { createRoute } from '../_lib/middleware.js';
+import { sendCachedResponse } from '../_lib/githubCache.js';
+import { readContentVersion } from '../_lib/contentVersion.js';
+
+// Polled by the browser; an unchanged version is an empty 304
+export default createRoute(
+  { name: 'github/version', methods: ['GET'], errorMessage: 'Failed to read the content version' },
+  async (req, res) => sendCachedResponse(req, res, await readContentVersion())
+);
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { createRoute, readRawBody, HttpError } from '../_lib/middleware.js';
+import { isPathAllowed, isRefValid, isRepoAllowed } from '../_lib/githubGuard.js';
+import { getCacheStore } from '../_lib/githubCache.js';
+import { commitsUrls, rawUrl, treeUrl } from '../_lib/githubUrls.js';
+import { bumpContentVersion } from '../_lib/contentVersion.js';
+
+// Push webhook of the notes repository (content type application/json, secret in
+// GITHUB_WEBHOOK_SECRET). Drops the proxy's cached tree and the cached raw files and
+// commit lookups and history pages of every changed note, then bumps the content version browsers poll.
+// `npm run webhook:replay` signs and sends a recorded payload to a local dev server.
+
+interface PushPayload {
+  ref?: string;
+  after?: string;
+  repository?: { full_name?: string; default_branch?: string };
+  commits?: { added?: string[]; modified?: string[]; removed?: string[] }[];
+  head_commit?: { added?: string[]; modified?: string[]; removed?: string[] } | null;
+}
+
+const verifySignature = (body: Buffer, signature: string | undefined, secret: string) => {
+  const expected = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+  const received = Buffer.from(signature || '');
+  return received.length === expected.length && crypto.timingSafeEqual(received, Buffer.from(expected));
+};
+
+// GitHub sends application/json, or a form with a `payload` field when so configured
+const parsePayload = (body: Buffer, contentType: string | undefined): PushPayload => {
+  const text = body.toString('utf8');
+  try {
+    return JSON.parse(contentType?.includes('x-www-form-urlencoded') ? new URLSearchParams(text).get('payload') || '' : text);
+  } catch {
+    throw new HttpError(400, 'Invalid webhook payload', 'INVALID_PAYLOAD');
+  }
+};
+
+const changedPaths = (payload: PushPayload): string[] => {
+  // `commits` is capped at 20 entries; head_commit covers single-commit pushes beyond that
+  const commits = [...(payload.commits || []), ...(payload.head_commit ? [payload.head_commit] : [])];
+  const paths = commits.flatMap(commit => [...(commit.added || []), ...(commit.modified || []), ...(commit.removed || [])]);
+  return [...new Set(paths)].filter(isPathAllowed);
+};
+
+export default createRoute(
+  { name: 'github/webhook', methods: ['POST'], errorMessage: 'Failed to process webhook' },
+  async (req, res) => {
+    const secret = process.env.GITHUB_WEBHOOK_SECRET;
+    if (!secret) {
+      console.error('GITHUB_WEBHOOK_SECRET is missing in environment variables');
+      throw new HttpError(500, 'Server configuration error: webhook secret missing');
+    }
+
+    const body = await readRawBody(req);
+    const signature = req.headers['x-hub-signature-256'];
+    if (!verifySignature(body, Array.isArray(signature) ? signature[0] : signature, secret)) {
+      throw new HttpError(401, 'Invalid signature', 'INVALID_SIGNATURE');
+    }
+
+    const event = req.headers['x-github-event'];
+    if (event === 'ping') return res.status(200).json({ ok: true });
+    if (event !== 'push') return res.status(202).json({ ignored: event || 'unknown' });
+
+    const payload = parsePayload(body, req.headers['content-type']);
+    const [owner, repo] = (payload.repository?.full_name || '').split('/');
+    if (!owner || !repo || !isRepoAllowed(owner, repo)) {
+      throw new HttpError(403, 'Repository is not served by this proxy', 'REPO_NOT_ALLOWED');
+    }
+    const branch = (payload.ref || '').replace(/^refs\/heads\//, '');
+    if (!payload.ref?.startsWith('refs/heads/') || !isRefValid(branch)) {
+      return res.status(202).json({ ignored: payload.ref || 'unknown ref' });
+    }
+
+    // Requests without a ref read the default branch, so those entries are stale too
+    const refs: (string | undefined)[] = branch === payload.repository?.default_branch ? [branch, undefined] : [branch];
+    const paths = changedPaths(payload);
+    const keys = [
+      ...refs.filter((ref): ref is string => !!ref).map(ref => treeUrl(owner, repo, ref)),
+      ...paths.flatMap(path => refs.flatMap(ref => [rawUrl(owner, repo, path, ref), ...commitsUrls(owner, repo, path, ref)])),
+    ];
+    await Promise.all(keys.map(key => getCacheStore().delete(key)));
+
+    const { version } = await bumpContentVersion({
+      ref: branch,
+      commit: payload.after,
+      paths,
+      pushedAt: new Date().toISOString(),
+    });
+    console.log(`[webhook] ${owner}/${repo}@${branch}: ${paths.length} paths, ${keys.length} cache entries, version ${version}`);
+    return res.status(200).json({ version, ref: branch, paths, invalidated: keys.length });
+  }
+);
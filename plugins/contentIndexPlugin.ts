@@ -0,0 +1,128 @@
+import type { Plugin, ViteDevServer } from 'vite';
+import { GITHUB_CONFIG } from '../src/config';
+import type { ContentBundle, ContentIndex, ContentIndexEntry } from '../src/types';
+import {
+  CONTENT_BUNDLE_FILE,
+  CONTENT_BUNDLE_VERSION,
+  CONTENT_INDEX_FILE,
+  CONTENT_INDEX_VERSION,
+  buildLinkGraph,
+  buildTree,
+  getPostVisibility,
+  summarizePost,
+} from '../src/lib/content';
+import { parseFrontmatter } from '../src/lib/frontmatter';
+import { LoadedNotes, NoteLoader, createNoteLoader, toDay } from './noteSource';
+
+// Builds /content-index.json: the blog tree, frontmatter, excerpts, last-commit dates and
+// backlinks of every published note, so visitors no longer need the repo/tree/commits API calls.
+// With CONTENT_BUNDLE=on it also writes /content-bundle.json, the full text of every note,
+// which the `bundle` content source serves without any API at all.
+// Where the notes come from (and how to turn this off) is described in noteSource.ts.
+// Both files are public, so drafts, unpublished and scheduled notes are left out of them
+// except in preview deployments, where the client shows those notes too.
+
+interface ContentIndexPluginOptions {
+  // Variables from loadEnv()
+  env?: Record<string, string>;
+  // Shared with the other content plugins so the notes are read once
+  notes?: NoteLoader;
+}
+
+// Only the notes a visitor may see: their files, summaries and text
+const visibleNotes = (loaded: LoadedNotes): LoadedNotes => {
+  const hidden = new Set(
+    loaded.notes.filter(({ post }) => getPostVisibility(post) !== 'published').map(({ file }) => file.path)
+  );
+  return {
+    ...loaded,
+    files: loaded.files.filter(file => !hidden.has(file.path)),
+    notes: loaded.notes.filter(({ file }) => !hidden.has(file.path)),
+  };
+};
+
+const generateContentIndex = ({ ref, files, notes }: LoadedNotes, preview: boolean): ContentIndex => {
+  const summaries = notes.map(({ file, post }) => summarizePost(post, file.sha));
+  const { links, backlinks } = buildLinkGraph(
+    Object.fromEntries(summaries.map(summary => [summary.id, summary.linkTargets || []]))
+  );
+
+  const posts: Record<string, ContentIndexEntry> = {};
+  notes.forEach(({ file, rawText, commitDate }, i) => {
+    const summary = summaries[i];
+    summary.frontmatterWarnings?.forEach(warning => console.warn(`[content-index] ${file.path} frontmatter ${warning}`));
+    posts[file.path] = {
+      ...summary,
+      frontmatter: parseFrontmatter(rawText).data || {},
+      lastCommitDate: commitDate ? toDay(commitDate) : null,
+      links: links[file.path],
+      backlinks: backlinks[file.path],
+    };
+  });
+
+  return {
+    version: CONTENT_INDEX_VERSION,
+    generatedAt: new Date().toISOString(),
+    repo: `${GITHUB_CONFIG.username}/${GITHUB_CONFIG.repo}`,
+    ref,
+    preview,
+    tree: buildTree(files),
+    files,
+    posts,
+  };
+};
+
+const generateContentBundle = ({ ref, notes }: LoadedNotes): ContentBundle => ({
+  version: CONTENT_BUNDLE_VERSION,
+  generatedAt: new Date().toISOString(),
+  ref,
+  files: notes.map(({ file, rawText, commitDate }) => ({
+    path: file.path,
+    sha: file.sha,
+    lastCommitDate: commitDate ? toDay(commitDate) : null,
+    text: rawText,
+  })),
+});
+
+export const contentIndexPlugin = ({ env = {}, notes = createNoteLoader(env) }: ContentIndexPluginOptions = {}): Plugin => {
+  const withBundle = (env.CONTENT_BUNDLE || process.env.CONTENT_BUNDLE) === 'on';
+  const isPreview = (env.VERCEL_ENV || process.env.VERCEL_ENV) === 'preview';
+
+  const loadNotes = async (allowRemote: boolean) => {
+    const loaded = await notes.load(allowRemote);
+    return loaded && !isPreview ? visibleNotes(loaded) : loaded;
+  };
+
+  const getIndex = async (allowRemote: boolean) => {
+    const loaded = await loadNotes(allowRemote);
+    return loaded ? generateContentIndex(loaded, isPreview) : null;
+  };
+
+  return {
+    name: 'content-index',
+
+    configureServer(server: ViteDevServer) {
+      server.middlewares.use(`/${CONTENT_INDEX_FILE}`, async (_req, res) => {
+        const index = await getIndex(false);
+        res.statusCode = index ? 200 : 404;
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.end(JSON.stringify(index || { error: 'Content index disabled; set CONTENT_REPO_DIR to build one in dev' }));
+      });
+      server.middlewares.use(`/${CONTENT_BUNDLE_FILE}`, async (_req, res) => {
+        const loaded = await loadNotes(false);
+        res.statusCode = loaded ? 200 : 404;
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.end(JSON.stringify(loaded ? generateContentBundle(loaded) : { error: 'Set CONTENT_REPO_DIR to bundle notes in dev' }));
+      });
+    },
+
+    async generateBundle() {
+      const loaded = await loadNotes(true);
+      if (!loaded) return;
+      this.emitFile({ type: 'asset', fileName: CONTENT_INDEX_FILE, source: JSON.stringify(generateContentIndex(loaded, isPreview)) });
+      if (withBundle) {
+        this.emitFile({ type: 'asset', fileName: CONTENT_BUNDLE_FILE, source: JSON.stringify(generateContentBundle(loaded)) });
+      }
+    },
+  };
+};
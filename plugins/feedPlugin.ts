@@ -0,0 +1,208 @@
+import type { Plugin, ViteDevServer } from 'vite';
+import { GITHUB_CONFIG, SITE_CONFIG } from '../src/config';
+import { getPostVisibility, resolveNoteLink } from '../src/lib/content';
+import { escapeHtml, renderMarkdownToHtml } from '../src/lib/markdownHtml';
+import { buildPostUrl, buildTagUrl } from '../src/lib/routes';
+import { toPlainText } from '../src/lib/seo';
+import { LoadedNotes, NoteLoader, createNoteLoader, getSiteUrl } from './noteSource';
+
+// Emits RSS 2.0 (/feed.xml), Atom (/atom.xml) and JSON Feed (/feed.json) for the newest
+// published notes, with the rendered note as the entry content. Drafts, unpublished and
+// scheduled notes are left out. Notes are read through noteSource.ts, like the content index.
+
+interface FeedPluginOptions {
+  // Variables from loadEnv()
+  env?: Record<string, string>;
+  // Shared with the other content plugins so the notes are read once
+  notes?: NoteLoader;
+}
+
+interface FeedItem {
+  url: string;
+  title: string;
+  date: string; // ISO timestamp of the last commit touching the note
+  tags: string[];
+  excerpt: string; // Plain text; the rendered note is in `html`
+  html: string;
+}
+
+interface Feed {
+  siteUrl: string;
+  updated: string;
+  items: FeedItem[];
+}
+
+export const FEED_FILES = {
+  rss: 'feed.xml',
+  atom: 'atom.xml',
+  json: 'feed.json',
+} as const;
+
+const FEED_LIMIT = 50;
+
+const CONTENT_TYPES: Record<keyof typeof FEED_FILES, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+const toIsoDate = (date: string | null | undefined): string | null => {
+  if (!date) return null;
+  const time = Date.parse(date);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+};
+
+// --- Items ---
+
+// Repository path of a markdown image written relative to the note
+const resolveRelativePath = (src: string, notePath: string) => {
+  const pathname = new URL(src, `https://notes/${notePath}`).pathname.slice(1);
+  try {
+    return decodeURI(pathname);
+  } catch {
+    return pathname;
+  }
+};
+
+const buildFeed = ({ ref, notes }: LoadedNotes, siteUrl: string): Feed => {
+  const now = new Date();
+  const published = notes.filter(({ post }) => getPostVisibility(post) === 'published');
+  const notePaths = published.map(({ file }) => file.path);
+
+  const rawFileUrl = (path: string) => {
+    const query = new URLSearchParams({ owner: GITHUB_CONFIG.username, repo: GITHUB_CONFIG.repo, path, ref });
+    return `${siteUrl}/api/github/raw?${query}`;
+  };
+
+  const items = published
+    .map(({ file, post, commitDate }) => ({
+      url: `${siteUrl}${buildPostUrl(file.path)}`,
+      title: post.title,
+      date: toIsoDate(commitDate) || toIsoDate(post.date) || now.toISOString(),
+      tags: post.tags,
+      excerpt: toPlainText(post.excerpt),
+      html: renderMarkdownToHtml(post.content, {
+        resolveNote: target => {
+          const path = resolveNoteLink(target, file.path, notePaths);
+          return path ? `${siteUrl}${buildPostUrl(path)}` : null;
+        },
+        resolveImage: (src, embed) =>
+          rawFileUrl(embed ? `${GITHUB_CONFIG.attachmentsPath}/${src}` : resolveRelativePath(src, file.path)),
+        resolveTag: tag => `${siteUrl}${buildTagUrl(tag)}`,
+      }),
+    }))
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .slice(0, FEED_LIMIT);
+
+  return { siteUrl, updated: items[0]?.date || now.toISOString(), items };
+};
+
+// --- Formats ---
+
+const renderRss = ({ siteUrl, updated, items }: Feed) => `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/">
+  <channel>
+    <title>${escapeHtml(SITE_CONFIG.title)}</title>
+    <link>${escapeHtml(`${siteUrl}/blog`)}</link>
+    <description>${escapeHtml(SITE_CONFIG.description)}</description>
+    <language>zh-CN</language>
+    <lastBuildDate>${new Date(updated).toUTCString()}</lastBuildDate>
+    <atom:link href="${escapeHtml(`${siteUrl}/${FEED_FILES.rss}`)}" rel="self" type="application/rss+xml" />
+${items
+  .map(item => `    <item>
+      <title>${escapeHtml(item.title)}</title>
+      <link>${escapeHtml(item.url)}</link>
+      <guid isPermaLink="true">${escapeHtml(item.url)}</guid>
+      <pubDate>${new Date(item.date).toUTCString()}</pubDate>
+${item.tags.map(tag => `      <category>${escapeHtml(tag)}</category>\n`).join('')}      <description>${escapeHtml(item.excerpt)}</description>
+      <content:encoded>${escapeHtml(item.html)}</content:encoded>
+    </item>`)
+  .join('\n')}
+  </channel>
+</rss>
+`;
+
+const renderAtom = ({ siteUrl, updated, items }: Feed) => `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="zh-CN">
+  <id>${escapeHtml(`${siteUrl}/`)}</id>
+  <title>${escapeHtml(SITE_CONFIG.title)}</title>
+  <subtitle>${escapeHtml(SITE_CONFIG.description)}</subtitle>
+  <updated>${updated}</updated>
+  <link href="${escapeHtml(`${siteUrl}/blog`)}" rel="alternate" type="text/html" />
+  <link href="${escapeHtml(`${siteUrl}/${FEED_FILES.atom}`)}" rel="self" type="application/atom+xml" />
+  <author><name>${escapeHtml(SITE_CONFIG.authorName)}</name></author>
+${items
+  .map(item => `  <entry>
+    <id>${escapeHtml(item.url)}</id>
+    <title>${escapeHtml(item.title)}</title>
+    <link href="${escapeHtml(item.url)}" rel="alternate" type="text/html" />
+    <published>${item.date}</published>
+    <updated>${item.date}</updated>
+${item.tags.map(tag => `    <category term="${escapeHtml(tag)}" />\n`).join('')}    <summary>${escapeHtml(item.excerpt)}</summary>
+    <content type="html">${escapeHtml(item.html)}</content>
+  </entry>`)
+  .join('\n')}
+</feed>
+`;
+
+const renderJsonFeed = ({ siteUrl, items }: Feed) =>
+  JSON.stringify({
+    version: 'https://jsonfeed.org/version/1.1',
+    title: SITE_CONFIG.title,
+    description: SITE_CONFIG.description,
+    home_page_url: `${siteUrl}/blog`,
+    feed_url: `${siteUrl}/${FEED_FILES.json}`,
+    language: 'zh-CN',
+    authors: [{ name: SITE_CONFIG.authorName }],
+    items: items.map(item => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      summary: item.excerpt,
+      content_html: item.html,
+      date_published: item.date,
+      date_modified: item.date,
+      tags: item.tags,
+    })),
+  }, null, 2);
+
+const RENDERERS: Record<keyof typeof FEED_FILES, (feed: Feed) => string> = {
+  rss: renderRss,
+  atom: renderAtom,
+  json: renderJsonFeed,
+};
+
+export const feedPlugin = ({ env = {}, notes = createNoteLoader(env) }: FeedPluginOptions = {}): Plugin => {
+  const siteUrl = getSiteUrl(env);
+  const getFeed = async (allowRemote: boolean) => {
+    const loaded = await notes.load(allowRemote);
+    return loaded ? buildFeed(loaded, siteUrl) : null;
+  };
+
+  return {
+    name: 'feeds',
+
+    configureServer(server: ViteDevServer) {
+      (Object.keys(FEED_FILES) as (keyof typeof FEED_FILES)[]).forEach(format => {
+        server.middlewares.use(`/${FEED_FILES[format]}`, async (_req, res) => {
+          const feed = await getFeed(false);
+          if (!feed) {
+            res.statusCode = 404;
+            res.end('Feeds are only generated in dev from CONTENT_REPO_DIR');
+            return;
+          }
+          res.setHeader('Content-Type', CONTENT_TYPES[format]);
+          res.end(RENDERERS[format](feed));
+        });
+      });
+    },
+
+    async generateBundle() {
+      const feed = await getFeed(true);
+      if (!feed) return;
+      (Object.keys(FEED_FILES) as (keyof typeof FEED_FILES)[]).forEach(format => {
+        this.emitFile({ type: 'asset', fileName: FEED_FILES[format], source: RENDERERS[format](feed) });
+      });
+    },
+  };
+};
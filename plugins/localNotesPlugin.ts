@@ -0,0 +1,159 @@
+import fs from 'fs';
+import path from 'path';
+import { execFileSync } from 'child_process';
+import type { ServerResponse } from 'http';
+import type { Plugin, ViteDevServer } from 'vite';
+import { LOCAL_NOTES_EVENT, LOCAL_NOTES_PATH, RepoFile, isPublishedNote } from '../src/lib/content';
+import { git, gitBlobSha, listFiles, toDay } from './noteSource';
+
+// Dev-only backend of the `local` content source (src/services/localSource.ts): serves the
+// notes folder in CONTENT_REPO_DIR so the whole blog runs without GitHub or a token.
+//   /__notes/tree             -> { files: [{ path, sha }] } of the published notes
+//   /__notes/file?path=<path> -> a note or attachment, with its blob SHA as ETag
+//     &rev=<commit>           -> the file as of that commit
+//   /__notes/meta?path=<path> -> { lastCommitDate } from `git log`, or the file's mtime
+//   /__notes/history?path=<path>&page=<n>&per_page=<n> -> commits touching the file, newest first
+// Changes to the folder are pushed to the browser as a custom HMR event.
+
+interface LocalNotesPluginOptions {
+  // Variables from loadEnv()
+  env?: Record<string, string>;
+}
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.md': 'text/markdown; charset=utf-8',
+  '.txt': 'text/plain; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.pdf': 'application/pdf',
+  '.mp3': 'audio/mpeg',
+  '.mp4': 'video/mp4',
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+};
+
+const COMMIT_PATTERN = /^[0-9a-f]{7,40}$/i;
+// Fields of one `git log` entry, split on unit separators; records end with a record separator
+const LOG_FORMAT = '%H%x1f%an%x1f%aI%x1f%B%x1e';
+
+// Repository-relative and inside the folder: no traversal, no absolute or hidden paths
+const isSafePath = (filePath: string) =>
+  !!filePath &&
+  !filePath.startsWith('/') &&
+  !filePath.includes('\\') &&
+  filePath.split('/').every(part => part !== '' && part !== '.' && part !== '..' && !part.startsWith('.'));
+
+export const localNotesPlugin = ({ env = {} }: LocalNotesPluginOptions = {}): Plugin => {
+  const repoDir = env.CONTENT_REPO_DIR || process.env.CONTENT_REPO_DIR;
+
+  return {
+    name: 'local-notes',
+    apply: 'serve',
+
+    configureServer(server: ViteDevServer) {
+      if (!repoDir) {
+        server.middlewares.use(LOCAL_NOTES_PATH, (_req, res) =>
+          sendJson(res, 404, { error: 'Set CONTENT_REPO_DIR to a notes folder to use the local content source' })
+        );
+        return;
+      }
+
+      const root = path.resolve(repoDir);
+      // Hashing every note is cheap but not free, so the list is kept until something changes
+      let filesCache: RepoFile[] | null = null;
+
+      const listNotes = (): RepoFile[] => {
+        if (!filesCache) {
+          filesCache = listFiles(root)
+            .filter(isPublishedNote)
+            .map(filePath => ({ path: filePath, sha: gitBlobSha(fs.readFileSync(path.join(root, filePath))) }));
+        }
+        return filesCache;
+      };
+
+      server.watcher.add(root);
+      (['add', 'change', 'unlink'] as const).forEach(event => {
+        server.watcher.on(event, (file: string) => {
+          const relativePath = path.relative(root, file).split(path.sep).join('/');
+          if (!isSafePath(relativePath)) return;
+          filesCache = null;
+          if (isPublishedNote(relativePath)) {
+            server.ws.send({ type: 'custom', event: LOCAL_NOTES_EVENT, data: { path: relativePath, event } });
+          }
+        });
+      });
+
+      server.middlewares.use(LOCAL_NOTES_PATH, async (req, res) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const filePath = url.searchParams.get('path') || '';
+
+        try {
+          if (url.pathname === '/tree') return sendJson(res, 200, { files: listNotes() });
+
+          if (!isSafePath(filePath)) return sendJson(res, 400, { error: 'Invalid path' });
+
+          if (url.pathname === '/history') {
+            const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+            const perPage = Math.min(100, Math.max(1, Number(url.searchParams.get('per_page')) || 20));
+            const log = git(root, ['log', `--format=${LOG_FORMAT}`, `--skip=${(page - 1) * perPage}`, `-n${perPage}`, '--', filePath]);
+            const revisions = (log || '').split('\x1e').map(record => record.trim()).filter(Boolean).map(record => {
+              const [sha, author, date, message] = record.split('\x1f');
+              return { sha, author, date, message: message.trim() };
+            });
+            return sendJson(res, 200, revisions);
+          }
+
+          const rev = url.searchParams.get('rev');
+          if (url.pathname === '/file' && rev) {
+            if (!COMMIT_PATTERN.test(rev)) return sendJson(res, 400, { error: 'Invalid rev' });
+            try {
+              // `./` makes the path relative to the notes folder, which may sit inside a larger repository
+              const content = execFileSync('git', ['show', `${rev}:./${filePath}`], { cwd: root, stdio: ['ignore', 'pipe', 'ignore'] });
+              res.setHeader('Content-Type', CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream');
+              res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+              return res.end(content);
+            } catch {
+              return sendJson(res, 404, { error: `${filePath} not found at ${rev}` });
+            }
+          }
+
+          const fullPath = path.join(root, filePath);
+          const stat = await fs.promises.stat(fullPath).catch(() => null);
+          if (!stat?.isFile()) return sendJson(res, 404, { error: `${filePath} not found` });
+
+          if (url.pathname === '/meta') {
+            const date = git(root, ['log', '-1', '--format=%aI', '--', filePath]) || stat.mtime.toISOString();
+            return sendJson(res, 200, { lastCommitDate: toDay(date) });
+          }
+
+          if (url.pathname === '/file') {
+            const content = await fs.promises.readFile(fullPath);
+            const etag = `"${gitBlobSha(content)}"`;
+            res.setHeader('ETag', etag);
+            res.setHeader('Cache-Control', 'no-cache');
+            if (req.headers['if-none-match'] === etag) {
+              res.statusCode = 304;
+              return res.end();
+            }
+            res.setHeader('Content-Type', CONTENT_TYPES[path.extname(filePath).toLowerCase()] || 'application/octet-stream');
+            return res.end(content);
+          }
+
+          return sendJson(res, 404, { error: `Unknown endpoint ${url.pathname}` });
+        } catch (error) {
+          console.error('[local-notes]', error);
+          return sendJson(res, 500, { error: error instanceof Error ? error.message : 'Failed to read notes' });
+        }
+      });
+    },
+  };
+};
@@ -0,0 +1,172 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { GITHUB_CONFIG, SITE_CONFIG } from '../src/config';
+import type { BlogPost } from '../src/types';
+import { GitHubTreeItem, RepoFile, buildPost, isPublishedNote } from '../src/lib/content';
+import { mapWithConcurrency } from '../src/lib/utils';
+
+// Reads every published note once per dev session or build, for the plugins that turn
+// the notes into static files (content index, feeds).
+//
+// Sources, in order:
+//   CONTENT_INDEX=off       -> nothing is read, the site uses the live GitHub proxy
+//   CONTENT_REPO_DIR=<path> -> a local checkout of the notes repo (dates from `git log`)
+//   otherwise, on build     -> fetched once from the GitHub API (GITHUB_TOKEN recommended)
+// In dev notes are only read from a local checkout; without one the plugins serve nothing.
+
+interface NoteSource {
+  ref: string;
+  files: RepoFile[];
+  readFile: (file: RepoFile) => Promise<string>;
+  lastCommitDate: (file: RepoFile) => Promise<string | null>;
+}
+
+export interface LoadedNote {
+  file: RepoFile;
+  rawText: string;
+  commitDate: string | null; // Full ISO timestamp of the last commit touching the note
+  post: BlogPost;            // Built with the commit day as its date, like the client does
+}
+
+export interface LoadedNotes {
+  ref: string;
+  files: RepoFile[];
+  notes: LoadedNote[];
+}
+
+export interface NoteLoader {
+  load: (allowRemote: boolean) => Promise<LoadedNotes | null>;
+}
+
+const FETCH_CONCURRENCY = 6;
+
+export const toDay = (isoDate: string) => new Date(isoDate).toISOString().split('T')[0];
+
+// Same SHA GitHub reports for the blob, so client caches keyed by SHA stay valid either way
+export const gitBlobSha = (content: Buffer) =>
+  crypto.createHash('sha1').update(`blob ${content.length}\0`).update(content).digest('hex');
+
+// --- Local checkout ---
+
+export const git = (repoDir: string, args: string[]): string | null => {
+  try {
+    return execFileSync('git', args, { cwd: repoDir, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim() || null;
+  } catch {
+    return null;
+  }
+};
+
+// Repository-relative paths of every file, skipping hidden entries
+export const listFiles = (root: string, dir = ''): string[] =>
+  fs.readdirSync(path.join(root, dir), { withFileTypes: true }).flatMap(entry => {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') return [];
+    const relativePath = dir ? `${dir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) return listFiles(root, relativePath);
+    return entry.isFile() ? [relativePath] : [];
+  });
+
+const localSource = (repoDir: string): NoteSource => {
+  const root = path.resolve(repoDir);
+  if (!fs.existsSync(root)) throw new Error(`CONTENT_REPO_DIR ${root} does not exist`);
+
+  const files = listFiles(root)
+    .filter(isPublishedNote)
+    .map(filePath => ({ path: filePath, sha: gitBlobSha(fs.readFileSync(path.join(root, filePath))) }));
+
+  return {
+    ref: GITHUB_CONFIG.ref || git(root, ['rev-parse', '--abbrev-ref', 'HEAD']) || 'HEAD',
+    files,
+    readFile: async file => fs.promises.readFile(path.join(root, file.path), 'utf8'),
+    lastCommitDate: async file => git(root, ['log', '-1', '--format=%aI', '--', file.path]),
+  };
+};
+
+// --- GitHub API ---
+
+const githubFetch = async (url: string, token?: string) => {
+  const headers: Record<string, string> = { 'User-Agent': 'BlogsWeb-Build' };
+  if (token) headers['Authorization'] = `Bearer ${token}`;
+
+  const response = await fetch(url, { headers });
+  if (!response.ok) throw new Error(`${url} responded ${response.status}`);
+  return response;
+};
+
+const remoteSource = async (token?: string): Promise<NoteSource> => {
+  const repoApi = `https://api.github.com/repos/${GITHUB_CONFIG.username}/${GITHUB_CONFIG.repo}`;
+
+  const ref = GITHUB_CONFIG.ref || (await (await githubFetch(repoApi, token)).json()).default_branch || 'main';
+  const treeData = await (await githubFetch(`${repoApi}/git/trees/${encodeURIComponent(ref)}?recursive=1`, token)).json();
+  if (treeData.truncated) console.warn('[notes] GitHub truncated the tree; some notes may be missing');
+
+  const files: RepoFile[] = ((treeData.tree || []) as GitHubTreeItem[])
+    .filter(item => item.type === 'blob' && isPublishedNote(item.path))
+    .map(item => ({ path: item.path, sha: item.sha }));
+
+  return {
+    ref,
+    files,
+    readFile: async file => {
+      const encodedPath = file.path.split('/').map(encodeURIComponent).join('/');
+      const rawUrl = `https://raw.githubusercontent.com/${GITHUB_CONFIG.username}/${GITHUB_CONFIG.repo}/${encodeURIComponent(ref)}/${encodedPath}`;
+      return (await githubFetch(rawUrl, token)).text();
+    },
+    lastCommitDate: async file => {
+      const query = new URLSearchParams({ path: file.path, sha: ref, per_page: '1' });
+      const commits = await (await githubFetch(`${repoApi}/commits?${query}`, token)).json();
+      return (Array.isArray(commits) ? commits[0]?.commit?.author?.date : undefined) || null;
+    },
+  };
+};
+
+// --- Site ---
+
+// Origin for absolute links: SITE_URL, then Vercel's production domain, then SITE_CONFIG.url
+export const getSiteUrl = (env: Record<string, string> = {}): string => {
+  const vercelHost = env.VERCEL_PROJECT_PRODUCTION_URL || process.env.VERCEL_PROJECT_PRODUCTION_URL;
+  const url = env.SITE_URL || process.env.SITE_URL || (vercelHost ? `https://${vercelHost}` : SITE_CONFIG.url);
+  return url.replace(/\/+$/, '');
+};
+
+// --- Loader ---
+
+const readNotes = async (source: NoteSource): Promise<LoadedNotes> => {
+  const notes = await mapWithConcurrency(source.files, FETCH_CONCURRENCY, async file => {
+    const [rawText, commitDate] = await Promise.all([source.readFile(file), source.lastCommitDate(file)]);
+    return { file, rawText, commitDate, post: buildPost(file.path, rawText, commitDate ? toDay(commitDate) : null) };
+  });
+  return { ref: source.ref, files: source.files, notes };
+};
+
+/**
+ * One loader per Vite config, shared by every plugin that needs the notes so a build
+ * reads the repository once. Failures are logged and resolve to null.
+ */
+export const createNoteLoader = (env: Record<string, string> = {}): NoteLoader => {
+  const repoDir = env.CONTENT_REPO_DIR || process.env.CONTENT_REPO_DIR;
+  const disabled = (env.CONTENT_INDEX || process.env.CONTENT_INDEX) === 'off';
+  const token = env.GITHUB_TOKEN || process.env.GITHUB_TOKEN;
+  let notesPromise: Promise<LoadedNotes | null> | null = null;
+
+  return {
+    load: allowRemote => {
+      if (disabled || (!repoDir && !allowRemote)) return Promise.resolve(null);
+      if (!notesPromise) {
+        const startedAt = Date.now();
+        notesPromise = (repoDir ? Promise.resolve().then(() => localSource(repoDir)) : remoteSource(token))
+          .then(readNotes)
+          .then(loaded => {
+            console.log(`[notes] ${loaded.notes.length} notes from ${repoDir || 'GitHub'} @ ${loaded.ref} in ${Date.now() - startedAt}ms`);
+            return loaded;
+          })
+          .catch(error => {
+            console.warn('[notes] Skipped, the site will use the live GitHub API:', error instanceof Error ? error.message : error);
+            return null;
+          });
+      }
+      return notesPromise;
+    },
+  };
+};
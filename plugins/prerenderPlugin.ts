@@ -0,0 +1,113 @@
+import path from 'path';
+import { createServer } from 'vite';
+import type { Plugin, Rollup } from 'vite';
+import type { BlogPostSummary } from '../src/types';
+import { buildLinkGraph, buildTree, getPostVisibility, summarizePost } from '../src/lib/content';
+import { buildPostUrl } from '../src/lib/routes';
+import { PrerenderedData, serializePrerenderedData } from '../src/lib/prerender';
+import { NoteLoader, createNoteLoader } from './noteSource';
+import { htmlFileFor } from './seoPlugin';
+
+// Renders every published note to static HTML at build time with the app's own components
+// (src/entry-server.tsx through react-dom/server), so a note is readable before any script
+// runs or any GitHub request is made. The markup goes into the per-route pages seoPlugin
+// emitted, together with the data main.tsx hydrates from. PRERENDER=off skips this step.
+
+interface PrerenderPluginOptions {
+  // Variables from loadEnv()
+  env?: Record<string, string>;
+  // Shared with the other content plugins so the notes are read once
+  notes?: NoteLoader;
+}
+
+const ROOT_ELEMENT = '<div id="root"></div>';
+const SERVER_ENTRY = '/src/entry-server.tsx';
+
+// A throwaway Vite server only used to load the app as SSR modules
+const createRenderer = async (root: string) => {
+  const server = await createServer({
+    root,
+    configFile: false,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false, watch: null },
+    optimizeDeps: { noDiscovery: true, include: [] },
+    resolve: { alias: { '@': path.resolve(root, 'src') } },
+    ssr: {
+      // tone's ESM build uses extensionless imports Node can't resolve
+      noExternal: ['tone'],
+      // Load react-router's ESM build so named imports work from Node
+      resolve: { externalConditions: ['module-sync'] },
+    },
+  });
+  const { render } = (await server.ssrLoadModule(SERVER_ENTRY)) as {
+    render: (url: string, data: PrerenderedData) => string;
+  };
+  return { render, close: () => server.close() };
+};
+
+export const prerenderPlugin = ({ env = {}, notes = createNoteLoader(env) }: PrerenderPluginOptions = {}): Plugin => {
+  const disabled = (env.PRERENDER || process.env.PRERENDER) === 'off';
+  let root = process.cwd();
+
+  return {
+    name: 'prerender',
+    apply: 'build',
+    // After seoPlugin, whose per-route pages receive the markup
+    enforce: 'post',
+
+    configResolved(config) {
+      root = config.root;
+    },
+
+    async generateBundle(_options, bundle) {
+      if (disabled) return;
+      const loaded = await notes.load(true);
+      if (!loaded) return;
+
+      const published = loaded.notes.filter(({ post }) => getPostVisibility(post) === 'published');
+      const publishedPaths = new Set(published.map(({ file }) => file.path));
+      const summaries = new Map<string, BlogPostSummary>(
+        published.map(({ file, post }) => [file.path, summarizePost(post, file.sha)])
+      );
+      const { links, backlinks } = buildLinkGraph(
+        Object.fromEntries([...summaries.keys()].map(notePath => [notePath, summaries.get(notePath)!.linkTargets || []]))
+      );
+      const tree = buildTree(loaded.files, file => publishedPaths.has(file.path));
+
+      const startedAt = Date.now();
+      const renderer = await createRenderer(root);
+      let rendered = 0;
+      try {
+        published.forEach(({ file, post }) => {
+          const url = buildPostUrl(file.path);
+          const page = bundle[htmlFileFor(url)] as Rollup.OutputAsset | undefined;
+          if (!page || !String(page.source).includes(ROOT_ELEMENT)) {
+            this.warn(`No page to prerender ${file.path} into`);
+            return;
+          }
+
+          const neighbours = [...new Set([...links[file.path], ...backlinks[file.path]])];
+          const data: PrerenderedData = {
+            post,
+            summaries: [file.path, ...neighbours].map(notePath => summaries.get(notePath)!),
+            tree,
+          };
+          try {
+            const html = renderer.render(url, data);
+            page.source = String(page.source).replace(
+              ROOT_ELEMENT,
+              `<div id="root">${html}</div>\n    ${serializePrerenderedData(data)}`
+            );
+            rendered++;
+          } catch (error) {
+            this.warn(`Failed to prerender ${file.path}: ${error instanceof Error ? error.message : error}`);
+          }
+        });
+      } finally {
+        await renderer.close();
+      }
+      console.log(`[prerender] ${rendered}/${published.length} notes in ${Date.now() - startedAt}ms`);
+    },
+  };
+};
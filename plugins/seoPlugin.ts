@@ -0,0 +1,120 @@
+import type { Plugin, Rollup, ViteDevServer } from 'vite';
+import { View } from '../src/types';
+import { countTags, getPostVisibility } from '../src/lib/content';
+import { PageMeta, getCategoryMeta, getPostMeta, getTagMeta, getViewMeta, renderPageMeta } from '../src/lib/seo';
+import { escapeHtml } from '../src/lib/markdownHtml';
+import { LoadedNotes, NoteLoader, createNoteLoader, getSiteUrl, toDay } from './noteSource';
+
+// Makes the single-page app visible to crawlers and link previews:
+//   - /sitemap.xml and /robots.txt
+//   - one copy of index.html per route (views, published notes, tags, categories) with that
+//     route's <title>, description, OpenGraph and Twitter tags already in <head>.
+// Static files win over the SPA rewrite on Vercel, so /blog/<note> serves its own copy;
+// unknown routes still fall back to the plain index.html. Notes come from noteSource.ts.
+
+interface SeoPluginOptions {
+  // Variables from loadEnv()
+  env?: Record<string, string>;
+  // Shared with the other content plugins so the notes are read once
+  notes?: NoteLoader;
+}
+
+interface SitePage {
+  meta: PageMeta;
+  lastModified?: string; // YYYY-MM-DD
+}
+
+const STATIC_VIEWS = [View.HOME, View.BLOG, View.PORTFOLIO, View.MUSIC, View.ABOUT];
+
+// Drops whatever title/meta tags an earlier injection (or index.html itself) left behind
+const injectMeta = (html: string, meta: PageMeta, siteUrl: string) =>
+  html
+    .replace(/\s*<title>[\s\S]*?<\/title>/, '')
+    .replace(/\s*<(meta|link)\b[^>]*\bdata-page-meta\b[^>]*>/g, '')
+    .replace(/\s*<\/head>/, `\n    ${renderPageMeta(meta, siteUrl)}\n  </head>`);
+
+const listPages = (loaded: LoadedNotes | null): SitePage[] => {
+  const pages: SitePage[] = STATIC_VIEWS.map(view => ({ meta: getViewMeta(view) }));
+  if (!loaded) return pages;
+
+  const published = loaded.notes.filter(({ post }) => getPostVisibility(post) === 'published');
+  const posts = published.map(({ post }) => post);
+  const categories = [...new Set(posts.map(post => post.category))];
+
+  return [
+    ...pages,
+    { meta: getTagMeta('') },
+    ...Object.keys(countTags(posts)).map(tag => ({ meta: getTagMeta(tag) })),
+    ...categories.map(category => ({ meta: getCategoryMeta(category) })),
+    ...published.map(({ post, commitDate }) => ({
+      meta: getPostMeta(post),
+      lastModified: commitDate ? toDay(commitDate) : undefined,
+    })),
+  ];
+};
+
+const renderSitemap = (pages: SitePage[], siteUrl: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${pages
+  .map(({ meta, lastModified }) => `  <url>
+    <loc>${escapeHtml(`${siteUrl}${meta.path}`)}</loc>${lastModified ? `\n    <lastmod>${lastModified}</lastmod>` : ''}
+  </url>`)
+  .join('\n')}
+</urlset>
+`;
+
+// Preview deployments stay out of search results
+const renderRobots = (siteUrl: string, isPreview: boolean) =>
+  isPreview
+    ? 'User-agent: *\nDisallow: /\n'
+    : `User-agent: *\nAllow: /\nDisallow: /api/\nDisallow: /ui-preview\n\nSitemap: ${siteUrl}/sitemap.xml\n`;
+
+// '/blog/%E7%AC%94%E8%AE%B0' -> 'blog/笔记/index.html'
+export const htmlFileFor = (path: string) => {
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+  return segments.length > 0 ? `${segments.join('/')}/index.html` : 'index.html';
+};
+
+export const seoPlugin = ({ env = {}, notes = createNoteLoader(env) }: SeoPluginOptions = {}): Plugin => {
+  const siteUrl = getSiteUrl(env);
+  const isPreview = (env.VERCEL_ENV || process.env.VERCEL_ENV) === 'preview';
+
+  return {
+    name: 'seo',
+    // Runs after Vite has emitted index.html, so the per-route copies include the built assets
+    enforce: 'post',
+
+    transformIndexHtml(html) {
+      return injectMeta(html, getViewMeta(View.HOME), siteUrl);
+    },
+
+    configureServer(server: ViteDevServer) {
+      server.middlewares.use('/robots.txt', (_req, res) => {
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        res.end(renderRobots(siteUrl, isPreview));
+      });
+      server.middlewares.use('/sitemap.xml', async (_req, res) => {
+        res.setHeader('Content-Type', 'application/xml; charset=utf-8');
+        res.end(renderSitemap(listPages(await notes.load(false)), siteUrl));
+      });
+    },
+
+    async generateBundle(_options, bundle) {
+      const pages = listPages(await notes.load(true));
+      this.emitFile({ type: 'asset', fileName: 'sitemap.xml', source: renderSitemap(pages, siteUrl) });
+      this.emitFile({ type: 'asset', fileName: 'robots.txt', source: renderRobots(siteUrl, isPreview) });
+
+      const indexHtml = bundle['index.html'] as Rollup.OutputAsset | undefined;
+      if (!indexHtml) {
+        this.warn('index.html not found in the bundle; per-route meta tags were not generated');
+        return;
+      }
+      const template = String(indexHtml.source);
+      pages.forEach(({ meta }) => {
+        const fileName = htmlFileFor(meta.path);
+        if (fileName === 'index.html') return;
+        this.emitFile({ type: 'asset', fileName, source: injectMeta(template, meta, siteUrl) });
+      });
+    },
+  };
+};
@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Plugin, ViteDevServer } from 'vite';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Dev-only Vite plugin that serves /api/* by executing the files in api/ exactly as
+// Vercel would: /api/github/tree -> api/github/tree.ts (or api/github/tree/index.ts).
+// Modules are loaded through ssrLoadModule, so edits to a handler apply on the next request.
+// Underscore-prefixed folders such as api/_lib are private helpers, never routes.
+
+interface VercelApiPluginOptions {
+  // Directory holding the serverless functions, relative to the project root
+  apiDir?: string;
+  // Variables from loadEnv(); copied into process.env so handlers can read secrets
+  env?: Record<string, string>;
+}
+
+type Query = VercelRequest['query'];
+
+// Error class used by the handlers (api/_lib/middleware.ts); withErrors() turns it into a JSON response
+type HttpErrorClass = new (status: number, message: string) => Error & { status: number };
+
+const resolveRouteFile = (apiRoot: string, pathname: string): string | null => {
+  const segments = pathname.replace(/^\/api\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+  if (segments.length === 0) return null;
+  if (segments.some(segment => segment.startsWith('_') || segment.startsWith('.') || segment.includes('\\'))) {
+    return null;
+  }
+
+  const base = path.join(apiRoot, ...segments);
+  const candidates = [`${base}.ts`, path.join(base, 'index.ts')];
+  return candidates.find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile()) ?? null;
+};
+
+const parseQuery = (searchParams: URLSearchParams): Query => {
+  const query: Query = {};
+  for (const key of new Set(searchParams.keys())) {
+    const values = searchParams.getAll(key);
+    query[key] = values.length > 1 ? values : values[0];
+  }
+  return query;
+};
+
+const parseCookies = (header: string | undefined): Record<string, string> => {
+  const cookies: Record<string, string> = {};
+  (header || '').split(';').forEach(pair => {
+    const index = pair.indexOf('=');
+    if (index > 0) {
+      cookies[pair.slice(0, index).trim()] = decodeURIComponent(pair.slice(index + 1).trim());
+    }
+  });
+  return cookies;
+};
+
+const readRawBody = (req: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// Mirror Vercel's body parsing: JSON, url-encoded forms and text are decoded, anything else stays a Buffer
+const parseBody = (raw: Buffer, contentType: string | undefined): unknown => {
+  if (raw.length === 0) return undefined;
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+
+  if (type === 'application/json') {
+    return JSON.parse(raw.toString('utf8'));
+  }
+  if (type === 'application/x-www-form-urlencoded') {
+    return parseQuery(new URLSearchParams(raw.toString('utf8')));
+  }
+  if (type.startsWith('text/')) {
+    return raw.toString('utf8');
+  }
+  return raw;
+};
+
+const toVercelRequest = (req: IncomingMessage, url: URL, rawBody: Buffer, HttpError: HttpErrorClass): VercelRequest => {
+  const request = req as VercelRequest & { rawBody: Buffer };
+  let parsedBody: unknown;
+  let bodyParsed = false;
+
+  Object.defineProperty(request, 'query', { value: parseQuery(url.searchParams), configurable: true });
+  Object.defineProperty(request, 'cookies', { value: parseCookies(req.headers.cookie), configurable: true });
+  Object.defineProperty(request, 'rawBody', { value: rawBody, configurable: true });
+  // Parsed lazily like on Vercel, so malformed JSON only fails handlers that read it, with a 400
+  Object.defineProperty(request, 'body', {
+    configurable: true,
+    get() {
+      if (!bodyParsed) {
+        try {
+          parsedBody = parseBody(rawBody, req.headers['content-type']);
+        } catch {
+          throw new HttpError(400, 'Invalid JSON');
+        }
+        bodyParsed = true;
+      }
+      return parsedBody;
+    },
+  });
+
+  return request;
+};
+
+const toVercelResponse = (res: ServerResponse): VercelResponse => {
+  const response = res as VercelResponse;
+
+  response.status = (statusCode: number) => {
+    res.statusCode = statusCode;
+    return response;
+  };
+
+  response.json = (body: unknown) => {
+    if (!res.getHeader('Content-Type')) {
+      res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    }
+    res.end(JSON.stringify(body));
+    return response;
+  };
+
+  response.send = (body: unknown) => {
+    if (Buffer.isBuffer(body)) {
+      if (!res.getHeader('Content-Type')) res.setHeader('Content-Type', 'application/octet-stream');
+      res.end(body);
+    } else if (body !== null && typeof body === 'object') {
+      return response.json(body);
+    } else {
+      if (!res.getHeader('Content-Type')) res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.end(body === undefined ? '' : String(body));
+    }
+    return response;
+  };
+
+  response.redirect = ((statusOrUrl: number | string, url?: string) => {
+    const [statusCode, location] = typeof statusOrUrl === 'number' ? [statusOrUrl, url || '/'] : [307, statusOrUrl];
+    res.statusCode = statusCode;
+    res.setHeader('Location', location);
+    res.end();
+    return response;
+  }) as VercelResponse['redirect'];
+
+  return response;
+};
+
+export const vercelApiPlugin = ({ apiDir = 'api', env = {} }: VercelApiPluginOptions = {}): Plugin => ({
+  name: 'vercel-api',
+  apply: 'serve',
+
+  configureServer(server: ViteDevServer) {
+    // Expose server-side secrets (GITHUB_TOKEN, GEMINI_API_KEY...) without overriding the real environment
+    Object.entries(env).forEach(([key, value]) => {
+      if (process.env[key] === undefined) process.env[key] = value;
+    });
+
+    const apiRoot = path.resolve(server.config.root, apiDir);
+    const middlewareFile = path.join(apiRoot, '_lib', 'middleware.ts');
+
+    server.middlewares.use(async (req, res, next) => {
+      if (!req.url || !req.url.startsWith('/api/')) return next();
+
+      const url = new URL(req.url, 'http://localhost');
+      const routeFile = resolveRouteFile(apiRoot, url.pathname);
+      if (!routeFile) {
+        res.statusCode = 404;
+        res.setHeader('Content-Type', 'application/json; charset=utf-8');
+        res.end(JSON.stringify({ error: `No API route for ${url.pathname}` }));
+        return;
+      }
+
+      try {
+        const module = await server.ssrLoadModule(routeFile);
+        const handler = module.default;
+        if (typeof handler !== 'function') {
+          throw new Error(`${path.relative(server.config.root, routeFile)} has no default export`);
+        }
+
+        // Loaded from the same module graph as the handler, so `instanceof HttpError` holds inside it
+        const { HttpError } = await server.ssrLoadModule(middlewareFile);
+
+        const rawBody = await readRawBody(req);
+        await handler(toVercelRequest(req, url, rawBody, HttpError), toVercelResponse(res));
+      } catch (error) {
+        // A handler that reads a malformed body without withErrors(): answer like Vercel does
+        if (error instanceof Error && (error as { status?: number }).status === 400 && !res.headersSent) {
+          res.statusCode = 400;
+          res.setHeader('Content-Type', 'application/json; charset=utf-8');
+          res.end(JSON.stringify({ error: error.message }));
+          return;
+        }
+        if (error instanceof Error) server.ssrFixStacktrace(error);
+        console.error(`[vercel-api] ${url.pathname} failed:`, error);
+        if (!res.headersSent) {
+          res.statusCode = 500;
+          res.setHeader('Content-Type', 'application/json; charset=utf-8');
+          res.end(JSON.stringify({ error: 'API handler crashed', details: error instanceof Error ? error.message : String(error) }));
+        }
+      }
+    });
+  },
+});
@@ -0,0 +1,48 @@
+// Replays a recorded GitHub push payload against a running dev server (npm run dev),
+// signed with GITHUB_WEBHOOK_SECRET exactly like GitHub signs deliveries.
+//
+//   npm run webhook:replay                          -> scripts/fixtures/push.json
+//   npm run webhook:replay -- my-push.json http://localhost:3000/api/github/webhook
+//
+// The secret is read from the environment, then from .env.local.
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+
+const DEFAULT_PAYLOAD = path.join(import.meta.dirname, 'fixtures', 'push.json');
+const DEFAULT_URL = 'http://localhost:3000/api/github/webhook';
+
+const readEnvFile = (file) => {
+  if (!fs.existsSync(file)) return {};
+  return Object.fromEntries(
+    fs.readFileSync(file, 'utf8')
+      .split(/\r?\n/)
+      .map(line => line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/))
+      .filter(Boolean)
+      .map(([, key, value]) => [key, value.replace(/^(['"])(.*)\1$/, '$2')])
+  );
+};
+
+const [payloadFile = DEFAULT_PAYLOAD, url = DEFAULT_URL] = process.argv.slice(2);
+const secret = process.env.GITHUB_WEBHOOK_SECRET || readEnvFile(path.resolve('.env.local')).GITHUB_WEBHOOK_SECRET;
+if (!secret) {
+  console.error('Set GITHUB_WEBHOOK_SECRET (environment or .env.local) to sign the payload');
+  process.exit(1);
+}
+
+const body = fs.readFileSync(payloadFile);
+const signature = `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+
+const response = await fetch(url, {
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'X-GitHub-Event': 'push',
+    'X-GitHub-Delivery': crypto.randomUUID(),
+    'X-Hub-Signature-256': signature,
+  },
+  body,
+});
+console.log(`${response.status} ${await response.text()}`);
+process.exitCode = response.ok ? 0 : 1;
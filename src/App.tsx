@@ -1,5 +1,6 @@
-import React, { useState, useEffect, useRef, useCallback, lazy, Suspense } from 'react';
-import { View, BlogPost, DirectoryNode, GitHubUser } from './types';
+import React, { useState, useEffect, useRef, useCallback, useMemo, lazy, Suspense } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { View, BlogPost, BlogPostSummary, DirectoryNode, GitHubUser } from './types';
 import {
   APP_TITLE,
   AUTHOR_NAME,
@@ -17,19 +18,36 @@ import { CustomSparkleIcon, CustomWitchIcon, HexagramIcon } from './components/i
 import LoadingScreen from './components/common/LoadingScreen';
 import TextParticleSystem from './components/features/3d/TextParticleSystem';
 import FileTreeNode from './components/features/content/FileTreeNode';
+import SearchBox from './components/features/content/SearchBox';
+import BacklinksPanel from './components/features/content/BacklinksPanel';
+import LinkGraph from './components/features/content/LinkGraph';
+import TagCloud from './components/features/content/TagCloud';
 import ObsidianRenderer from './components/features/content/ObsidianRenderer';
+import { scrollToAnchor } from './components/features/content/MarkdownBlocks';
+import TableOfContents from './components/features/content/TableOfContents';
+import RevisionHistory from './components/features/content/RevisionHistory';
 
 // Lazy load PreviewConsole only in preview mode to exclude from production builds
 const PreviewConsole = lazy(() => import('./components/dev/PreviewConsole'));
 
+import { fetchUserProfile, getPreviewRef } from './services/githubService';
 import {
-  fetchBlogPosts,
-  fetchUserProfile,
   fetchBlogIndex,
   fetchPostContent,
+  fetchPostSummaries,
+  sortPostsByDate,
   clearBlogCache,
-} from './services/githubService';
+  subscribeContentUpdates,
+  supportsHistory,
+  watchContentSource,
+} from './services/contentService';
+import { ContentSourceId, SourceRevision, getContentSource, setContentSource } from './services/contentSource';
 import { isPreviewMode } from './data/mockData';
+import { getPrerenderedData } from './lib/prerender';
+import { TAGS_PATH, VIEW_PATHS, buildCategoryUrl, buildPostUrl, buildScoreUrl, buildTagUrl, parseRoute } from './lib/routes';
+import { applyPageMeta, getCategoryMeta, getPostMeta, getTagMeta, getViewMeta } from './lib/seo';
+import { PostVisibility, buildLinkGraph, countTags, getPostVisibility, summarizePost, tagMatches } from './lib/content';
+import { headingSlug } from './lib/markdown';
 import {
   Book,
   Code,
@@ -44,32 +62,73 @@ import {
   Folder,
   RefreshCcw,
   Loader2,
+  ChevronLeft,
+  Network,
+  Tags,
+  X,
+  Rss,
+  History,
 } from 'lucide-react';
 
 // Welcome overlay transition duration (ms)
 const WELCOME_TRANSITION_DURATION = 700;
+// Number of post cards per page in the blog listing
+const POSTS_PER_PAGE = 10;
+// Badges for notes only listed in preview deployments
+const VISIBILITY_LABELS: Record<Exclude<PostVisibility, 'published'>, string> = {
+  draft: '草稿',
+  scheduled: '定时发布',
+  unpublished: '未发布',
+};
 
 // --- Main App Component ---
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<View>(View.HOME);
-  const [selectedPost, setSelectedPost] = useState<BlogPost | null>(null);
+  const location = useLocation();
+  const navigate = useNavigate();
+  // The URL is the source of truth for the active view, open post and loaded score
+  const {
+    view: currentView,
+    postPath: routePostPath,
+    score: routeScore,
+    tag: routeTag,
+    category: routeCategory,
+  } = parseRoute(location.pathname);
+  // A note prerendered at build time starts open, without the welcome screen, so the
+  // first client render matches the static HTML it hydrates
+  const [prerendered] = useState(getPrerenderedData);
+  const [selectedPost, setSelectedPost] = useState<BlogPost | null>(() =>
+    prerendered && prerendered.post.path === routePostPath ? prerendered.post : null
+  );
   const [showWelcome, setShowWelcome] = useState(true);
   const [welcomeFading, setWelcomeFading] = useState(false);
   const [hasToken, setHasToken] = useState<boolean | null>(null);
   const [resourcesLoaded, setResourcesLoaded] = useState(false);
-  const [loadingIndicatorVisible, setLoadingIndicatorVisible] = useState(true);
+  const [loadingIndicatorVisible, setLoadingIndicatorVisible] = useState(!prerendered);
   const [currentTipIndex, setCurrentTipIndex] = useState(0);
   const [showTextParticles, setShowTextParticles] = useState(false);
   const [textParticlesComplete, setTextParticlesComplete] = useState(false);
 
   // Data State
-  const [posts, setPosts] = useState<BlogPost[]>([]);
-  const [blogDirectory, setBlogDirectory] = useState<DirectoryNode[]>([]);
+  // Full posts (with content) that have been opened or embedded
+  const [posts, setPosts] = useState<BlogPost[]>(() => (prerendered ? [prerendered.post] : []));
+  // Listing metadata for every post, newest first
+  const [postIndex, setPostIndex] = useState<BlogPostSummary[]>(() => prerendered?.summaries ?? []);
+  const [listPage, setListPage] = useState(0);
+  const [showGraph, setShowGraph] = useState(false);
+  const [blogDirectory, setBlogDirectory] = useState<DirectoryNode[]>(() => prerendered?.tree ?? []);
+  // The prerendered tree and summaries only cover the open note and its neighbours
+  const isPartialIndexRef = useRef(!!prerendered);
   const [userProfile, setUserProfile] = useState<GitHubUser | null>(null);
   const [isLoadingPosts, setIsLoadingPosts] = useState(false);
+  const [isIndexLoaded, setIsIndexLoaded] = useState(false); // Full index, not just a prerendered note's
   const [isFetchingContent, setIsFetchingContent] = useState(false);
+  // Route whose note couldn't be loaded, shown as not found instead of the previous note
+  const [missingPostPath, setMissingPostPath] = useState<string | null>(null);
   const [isRateLimited, setIsRateLimited] = useState(false);
-  const [useMockData, setUseMockData] = useState(false);
+  const [sourceId, setSourceId] = useState<ContentSourceId>(() => getContentSource().id);
+  // Revision history of the open note, and an earlier version shown in place of the latest
+  const [showHistory, setShowHistory] = useState(false);
+  const [revisionView, setRevisionView] = useState<{ post: BlogPost; revision: SourceRevision } | null>(null);
 
   // Audio State
   const [musicAnalyser, setMusicAnalyser] = useState<AnalyserNode | null>(null);
@@ -77,6 +136,40 @@ const App: React.FC = () => {
 
   // Video Ref
   const videoRef = useRef<HTMLVideoElement>(null);
+  // Note-to-note links between every listed post, from the link targets kept in each summary
+  const linkGraph = useMemo(
+    () => buildLinkGraph(Object.fromEntries(postIndex.map((p) => [p.path || p.id, p.linkTargets || []]))),
+    [postIndex]
+  );
+  const summaryByPath = useMemo(() => new Map(postIndex.map((p) => [p.path || p.id, p])), [postIndex]);
+  const summariesFor = (paths: string[] = []) =>
+    paths.map((path) => summaryByPath.get(path)).filter((p): p is BlogPostSummary => p !== undefined);
+  // Posts shown in the listing: everything, or only one tag (including nested tags) or category
+  const listedPosts = useMemo(() => {
+    if (routeTag) return postIndex.filter((p) => p.tags.some((tag) => tagMatches(tag, routeTag)));
+    if (routeCategory) return postIndex.filter((p) => p.category === routeCategory);
+    return postIndex;
+  }, [postIndex, routeTag, routeCategory]);
+
+  // Path of the post currently being fetched for the route, to avoid duplicate requests
+  const fetchingPostPathRef = useRef<string | null>(null);
+
+  // Navigate while keeping query flags such as ?preview=true
+  const navigateTo = useCallback((pathname: string, hash = '') => {
+    navigate({ pathname, search: location.search, hash });
+  }, [navigate, location.search]);
+
+  const setCurrentView = useCallback((view: View) => {
+    navigateTo(VIEW_PATHS[view]);
+  }, [navigateTo]);
+
+  const openTag = useCallback((tag: string) => {
+    navigateTo(buildTagUrl(tag));
+  }, [navigateTo]);
+
+  const openCategory = useCallback((category: string) => {
+    navigateTo(buildCategoryUrl(category));
+  }, [navigateTo]);
 
   // Loading tips array
   const loadingTips = [
@@ -155,11 +248,13 @@ const App: React.FC = () => {
   };
 
   const loadData = async () => {
+    isPartialIndexRef.current = false;
     setIsLoadingPosts(true);
+    setIsIndexLoaded(false);
     setIsRateLimited(false);
 
     try {
-      const { tree, allFiles, error } = await fetchBlogIndex(useMockData);
+      const { tree, allFiles, error } = await fetchBlogIndex();
 
       if (error) {
         setIsRateLimited(true);
@@ -167,17 +262,23 @@ const App: React.FC = () => {
 
       if (tree.length > 0) {
         setBlogDirectory(tree);
-        const recentFiles = allFiles.slice(0, 5);
-        const loadedPosts = await Promise.all(recentFiles.map((f) => fetchPostContent(f.path, useMockData)));
-        setPosts(loadedPosts.filter((p): p is BlogPost => p !== null));
+        // The listing fills in as summaries arrive; cached ones show up immediately
+        const summaries = await fetchPostSummaries(allFiles, setPostIndex);
+        setPostIndex(summaries);
+        // Every note's frontmatter is known now, so the tree can drop drafts and scheduled notes
+        const { tree: visibleTree } = await fetchBlogIndex();
+        if (visibleTree.length > 0) setBlogDirectory(visibleTree);
       } else {
         setPosts(MOCK_POSTS);
+        setPostIndex(sortPostsByDate(MOCK_POSTS.map((post) => summarizePost(post))));
       }
     } catch (e) {
       console.error('Initialization Error', e);
       setPosts(MOCK_POSTS);
+      setPostIndex(sortPostsByDate(MOCK_POSTS.map((post) => summarizePost(post))));
     } finally {
       setIsLoadingPosts(false);
+      setIsIndexLoaded(true);
     }
   };
 
@@ -186,17 +287,21 @@ const App: React.FC = () => {
   }, []);
 
   const handleRefresh = async () => {
-    clearBlogCache();
+    await clearBlogCache();
     setBlogDirectory([]);
     setPosts([]);
+    setPostIndex([]);
+    setListPage(0);
     await loadData();
   };
 
-  const handleToggleMockData = () => {
-    setUseMockData(!useMockData);
+  const handleSelectSource = (id: ContentSourceId) => {
+    setSourceId(setContentSource(id).id);
     setPosts([]);
+    setPostIndex([]);
+    setListPage(0);
     setBlogDirectory([]);
-    setSelectedPost(null);
+    if (routePostPath) setCurrentView(View.BLOG);
     setTimeout(() => loadData(), 100);
   };
 
@@ -245,40 +350,122 @@ const App: React.FC = () => {
     loadUserProfile();
   }, [hasToken]);
 
-  // Load blog data only when on the blog page
+  // Load blog data only when on the blog page; a prerendered note loads the full index after hydrating
   useEffect(() => {
-    if (currentView === View.BLOG && blogDirectory.length === 0 && posts.length === 0) {
+    const isEmpty = blogDirectory.length === 0 && postIndex.length === 0;
+    if (currentView === View.BLOG && (isEmpty || isPartialIndexRef.current)) {
       setIsLoadingPosts(true);
       loadData();
     }
   }, [currentView]);
 
-  const handleDirectorySelect = useCallback(async (node: DirectoryNode) => {
-    if (node.type !== 'file') return;
+  // Open the post addressed by the URL, fetching it when it isn't loaded yet
+  useEffect(() => {
+    if (!routePostPath) {
+      setSelectedPost(null);
+      return;
+    }
 
-    const existingPost = posts.find((p) => p.path === node.path || p.id === node.fileId);
+    const existingPost = posts.find((p) => p.path === routePostPath);
     if (existingPost) {
       setSelectedPost(existingPost);
       return;
     }
 
+    if (fetchingPostPathRef.current === routePostPath) return;
+    fetchingPostPathRef.current = routePostPath;
+    setSelectedPost(null);
+    setMissingPostPath(null);
     setIsFetchingContent(true);
-    const newPost = await fetchPostContent(node.path, useMockData);
-    setIsFetchingContent(false);
 
-    if (newPost) {
-      setPosts((prev) => [...prev, newPost]);
-      setSelectedPost(newPost);
+    fetchPostContent(routePostPath).then((newPost) => {
+      // Ignore the result if the user navigated elsewhere in the meantime
+      if (fetchingPostPathRef.current !== routePostPath) return;
+      fetchingPostPathRef.current = null;
+      setIsFetchingContent(false);
+
+      if (newPost) {
+        setPosts((prev) => [...prev, newPost]);
+        setSelectedPost(newPost);
+      } else {
+        console.warn(`Post '${routePostPath}' could not be loaded.`);
+        setMissingPostPath(routePostPath);
+      }
+    });
+  }, [routePostPath, posts, sourceId]);
+
+  // Cached content is shown first; newer versions found in the background replace it here
+  useEffect(() => {
+    return subscribeContentUpdates((update) => {
+      if (update.type === 'index') {
+        loadData();
+        // Rechecks the open note against the new tree; a newer version arrives as a 'post' update
+        if (routePostPath) fetchPostContent(routePostPath);
+        return;
+      }
+      const { post } = update;
+      setPosts((prev) => prev.map((p) => (p.path === post.path ? post : p)));
+      setSelectedPost((current) => (current?.path === post.path ? post : current));
+    });
+  }, [routePostPath]);
+
+  // Pushes to the notes repository (or edits to local notes) are picked up without pressing refresh
+  useEffect(() => watchContentSource(), [sourceId]);
+
+  // Reset the spinner if the user leaves a post before it finished loading
+  useEffect(() => {
+    if (fetchingPostPathRef.current && fetchingPostPathRef.current !== routePostPath) {
+      fetchingPostPathRef.current = null;
+      setIsFetchingContent(false);
     }
-  }, [posts, useMockData]);
+  }, [routePostPath]);
 
-  // Handle wiki link navigation from markdown content
-  const handleWikiLinkNavigate = async (linkTarget: string) => {
-    // Try to find the post by title or filename
-    const normalizedTarget = linkTarget.toLowerCase().trim();
+  // Another note (or source) starts at its latest version
+  useEffect(() => {
+    setRevisionView(null);
+  }, [routePostPath, sourceId]);
+
+  // Links such as [[Note#Heading]] arrive with a hash; scroll once the note is rendered
+  const selectedPath = selectedPost?.path;
+  useEffect(() => {
+    if (!selectedPath || !location.hash) return;
+    const frame = requestAnimationFrame(() => scrollToAnchor(location.hash.slice(1)));
+    return () => cancelAnimationFrame(frame);
+  }, [location.hash, location.key, selectedPath]);
+
+  // Title and link-preview tags follow the route; prerendered pages start with the same ones
+  useEffect(() => {
+    const post = selectedPost || (routePostPath ? summaryByPath.get(routePostPath) : undefined);
+    if (post) applyPageMeta(getPostMeta(post));
+    else if (routeTag !== null) applyPageMeta(getTagMeta(routeTag));
+    else if (routeCategory !== null) applyPageMeta(getCategoryMeta(routeCategory));
+    else applyPageMeta(getViewMeta(currentView));
+  }, [currentView, selectedPost, routePostPath, summaryByPath, routeTag, routeCategory]);
+
+  // A different tag or category starts on its first page
+  useEffect(() => {
+    setListPage(0);
+  }, [routeTag, routeCategory]);
+
+  const openPost = useCallback((post: BlogPostSummary) => {
+    navigateTo(buildPostUrl(post.path || post.id));
+  }, [navigateTo]);
+
+  const handleDirectorySelect = useCallback((node: DirectoryNode) => {
+    if (node.type !== 'file') return;
+    navigateTo(buildPostUrl(node.path));
+  }, [navigateTo]);
+
+  const handleScoreChange = useCallback((score: string) => {
+    navigateTo(buildScoreUrl(score));
+  }, [navigateTo]);
+
+  // Path of the note a wiki link names, matched by title or file name (exact, then as a prefix)
+  const findNotePath = (name: string): string | null => {
+    const normalizedTarget = name.toLowerCase().trim();
     
     // First, search in already loaded posts with exact match or prefix match
-    const existingPost = posts.find((p) => {
+    const existingPost = [...posts, ...postIndex].find((p) => {
       const title = p.title.toLowerCase();
       const filename = p.path.split('/').pop()?.replace('.md', '').toLowerCase() || '';
       // Use exact match or check if the filename/title starts with the target
@@ -288,10 +475,7 @@ const App: React.FC = () => {
              filename.startsWith(normalizedTarget);
     });
 
-    if (existingPost) {
-      setSelectedPost(existingPost);
-      return;
-    }
+    if (existingPost) return existingPost.path || existingPost.id;
 
     // If not found in loaded posts, search in the directory tree
     const findInTree = (nodes: DirectoryNode[]): DirectoryNode | null => {
@@ -311,28 +495,69 @@ const App: React.FC = () => {
       return null;
     };
 
-    const foundNode = findInTree(blogDirectory);
-    if (foundNode) {
-      await handleDirectorySelect(foundNode);
+    return findInTree(blogDirectory)?.path ?? null;
+  };
+
+  // Handle wiki link navigation from markdown content
+  const handleWikiLinkNavigate = (linkTarget: string) => {
+    // [[Note#Heading]] opens the note at that heading; [[#Heading]] stays in the current one
+    const hashIndex = linkTarget.indexOf('#');
+    const notePart = hashIndex === -1 ? linkTarget : linkTarget.slice(0, hashIndex);
+    const fragment = hashIndex === -1 ? '' : linkTarget.slice(hashIndex + 1).trim();
+    const hash = !fragment ? '' : fragment.startsWith('^') ? `#${fragment}` : `#${headingSlug(fragment)}`;
+    if (!notePart.trim()) {
+      if (fragment) scrollToAnchor(hash.slice(1));
+      return;
+    }
+
+    const path = findNotePath(notePart);
+    if (path) {
+      navigateTo(buildPostUrl(path), hash);
     } else {
       // Provide more helpful error message
-      const availableTitles = posts.map(p => p.title).slice(0, 5).join(', ');
+      const availableTitles = postIndex.map(p => p.title).slice(0, 5).join(', ');
       console.warn(
         `Wiki link target '${linkTarget}' not found.`,
-        posts.length > 0 ? `Available posts include: ${availableTitles}...` : 'No posts loaded yet.'
+        postIndex.length > 0 ? `Available posts include: ${availableTitles}...` : 'No posts loaded yet.'
       );
     }
   };
 
+  // Notes embedded with ![[Note]] that aren't loaded yet; several embeds of one note share a request
+  const embedRequestsRef = useRef(new Map<string, Promise<BlogPost | null>>());
+  const loadEmbeddedNote = (name: string): Promise<BlogPost | null> => {
+    const path = findNotePath(name);
+    if (!path) return Promise.resolve(null);
+    const loaded = posts.find((p) => p.path === path);
+    if (loaded) return Promise.resolve(loaded);
+
+    const requests = embedRequestsRef.current;
+    if (!requests.has(path)) {
+      requests.set(path, fetchPostContent(path).finally(() => requests.delete(path)));
+    }
+    return requests.get(path)!;
+  };
+
+  // Only hidden notes get a badge; they are listed in preview deployments only
+  const renderVisibilityBadge = (post: BlogPostSummary) => {
+    const visibility = getPostVisibility(post);
+    if (visibility === 'published') return null;
+    return (
+      <span
+        title={visibility === 'scheduled' ? `发布时间：${post.published_at}` : undefined}
+        className="text-xs px-2 py-0.5 rounded border border-amber-400/60 text-amber-400"
+      >
+        {VISIBILITY_LABELS[visibility]}
+      </span>
+    );
+  };
+
   const renderNav = () => (
     <nav className="nav-bar fixed top-0 left-0 right-0 z-40 w-full backdrop-blur-md border-b shadow-lg opacity-90 theme-bg-secondary theme-border-subtle">
       <div className="max-w-6xl mx-auto px-4 h-16 flex items-center justify-between">
         <div
           className="flex items-center gap-2 cursor-pointer group"
-          onClick={() => {
-            setCurrentView(View.HOME);
-            setSelectedPost(null);
-          }}
+          onClick={() => setCurrentView(View.HOME)}
         >
           <div className=" from-purple-600 to-amber-500 p-1. 5 rounded-lg group-hover:rotate-[30deg] transition-transform shadow-[0_0_15px_rgba(251,191,36,0. 4)]">
             <HexagramIcon size={48} />
@@ -353,10 +578,7 @@ const App: React.FC = () => {
             ].map((item) => (
               <button
                 key={item.id}
-                onClick={() => {
-                  setCurrentView(item.id);
-                  setSelectedPost(null);
-                }}
+                onClick={() => setCurrentView(item.id)}
                 className={`flex items-center gap-1.5 px-4 py-1.5 rounded-full  transition-all duration-300 text-sm font-semibold
                     ${
                       currentView === item.id
@@ -394,10 +616,7 @@ const App: React.FC = () => {
         ].map((item) => (
           <button
             key={item.id}
-            onClick={() => {
-              setCurrentView(item.id);
-              setSelectedPost(null);
-            }}
+            onClick={() => setCurrentView(item.id)}
             className={`flex flex-col items-center justify-center gap-0.5 px-3 py-2 rounded-lg transition-all duration-300
                             ${
                               currentView === item.id
@@ -468,19 +687,43 @@ const App: React.FC = () => {
   );
 
   const renderBlog = () => {
+    const previewRef = getPreviewRef();
+    const pageCount = Math.max(1, Math.ceil(listedPosts.length / POSTS_PER_PAGE));
+    // Clamp in case the index shrank after a refresh
+    const currentPage = Math.min(listPage, pageCount - 1);
+    const pagedPosts = listedPosts.slice(currentPage * POSTS_PER_PAGE, (currentPage + 1) * POSTS_PER_PAGE);
+    // Nested tags one level below the current tag, e.g. graphics/shading under graphics
+    const childTags = routeTag
+      ? Object.keys(countTags(listedPosts)).filter(
+          (tag) => tag.toLowerCase().startsWith(`${routeTag.toLowerCase()}/`) && !tag.slice(routeTag.length + 1).includes('/')
+        )
+      : [];
     return (
       <div className="max-w-7xl mx-auto py-8 px-4 animate-fade-in-up relative z-10 w-full">
         {!selectedPost && (
           <div className="text-center mb-8 p-6 rounded-2xl backdrop-blur-sm border relative overflow-hidden opacity-80 theme-bg-secondary theme-border-subtle">
             {isRateLimited && (
               <div className="absolute top-0 left-0 right-0 bg-red-900/80 text-white text-xs py-1 animate-pulse border-b border-red-500">
-                警告：魔法能量耗尽（GitHub 速率限制）。正在显示缓存/模拟内容。
+                警告：魔法能量耗尽（{sourceId === 'github' ? 'GitHub 速率限制' : `${getContentSource().label}不可用`}）。正在显示缓存/模拟内容。
               </div>
             )}
             <h2 className="text-4xl font-serif font-bold mb-2 flex items-center justify-center gap-3 mt-2 theme-text-primary">
               <Book className="theme-text-accent1" /> 魔女的魔法书
             </h2>
+            {previewRef && (
+              <div className="inline-block text-xs font-mono px-3 py-1 mb-2 rounded-full border category-badge theme-text-accent3">
+                预览分支：{previewRef}
+              </div>
+            )}
             <p className="theme-text-secondary">关于渲染、逻辑和神秘艺术的笔记。</p>
+            <a
+              href="/feed.xml"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="inline-flex items-center gap-1 mt-2 text-xs hover:opacity-80 theme-text-accent1"
+            >
+              <Rss size={12} /> 订阅 RSS
+            </a>
           </div>
         )}
 
@@ -494,15 +737,40 @@ const App: React.FC = () => {
               <h3 className="font-bold flex items-center gap-2 theme-text-primary">
                 <Folder size={16} className="theme-text-accent1" /> 档案库
               </h3>
-              <button
-                onClick={handleRefresh}
-                title="刷新内容"
-                className="p-1.5 hover:bg-white/10 rounded-full transition-colors theme-text-secondary"
-              >
-                <RefreshCcw size={14} className={isLoadingPosts ? 'animate-spin' : ''} />
-              </button>
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => {
+                    setShowGraph(!showGraph);
+                    if (selectedPost || routeTag !== null || routeCategory !== null) setCurrentView(View.BLOG);
+                  }}
+                  title={showGraph ? '返回列表' : '关系图谱'}
+                  className={`p-1.5 hover:bg-white/10 rounded-full transition-colors ${
+                    showGraph ? 'theme-text-accent1' : 'theme-text-secondary'
+                  }`}
+                >
+                  <Network size={14} />
+                </button>
+                <button
+                  onClick={() => navigateTo(TAGS_PATH)}
+                  title="标签"
+                  className={`p-1.5 hover:bg-white/10 rounded-full transition-colors ${
+                    routeTag === '' ? 'theme-text-accent1' : 'theme-text-secondary'
+                  }`}
+                >
+                  <Tags size={14} />
+                </button>
+                <button
+                  onClick={handleRefresh}
+                  title="刷新内容"
+                  className="p-1.5 hover:bg-white/10 rounded-full transition-colors theme-text-secondary"
+                >
+                  <RefreshCcw size={14} className={isLoadingPosts ? 'animate-spin' : ''} />
+                </button>
+              </div>
             </div>
 
+            <SearchBox sourceId={sourceId} onSelect={handleDirectorySelect} />
+
             {blogDirectory.length === 0 && !isLoadingPosts ? (
               <div className="text-sm px-2 italic theme-text-secondary">
                 未找到咒语... <br />
@@ -520,7 +788,7 @@ const App: React.FC = () => {
           </div>
 
           <div className="md:col-span-9">
-            {isLoadingPosts && posts.length === 0 ? (
+            {isLoadingPosts && postIndex.length === 0 ? (
               <div className="text-center py-20 rounded-xl border opacity-80 theme-bg-secondary theme-border-subtle theme-text-accent1">
                 <div className="flex items-center  justify-center ">
                   <HexagramIcon size={48} className="animate-pulse inline-block mr-2" />
@@ -532,55 +800,169 @@ const App: React.FC = () => {
                 <Loader2 className="animate-spin mb-4 theme-text-accent3" size={48} />
                 <span className="theme-text-secondary">正在解读符文...</span>
               </div>
-            ) : selectedPost ? (
-              <article className="border rounded-2xl p-8 md:p-12 shadow-2xl backdrop-blur-md min-h-[60vh] animate-fade-in-up opacity-90 theme-bg-secondary theme-border-subtle">
+            ) : routePostPath && missingPostPath === routePostPath ? (
+              <div className="flex flex-col items-center justify-center gap-4 py-20 rounded-xl border h-[60vh] opacity-80 theme-bg-secondary theme-border-subtle">
+                <span className="theme-text-primary">未找到这篇笔记</span>
+                <span className="text-xs font-mono theme-text-secondary">{routePostPath}</span>
                 <button
-                  onClick={() => setSelectedPost(null)}
-                  className="mb-6 flex items-center transition-colors bg-black/20 px-4 py-2 rounded-full w-fit backdrop-blur-sm text-sm hover:opacity-80 theme-text-secondary"
+                  onClick={() => setCurrentView(View.BLOG)}
+                  className="flex items-center transition-colors bg-black/20 px-4 py-2 rounded-full w-fit backdrop-blur-sm text-sm hover:opacity-80 theme-text-secondary"
                 >
-                  <ChevronRight className="rotate-180 mr-1" size={14} /> 返回
+                  <ChevronRight className="rotate-180 mr-1" size={14} /> 返回列表
                 </button>
-
-                <header className="mb-8 pb-8 border-b theme-border-subtle">
-                  <div className="flex gap-2 mb-4">
-                    <span className="text-xs px-2 py-1 rounded border category-badge theme-text-accent3">
-                      {selectedPost.category}
-                    </span>
-                    <span className="text-xs flex items-center theme-text-secondary">
-                      {selectedPost.date}
-                    </span>
-                  </div>
-                  <h1 className="text-3xl md:text-5xl font-serif font-bold mb-6 leading-tight theme-text-primary">
-                    {selectedPost.title}
-                  </h1>
-                  <div className="flex gap-2">
-                    {selectedPost.tags.map((tag) => (
-                      <span key={tag} className="text-xs font-mono theme-text-accent1">
-                        #{tag}
+              </div>
+            ) : selectedPost ? (
+              <div className="flex gap-6 items-start">
+                <article className="flex-1 min-w-0 border rounded-2xl p-8 md:p-12 shadow-2xl backdrop-blur-md min-h-[60vh] animate-fade-in-up opacity-90 theme-bg-secondary theme-border-subtle">
+                  <button
+                    onClick={() => setCurrentView(View.BLOG)}
+                    className="mb-6 flex items-center transition-colors bg-black/20 px-4 py-2 rounded-full w-fit backdrop-blur-sm text-sm hover:opacity-80 theme-text-secondary"
+                  >
+                    <ChevronRight className="rotate-180 mr-1" size={14} /> 返回
+                  </button>
+
+                  <header className="mb-8 pb-8 border-b theme-border-subtle">
+                    <div className="flex gap-2 mb-4">
+                      <button
+                        onClick={() => openCategory(selectedPost.category)}
+                        className="text-xs px-2 py-1 rounded border category-badge theme-text-accent3 hover:opacity-80"
+                      >
+                        {selectedPost.category}
+                      </button>
+                      <span className="text-xs flex items-center theme-text-secondary">
+                        {selectedPost.date}
                       </span>
-                    ))}
-                  </div>
-                </header>
-                <ObsidianRenderer 
-                  content={selectedPost.content}
-                  onNavigate={handleWikiLinkNavigate}
-                  basePath={selectedPost.path}
-                  loadedPosts={posts}
-                />
-              </article>
+                      {renderVisibilityBadge(selectedPost)}
+                      {supportsHistory() && (
+                        <button
+                          onClick={() => setShowHistory(!showHistory)}
+                          className={`text-xs flex items-center gap-1 ml-auto hover:opacity-80 ${showHistory ? 'theme-text-accent1' : 'theme-text-secondary'}`}
+                          title="修订历史"
+                        >
+                          <History size={12} /> 历史
+                        </button>
+                      )}
+                    </div>
+                    <h1 className="text-3xl md:text-5xl font-serif font-bold mb-6 leading-tight theme-text-primary">
+                      {(revisionView?.post ?? selectedPost).title}
+                    </h1>
+                    <div className="flex flex-wrap gap-2">
+                      {selectedPost.tags.map((tag) => (
+                        <button key={tag} onClick={() => openTag(tag)} className="text-xs font-mono hover:underline theme-text-accent1">
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  </header>
+                  {showHistory && supportsHistory() && (
+                    <RevisionHistory
+                      path={selectedPost.path}
+                      viewing={revisionView?.revision.sha ?? null}
+                      onView={(post, revision) => setRevisionView(post && revision ? { post, revision } : null)}
+                    />
+                  )}
+                  {revisionView && (
+                    <div className="mb-6 px-4 py-2 rounded-lg border text-xs flex flex-wrap items-center gap-2 border-amber-500/40 bg-amber-500/10 theme-text-secondary">
+                      <History size={12} className="theme-text-accent1" />
+                      正在查看 {revisionView.revision.date.split('T')[0]} 的旧版本（
+                      <span className="font-mono">{revisionView.revision.sha.slice(0, 7)}</span>）
+                      <button onClick={() => setRevisionView(null)} className="ml-auto hover:underline theme-text-accent1">
+                        返回最新版本
+                      </button>
+                    </div>
+                  )}
+                  <TableOfContents content={(revisionView?.post ?? selectedPost).content} variant="inline" />
+                  <ObsidianRenderer 
+                    content={(revisionView?.post ?? selectedPost).content}
+                    onNavigate={handleWikiLinkNavigate}
+                    basePath={selectedPost.path}
+                    loadedPosts={posts}
+                    loadEmbeddedNote={loadEmbeddedNote}
+                    notesReady={isIndexLoaded}
+                    onTagClick={openTag}
+                  />
+                  <BacklinksPanel
+                    backlinks={summariesFor(linkGraph.backlinks[selectedPost.path || selectedPost.id])}
+                    outgoing={summariesFor(linkGraph.links[selectedPost.path || selectedPost.id])}
+                    onOpen={openPost}
+                  />
+                </article>
+                <TableOfContents content={(revisionView?.post ?? selectedPost).content} variant="sidebar" />
+              </div>
+            ) : routeTag === '' ? (
+              <TagCloud posts={postIndex} onSelectTag={openTag} onSelectCategory={openCategory} />
+            ) : showGraph ? (
+              <div className="rounded-xl border p-4 backdrop-blur-md opacity-90 theme-bg-secondary theme-border-subtle">
+                <h3 className="font-bold mb-3 flex items-center gap-2 theme-text-primary">
+                  <Network size={16} className="theme-text-accent1" /> 关系图谱
+                  <span className="text-xs font-normal theme-text-secondary">
+                    {postIndex.length} 篇笔记 · {Object.keys(linkGraph.links).reduce((sum, path) => sum + linkGraph.links[path].length, 0)} 条链接
+                  </span>
+                </h3>
+                <LinkGraph posts={postIndex} graph={linkGraph} onOpen={openPost} />
+              </div>
             ) : (
               <div className="grid gap-6">
-                {posts.map((post) => (
+                {(routeTag || routeCategory) && (
+                  <div className="rounded-xl border px-6 py-4 backdrop-blur-md opacity-90 theme-bg-secondary theme-border-subtle">
+                    <div className="flex items-center justify-between gap-4">
+                      <h3 className="font-bold flex items-center gap-2 theme-text-primary">
+                        {routeTag ? (
+                          <span className="font-mono theme-text-accent1">#{routeTag}</span>
+                        ) : (
+                          <>
+                            <Folder size={16} className="theme-text-accent1" /> {routeCategory}
+                          </>
+                        )}
+                        <span className="text-xs font-normal theme-text-secondary">{listedPosts.length} 篇笔记</span>
+                      </h3>
+                      <div className="flex items-center gap-3 text-xs theme-text-secondary">
+                        <button onClick={() => navigateTo(TAGS_PATH)} className="hover:underline">
+                          全部标签
+                        </button>
+                        <button
+                          onClick={() => setCurrentView(View.BLOG)}
+                          title="显示全部笔记"
+                          className="p-1 hover:bg-white/10 rounded-full transition-colors"
+                        >
+                          <X size={14} />
+                        </button>
+                      </div>
+                    </div>
+                    {childTags.length > 0 && (
+                      <div className="flex flex-wrap gap-3 mt-2">
+                        {childTags.map((tag) => (
+                          <button key={tag} onClick={() => openTag(tag)} className="text-xs font-mono hover:underline theme-text-accent1">
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {pagedPosts.length === 0 && !isLoadingPosts && (
+                  <div className="text-sm italic text-center py-10 theme-text-secondary">没有找到相关笔记</div>
+                )}
+
+                {pagedPosts.map((post) => (
                   <div
                     key={post.id}
-                    onClick={() => setSelectedPost(post)}
+                    onClick={() => openPost(post)}
                     className="group rounded-xl p-6 cursor-pointer transition-all duration-300 backdrop-blur-md border hover:shadow-[0_0_25px_rgba(222,185,154,0.15)] opacity-90 theme-bg-secondary theme-border-subtle"
                   >
                     <div className="flex items-center gap-3 mb-2">
-                      <span className="font-bold text-sm tracking-wider uppercase flex items-center gap-1 theme-text-accent1">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          openCategory(post.category);
+                        }}
+                        className="font-bold text-sm tracking-wider uppercase flex items-center gap-1 hover:opacity-80 theme-text-accent1"
+                      >
                         <Star size={10} fill="currentColor" /> {post.category}
-                      </span>
+                      </button>
                       <span className="text-sm theme-text-secondary">• {post.date}</span>
+                      {renderVisibilityBadge(post)}
                     </div>
                     <h3 className="text-2xl font-serif font-bold mb-3 transition-colors theme-text-primary">
                       {post.title}
@@ -588,8 +970,46 @@ const App: React.FC = () => {
                     <p className="leading-relaxed mb-4 text-sm line-clamp-3 theme-text-secondary">
                       {post.excerpt}
                     </p>
+                    {post.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2">
+                        {post.tags.map((tag) => (
+                          <button
+                            key={tag}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              openTag(tag);
+                            }}
+                            className="text-xs font-mono hover:underline theme-text-accent1"
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
+
+                {pageCount > 1 && (
+                  <div className="flex items-center justify-center gap-4 text-sm theme-text-secondary">
+                    <button
+                      onClick={() => setListPage(currentPage - 1)}
+                      disabled={currentPage === 0}
+                      className="flex items-center gap-1 px-4 py-2 rounded-full border backdrop-blur-sm transition-colors hover:opacity-80 disabled:opacity-40 disabled:cursor-not-allowed theme-bg-secondary theme-border-subtle"
+                    >
+                      <ChevronLeft size={14} /> 上一页
+                    </button>
+                    <span>
+                      第 {currentPage + 1} / {pageCount} 页
+                    </span>
+                    <button
+                      onClick={() => setListPage(currentPage + 1)}
+                      disabled={currentPage >= pageCount - 1}
+                      className="flex items-center gap-1 px-4 py-2 rounded-full border backdrop-blur-sm transition-colors hover:opacity-80 disabled:opacity-40 disabled:cursor-not-allowed theme-bg-secondary theme-border-subtle"
+                    >
+                      下一页 <ChevronRight size={14} />
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -744,6 +1164,8 @@ const App: React.FC = () => {
         className="w-full"
         isVisible={currentView === View.MUSIC}
         onPlaybackChange={handleScorePlaybackChange}
+        score={routeScore}
+        onScoreChange={handleScoreChange}
       />
 
       <div className="mt-8 text-center max-w-2xl mx-auto p-4 rounded-xl border backdrop-blur-sm opacity-80 theme-bg-secondary theme-border-subtle">
@@ -856,8 +1278,8 @@ const App: React.FC = () => {
       {isPreviewMode() && (
         <Suspense fallback={null}>
           <PreviewConsole
-            useMockData={useMockData}
-            onToggleMockData={handleToggleMockData}
+            sourceId={sourceId}
+            onSelectSource={handleSelectSource}
             onRefresh={handleRefresh}
           />
         </Suspense>
@@ -0,0 +1,44 @@
+import React, { Suspense, lazy } from 'react';
+import { Routes, Route, Navigate } from 'react-router-dom';
+import App from './App';
+import { ROUTE_PATTERNS } from './lib/routes';
+
+// Lazy load UI preview page only in dev mode
+const UIPreviewPage = import.meta.env.DEV 
+  ? lazy(() => import('./pages/UIPreviewPage'))
+  : null;
+
+// Route table shared by the browser entry (BrowserRouter) and the prerenderer (StaticRouter)
+const AppRoutes: React.FC = () => (
+  <Routes>
+    {/* Dev-only UI preview route */}
+    {import.meta.env.DEV && (
+      <Route 
+        path="/ui-preview" 
+        element={
+          <Suspense fallback={
+            <div className="flex items-center justify-center h-screen bg-gradient-to-br from-slate-950 via-purple-950 to-slate-950 text-purple-400">
+              Loading UI Preview...
+            </div>
+          }>
+            <UIPreviewPage />
+          </Suspense>
+        } 
+      />
+    )}
+    
+    {/* Main application routes - App derives the active view from the URL */}
+    <Route path={ROUTE_PATTERNS.home} element={<App />} />
+    <Route path={ROUTE_PATTERNS.blog} element={<App />} />
+    <Route path={ROUTE_PATTERNS.portfolio} element={<App />} />
+    <Route path={ROUTE_PATTERNS.about} element={<App />} />
+    <Route path={ROUTE_PATTERNS.music} element={<App />} />
+    <Route path={ROUTE_PATTERNS.tags} element={<App />} />
+    <Route path={ROUTE_PATTERNS.category} element={<App />} />
+
+    {/* Unknown paths fall back to the home page */}
+    <Route path="*" element={<Navigate to="/" replace />} />
+  </Routes>
+);
+
+export default AppRoutes;
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { Sun, Moon } from 'lucide-react';
 
-type Theme = 'dark' | 'light';
+export type Theme = 'dark' | 'light';
 
 interface ThemeToggleProps {
   className?: string;
@@ -45,4 +45,20 @@ const ThemeToggle: React.FC<ThemeToggleProps> = ({ className = '' }) => {
   );
 };
 
+// Follows the class ThemeToggle puts on <html>; dark until mounted, like the prerendered page
+export const useColorScheme = (): Theme => {
+  const [theme, setTheme] = useState<Theme>('dark');
+
+  useEffect(() => {
+    const root = document.documentElement;
+    const read = () => setTheme(root.classList.contains('light') ? 'light' : 'dark');
+    read();
+    const observer = new MutationObserver(read);
+    observer.observe(root, { attributes: true, attributeFilter: ['class'] });
+    return () => observer.disconnect();
+  }, []);
+
+  return theme;
+};
+
 export default ThemeToggle;
@@ -1,24 +1,52 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Link } from 'react-router-dom';
-import { Database, Cloud, X, GripVertical, ChevronDown, ChevronUp, Palette } from 'lucide-react';
+import { Database, Cloud, X, GripVertical, ChevronDown, ChevronUp, Palette, HardDrive, RefreshCw, FolderOpen, Package } from 'lucide-react';
+import { CacheStats, getCacheStats } from '../../services/cacheService';
+import { ContentSourceId, getContentSources } from '../../services/contentSource';
 
 interface PreviewConsoleProps {
-  useMockData: boolean;
-  onToggleMockData: () => void;
+  sourceId: ContentSourceId;
+  onSelectSource: (id: ContentSourceId) => void;
   onRefresh: () => void;
 }
 
+const SOURCE_ICONS: Record<ContentSourceId, typeof Cloud> = {
+  github: Cloud,
+  local: FolderOpen,
+  bundle: Package,
+  mock: Database,
+};
+
+const STATS_INTERVAL = 2000;
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+
 const PreviewConsole: React.FC<PreviewConsoleProps> = ({
-  useMockData,
-  onToggleMockData,
+  sourceId,
+  onSelectSource,
   onRefresh,
 }) => {
   const [isCollapsed, setIsCollapsed] = useState(false);
   const [position, setPosition] = useState({ x: 20, y: 20 });
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
   const consoleRef = useRef<HTMLDivElement>(null);
 
+  // Cache statistics are polled only while the console is expanded
+  useEffect(() => {
+    if (isCollapsed) return;
+    let active = true;
+    const update = () => getCacheStats().then((stats) => active && setCacheStats(stats));
+    update();
+    const timer = window.setInterval(update, STATS_INTERVAL);
+    return () => {
+      active = false;
+      window.clearInterval(timer);
+    };
+  }, [isCollapsed]);
+
   useEffect(() => {
     const handleMouseMove = (e: MouseEvent) => {
       if (isDragging) {
@@ -93,30 +121,66 @@ const PreviewConsole: React.FC<PreviewConsoleProps> = ({
       {/* Content */}
       {!isCollapsed && (
         <div className="px-3 py-3 space-y-3">
-          {/* Data Source Toggle */}
+          {/* Content Source */}
           <div className="space-y-2">
             <div className="text-xs text-purple-300/70 font-medium">数据源</div>
-            <button
-              onClick={onToggleMockData}
-              className="w-full flex items-center justify-between px-3 py-2 rounded bg-purple-500/10 hover:bg-purple-500/20 border border-purple-500/30 transition-all"
-            >
-              <div className="flex items-center gap-2">
-                {useMockData ? (
-                  <>
-                    <Database size={16} className="text-purple-400" />
-                    <span className="text-sm text-purple-200">示例数据</span>
-                  </>
-                ) : (
-                  <>
-                    <Cloud size={16} className="text-blue-400" />
-                    <span className="text-sm text-blue-200">真实数据</span>
-                  </>
-                )}
-              </div>
-              <div className="text-xs text-purple-300/50">点击切换</div>
-            </button>
+            <div className="grid grid-cols-2 gap-1.5">
+              {getContentSources().map((source) => {
+                const Icon = SOURCE_ICONS[source.id];
+                const isActive = source.id === sourceId;
+                return (
+                  <button
+                    key={source.id}
+                    onClick={() => !isActive && onSelectSource(source.id)}
+                    className={`flex items-center gap-2 px-2 py-1.5 rounded border transition-all ${
+                      isActive
+                        ? 'bg-purple-500/30 border-purple-400/60'
+                        : 'bg-purple-500/10 hover:bg-purple-500/20 border-purple-500/30'
+                    }`}
+                  >
+                    <Icon size={14} className={isActive ? 'text-purple-300' : 'text-purple-400/60'} />
+                    <span className={`text-xs ${isActive ? 'text-purple-100' : 'text-purple-200/70'}`}>{source.label}</span>
+                  </button>
+                );
+              })}
+            </div>
           </div>
 
+          {/* Client Cache */}
+          {cacheStats && (
+            <div className="space-y-2 border-t border-purple-500/20 pt-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1.5 text-xs text-purple-300/70 font-medium">
+                  <HardDrive size={12} />
+                  <span>缓存（{cacheStats.backend === 'indexeddb' ? 'IndexedDB' : '内存'}）</span>
+                </div>
+                <button
+                  onClick={onRefresh}
+                  className="p-1 hover:bg-white/10 rounded transition-colors"
+                  title="清空缓存并重新加载"
+                >
+                  <RefreshCw size={12} className="text-purple-300" />
+                </button>
+              </div>
+              <div className="h-1.5 rounded-full bg-purple-500/10 overflow-hidden">
+                <div
+                  className="h-full bg-purple-400/60"
+                  style={{ width: `${Math.min(100, (cacheStats.bytes / cacheStats.budget) * 100)}%` }}
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-xs text-purple-200/80">
+                <span>条目 {cacheStats.entries}</span>
+                <span>{formatBytes(cacheStats.bytes)} / {formatBytes(cacheStats.budget)}</span>
+                <span>命中 {cacheStats.hits}</span>
+                <span>未命中 {cacheStats.misses}</span>
+                <span>过期返回 {cacheStats.staleHits}</span>
+                <span>后台校验 {cacheStats.revalidations}</span>
+                <span>内容更新 {cacheStats.updates}</span>
+                <span>淘汰 {cacheStats.evictions}</span>
+              </div>
+            </div>
+          )}
+
           {/* UI Preview Button - Only in dev mode */}
           {import.meta.env.DEV && (
             <div className="border-t border-purple-500/20 pt-3">
@@ -0,0 +1,48 @@
+import React from 'react';
+import { Link2, ArrowUpRight } from 'lucide-react';
+import { BlogPostSummary } from '../../../types';
+
+interface BacklinksPanelProps {
+  backlinks: BlogPostSummary[]; // Notes linking to the current one
+  outgoing: BlogPostSummary[]; // Notes the current one links to
+  onOpen: (post: BlogPostSummary) => void;
+}
+
+const NoteLink: React.FC<{ post: BlogPostSummary; onOpen: (post: BlogPostSummary) => void }> = ({ post, onOpen }) => (
+  <button
+    onClick={() => onOpen(post)}
+    className="block w-full text-left px-3 py-2 rounded-lg transition-colors hover:bg-white/5 border-l border-transparent hover:border-amber-500/30"
+  >
+    <div className="text-sm font-bold theme-text-primary">{post.title}</div>
+    <div className="text-[10px] opacity-60 truncate theme-text-secondary">{post.path}</div>
+    <p className="text-xs line-clamp-2 mt-1 theme-text-secondary">{post.excerpt}</p>
+  </button>
+);
+
+// "Linked mentions" under a note, like Obsidian's backlinks pane
+const BacklinksPanel: React.FC<BacklinksPanelProps> = ({ backlinks, outgoing, onOpen }) => (
+  <section className="mt-12 pt-8 border-t theme-border-subtle grid gap-6 md:grid-cols-2">
+    <div>
+      <h3 className="text-sm font-bold mb-3 flex items-center gap-2 theme-text-accent1">
+        <Link2 size={14} /> 反向链接 <span className="opacity-60 font-normal">({backlinks.length})</span>
+      </h3>
+      {backlinks.length > 0 ? (
+        backlinks.map((post) => <NoteLink key={post.id} post={post} onOpen={onOpen} />)
+      ) : (
+        <p className="text-xs italic px-3 theme-text-secondary">还没有笔记链接到这里。</p>
+      )}
+    </div>
+    <div>
+      <h3 className="text-sm font-bold mb-3 flex items-center gap-2 theme-text-accent1">
+        <ArrowUpRight size={14} /> 出链 <span className="opacity-60 font-normal">({outgoing.length})</span>
+      </h3>
+      {outgoing.length > 0 ? (
+        outgoing.map((post) => <NoteLink key={post.id} post={post} onOpen={onOpen} />)
+      ) : (
+        <p className="text-xs italic px-3 theme-text-secondary">这篇笔记没有链接其他笔记。</p>
+      )}
+    </div>
+  </section>
+);
+
+export default BacklinksPanel;
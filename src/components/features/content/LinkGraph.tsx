@@ -0,0 +1,167 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { BlogPostSummary, LinkGraph as LinkGraphData } from '../../../types';
+import { layoutGraph } from '../../../lib/graphLayout';
+
+interface LinkGraphProps {
+  posts: BlogPostSummary[];
+  graph: LinkGraphData;
+  onOpen: (post: BlogPostSummary) => void;
+  currentPath?: string;
+  height?: number;
+}
+
+const FOLDER_COLORS = ['#fbbf24', '#c084fc', '#60a5fa', '#34d399', '#f472b6', '#fb923c', '#a3e635', '#22d3ee'];
+const MIN_ZOOM = 0.3;
+const MAX_ZOOM = 4;
+
+const folderOf = (path: string) => (path.includes('/') ? path.split('/')[0] : '/');
+
+const LinkGraph: React.FC<LinkGraphProps> = ({ posts, graph, onOpen, currentPath, height = 520 }) => {
+  const [hovered, setHovered] = useState<string | null>(null);
+  const [view, setView] = useState({ x: 0, y: 0, k: 1 });
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
+
+  const postByPath = useMemo(() => new Map(posts.map((post) => [post.path || post.id, post])), [posts]);
+
+  const { nodes, edges, folders, bounds } = useMemo(() => {
+    const links = Object.keys(graph.links).flatMap((source) =>
+      graph.links[source].filter((target) => postByPath.has(target)).map((target) => ({ source, target }))
+    );
+    const laidOut = layoutGraph(
+      [...postByPath.keys()].map((path) => ({ id: path, group: folderOf(path) })),
+      links
+    );
+    const folderNames = [...new Set(laidOut.map((node) => node.group))].sort();
+    const xs = laidOut.map((node) => node.x);
+    const ys = laidOut.map((node) => node.y);
+    const padding = 60;
+    return {
+      nodes: laidOut,
+      edges: links,
+      folders: folderNames,
+      bounds: laidOut.length
+        ? {
+            x: Math.min(...xs) - padding,
+            y: Math.min(...ys) - padding,
+            width: Math.max(...xs) - Math.min(...xs) + padding * 2,
+            height: Math.max(...ys) - Math.min(...ys) + padding * 2,
+          }
+        : { x: -100, y: -100, width: 200, height: 200 },
+    };
+  }, [graph, postByPath]);
+
+  const positions = useMemo(() => new Map(nodes.map((node) => [node.id, node])), [nodes]);
+  const colorOf = (folder: string) => FOLDER_COLORS[folders.indexOf(folder) % FOLDER_COLORS.length];
+  const degreeOf = (path: string) => (graph.links[path]?.length || 0) + (graph.backlinks[path]?.length || 0);
+
+  // Hovering a note highlights it and its direct neighbours
+  const focus = hovered || currentPath || null;
+  const neighbours = useMemo(() => {
+    if (!focus) return null;
+    return new Set([focus, ...(graph.links[focus] || []), ...(graph.backlinks[focus] || [])]);
+  }, [focus, graph]);
+
+  const handleWheel = (e: React.WheelEvent) => {
+    const k = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.k * (e.deltaY < 0 ? 1.1 : 0.9)));
+    setView({ ...view, k });
+  };
+
+  if (nodes.length === 0) {
+    return <div className="text-sm italic py-10 text-center theme-text-secondary">还没有可以绘制的笔记。</div>;
+  }
+
+  return (
+    <div className="relative rounded-xl border overflow-hidden bg-black/20 theme-border-subtle" style={{ height }}>
+      <svg
+        className="w-full h-full cursor-grab active:cursor-grabbing select-none"
+        viewBox={`${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`}
+        onWheel={handleWheel}
+        onPointerDown={(e) => {
+          dragRef.current = { x: e.clientX, y: e.clientY };
+        }}
+        onPointerMove={(e) => {
+          if (!dragRef.current) return;
+          const scale = bounds.width / (e.currentTarget.clientWidth || 1) / view.k;
+          const dx = (e.clientX - dragRef.current.x) * scale;
+          const dy = (e.clientY - dragRef.current.y) * scale;
+          dragRef.current = { x: e.clientX, y: e.clientY };
+          setView((v) => ({ ...v, x: v.x + dx, y: v.y + dy }));
+        }}
+        onPointerUp={() => {
+          dragRef.current = null;
+        }}
+        onPointerLeave={() => {
+          dragRef.current = null;
+        }}
+      >
+        <g
+          transform={`translate(${bounds.x + bounds.width / 2} ${bounds.y + bounds.height / 2}) scale(${view.k}) translate(${
+            -(bounds.x + bounds.width / 2) + view.x
+          } ${-(bounds.y + bounds.height / 2) + view.y})`}
+        >
+          {edges.map(({ source, target }) => {
+            const a = positions.get(source);
+            const b = positions.get(target);
+            if (!a || !b) return null;
+            const active = neighbours && (source === focus || target === focus);
+            return (
+              <line
+                key={`${source}->${target}`}
+                x1={a.x}
+                y1={a.y}
+                x2={b.x}
+                y2={b.y}
+                stroke={active ? '#fbbf24' : '#94a3b8'}
+                strokeOpacity={active ? 0.9 : neighbours ? 0.1 : 0.35}
+                strokeWidth={active ? 1.5 : 1}
+              />
+            );
+          })}
+          {nodes.map((node) => {
+            const post = postByPath.get(node.id)!;
+            const dimmed = neighbours && !neighbours.has(node.id);
+            const showLabel = node.id === focus || (neighbours?.has(node.id) ?? false) || view.k >= 1.5 || nodes.length <= 30;
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${node.x} ${node.y})`}
+                className="cursor-pointer"
+                opacity={dimmed ? 0.25 : 1}
+                onPointerEnter={() => setHovered(node.id)}
+                onPointerLeave={() => setHovered(null)}
+                onPointerDown={(e) => e.stopPropagation()}
+                onClick={() => onOpen(post)}
+              >
+                <circle
+                  r={4 + Math.sqrt(degreeOf(node.id)) * 2}
+                  fill={colorOf(node.group)}
+                  stroke={node.id === currentPath ? '#fff' : 'none'}
+                  strokeWidth={2}
+                />
+                {showLabel && (
+                  <text y={-10} textAnchor="middle" fontSize={10} fill="currentColor" className="theme-text-primary pointer-events-none">
+                    {post.title}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+
+      <div className="absolute top-2 left-2 flex flex-wrap gap-x-3 gap-y-1 text-[10px] px-2 py-1 rounded bg-black/40 theme-text-secondary">
+        {folders.map((folder) => (
+          <span key={folder} className="flex items-center gap-1">
+            <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: colorOf(folder) }} />
+            {folder}
+          </span>
+        ))}
+      </div>
+      <div className="absolute bottom-2 right-2 text-[10px] px-2 py-1 rounded bg-black/40 theme-text-secondary">
+        滚轮缩放 · 拖拽平移 · 点击打开
+      </div>
+    </div>
+  );
+};
+
+export default LinkGraph;
@@ -0,0 +1,913 @@
+import React from 'react';
+import {createPortal} from 'react-dom';
+import {
+    Info, CheckCircle, AlertTriangle, XCircle, Bug, HelpCircle,
+    List, Quote, Clipboard, FileText, CheckSquare, Square, ExternalLink,
+    ChevronDown, ChevronRight, Copy, Check
+} from 'lucide-react';
+import {markdownTheme} from '@/styles/markdownTheme.ts';
+import {BlogPost} from '@/types';
+import {GITHUB_CONFIG} from '@/config';
+import {parseFrontmatter} from '@/lib/frontmatter';
+import {HtmlContent, VOID_HTML_TAGS} from '@/lib/html';
+import {resolveAttachmentUrl} from '@/services/contentService';
+import {buildTagUrl} from '@/lib/routes';
+import {highlightCode, parseCodeOptions} from '@/lib/highlight';
+import {useColorScheme} from '@/components/common/ThemeToggle';
+import {
+    BlockNode, CalloutNode, CodeBlockNode, EmbedNode, FootnoteReferenceNode, FootnotesNode, HeadingNode,
+    HtmlInlineNode, InlineNode, ListNode, TableNode, getHeadingSection, getReferencedBlock, headingSlug, parseMarkdown
+} from '@/lib/markdown';
+
+// React rendering of the syntax tree from lib/markdown.ts. ObsidianRenderer parses the note
+// and supplies the options; this file only turns nodes into elements.
+
+export interface MarkdownRenderOptions {
+    onNavigate: (target: string) => void;
+    onTagClick?: (tag: string) => void; // Tags link to their tag page without it
+    embedDepth: number;
+    loadedPosts: BlogPost[];
+    // Fetches an embedded note that isn't among loadedPosts; without it such embeds stay links
+    loadEmbeddedNote?: (name: string) => Promise<BlogPost | null>;
+    // False while the note index is still loading; embeds it couldn't resolve yet are looked up again once it is
+    notesReady?: boolean;
+    // Transcluded notes go through the full renderer again, one level deeper; `blocks`
+    // limits it to a heading's section or a referenced block
+    renderEmbeddedNote: (post: BlogPost, blocks?: BlockNode[]) => React.ReactNode;
+}
+
+interface CalloutStyles {
+    color: string;
+    icon: React.ReactNode;
+}
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.svg', '.webp', '.bmp'];
+
+const isImageEmbed = (target: string) => IMAGE_EXTENSIONS.some(ext => target.toLowerCase().endsWith(ext));
+
+const isExternalUrl = (url: string) => /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//');
+
+// `Note#Heading` -> ['Note', 'Heading']; the fragment is empty without a `#`
+const splitLinkTarget = (target: string): [string, string] => {
+    const hashIndex = target.indexOf('#');
+    return hashIndex === -1 ? [target.trim(), ''] : [target.slice(0, hashIndex).trim(), target.slice(hashIndex + 1).trim()];
+};
+
+// Shown the way Obsidian does: `Note > Heading`
+const formatLinkTarget = (target: string) => {
+    const [note, fragment] = splitLinkTarget(target);
+    return fragment ? [note, ...fragment.split('#')].filter(Boolean).join(' > ') : note;
+};
+
+// DOM ID of a block named with `^id`; links to it carry the same `#^id` fragment
+const blockAnchorId = (blockId: string) => `^${blockId}`;
+
+const renderMath = (latex: string, isDisplay: boolean) => {
+    let processedLatex = latex;
+    // 检测是否包含矩阵或多行内容
+    const hasMatrix = latex.includes('\\begin{matrix}') ||
+        latex.includes('\\begin{pmatrix}') ||
+        latex.includes('\\\\');
+
+    if (hasMatrix && !isDisplay) {
+        // 对于行内矩阵，使用 smallmatrix 环境
+        processedLatex = latex
+            .replace(/\\begin\{matrix\}/g, '\\begin{smallmatrix}')
+            .replace(/\\end\{matrix\}/g, '\\end{smallmatrix}')
+            .replace(/\\begin\{pmatrix\}/g, '\\begin{psmallmatrix}')
+            .replace(/\\end\{pmatrix\}/g, '\\end{psmallmatrix}');
+    }
+
+    if (isDisplay) {
+        return (
+            <div className="math-display my-4 items-center">
+                {`\\[${processedLatex}\\]`}
+            </div>
+        );
+    }
+    return (
+        <span className="math-inline" style={{display: 'inline-block'}}>
+            {`\\(${processedLatex}\\)`}
+        </span>
+    );
+};
+
+const getCalloutStyles = (type: string): CalloutStyles => {
+    switch (type) {
+        case 'note':
+        case 'info':
+        case 'todo':
+            return {
+                color: `${markdownTheme.callout.note.border} ${markdownTheme.callout.note.bg} ${markdownTheme.callout.note.text}`,
+                icon: <Info size={18} className={markdownTheme.callout.note.icon}/>
+            };
+        case 'tip':
+        case 'done':
+        case 'success':
+            return {
+                color: `${markdownTheme.callout.tip.border} ${markdownTheme.callout.tip.bg} ${markdownTheme.callout.tip.text}`,
+                icon: <CheckCircle size={18} className={markdownTheme.callout.tip.icon}/>
+            };
+        case 'warning':
+        case 'attention':
+        case 'caution':
+            return {
+                color: `${markdownTheme.callout.warning.border} ${markdownTheme.callout.warning.bg} ${markdownTheme.callout.warning.text}`,
+                icon: <AlertTriangle size={18} className={markdownTheme.callout.warning.icon}/>
+            };
+        case 'fail':
+        case 'failure':
+        case 'error':
+        case 'danger':
+        case 'missing':
+            return {
+                color: `${markdownTheme.callout.error.border} ${markdownTheme.callout.error.bg} ${markdownTheme.callout.error.text}`,
+                icon: <XCircle size={18} className={markdownTheme.callout.error.icon}/>
+            };
+        case 'bug':
+            return {
+                color: `${markdownTheme.callout.error.border} ${markdownTheme.callout.error.bg} ${markdownTheme.callout.error.text}`,
+                icon: <Bug size={18} className={markdownTheme.callout.error.icon}/>
+            };
+        case 'question':
+        case 'help':
+        case 'faq':
+            return {
+                color: `${markdownTheme.callout.question.border} ${markdownTheme.callout.question.bg} ${markdownTheme.callout.question.text}`,
+                icon: <HelpCircle size={18} className={markdownTheme.callout.question.icon}/>
+            };
+        case 'example':
+            return {
+                color: `${markdownTheme.callout.example.border} ${markdownTheme.callout.example.bg} ${markdownTheme.callout.example.text}`,
+                icon: <List size={18} className={markdownTheme.callout.example.icon}/>
+            };
+        case 'quote':
+        case 'cite':
+            return {
+                color: `${markdownTheme.callout.quote.border} ${markdownTheme.callout.quote.bg} ${markdownTheme.callout.quote.text}`,
+                icon: <Quote size={18} className={markdownTheme.callout.quote.icon}/>
+            };
+        case 'summary':
+        case 'abstract':
+            return {
+                color: `${markdownTheme.callout.summary.border} ${markdownTheme.callout.summary.bg} ${markdownTheme.callout.summary.text}`,
+                icon: <Clipboard size={18} className={markdownTheme.callout.summary.icon}/>
+            };
+        default:
+            return {
+                color: `${markdownTheme.callout.default.border} ${markdownTheme.callout.default.bg} ${markdownTheme.callout.default.text}`,
+                icon: <FileText size={18} className={markdownTheme.callout.default.icon}/>
+            };
+    }
+};
+
+// Width and optional height from ![[image.png|300]] or ![[image.png|300x200]]
+const embedSize = (alias?: string): React.CSSProperties => {
+    const sizeMatch = alias?.match(/^(\d+)(?:x(\d+))?$/);
+    if (!sizeMatch) return {};
+    return sizeMatch[2]
+        ? {width: `${sizeMatch[1]}px`, height: `${sizeMatch[2]}px`}
+        : {width: `${sizeMatch[1]}px`};
+};
+
+/**
+ * Scroll to a heading (or any element) of the open note and put it in the address bar.
+ * `fragment` may be an anchor ID, or heading text as written in [text](#Some Heading).
+ */
+export const scrollToAnchor = (fragment: string): boolean => {
+    let decoded = fragment;
+    try {
+        decoded = decodeURIComponent(fragment);
+    } catch {
+        // Keep the raw fragment
+    }
+    const target = document.getElementById(decoded) || document.getElementById(headingSlug(decoded));
+    if (!target) return false;
+    target.scrollIntoView({behavior: 'smooth', block: target.id.startsWith('^') ? 'center' : 'start'});
+    window.history.replaceState(window.history.state, '', `#${encodeURIComponent(target.id)}`);
+    if (target.id.startsWith('^')) {
+        // Block references flash, since a paragraph has nothing else marking where it starts
+        target.classList.remove('block-flash');
+        void target.offsetWidth; // Restarts the animation when the same block is linked again
+        target.classList.add('block-flash');
+        target.addEventListener('animationend', () => target.classList.remove('block-flash'), {once: true});
+    }
+    return true;
+};
+
+// --- Raw HTML ---
+
+// Allowlisted tags (see lib/html.ts) styled like their markdown counterparts
+const HTML_CLASSES: Record<string, string> = {
+    a: `${markdownTheme.text.link} underline`,
+    code: `${markdownTheme.background.inlineCode} ${markdownTheme.text.code} px-1.5 py-0.5 rounded text-sm font-mono`,
+    kbd: `px-1.5 py-0.5 mx-0.5 rounded border border-b-2 text-xs font-mono ${markdownTheme.border.kbd} ${markdownTheme.background.kbd} ${markdownTheme.text.primary}`,
+    mark: 'bg-amber-500/30 text-amber-100 px-1 rounded',
+    img: `inline max-w-full rounded border ${markdownTheme.border.image}`,
+    p: `my-3 ${markdownTheme.text.primary} leading-relaxed`,
+    ul: 'list-disc pl-6 my-3 space-y-1',
+    ol: 'list-decimal pl-6 my-3 space-y-1',
+    blockquote: `my-6 border-l-4 ${markdownTheme.border.blockquote} pl-4 py-2 ${markdownTheme.background.blockquote} italic`,
+    pre: `my-4 p-4 rounded-lg border overflow-x-auto text-sm font-mono ${markdownTheme.background.codeBlock} ${markdownTheme.border.codeBlock}`,
+    hr: `my-8 border-t ${markdownTheme.border.horizontalRule}`,
+    table: `min-w-full border-collapse text-sm ${markdownTheme.background.table}`,
+    th: `px-4 py-2 border font-bold text-amber-400 ${markdownTheme.border.table} ${markdownTheme.background.tableHeader}`,
+    td: `px-4 py-2 border ${markdownTheme.border.table} ${markdownTheme.text.primary}`,
+    caption: `py-2 text-xs italic ${markdownTheme.text.secondary}`,
+    details: `my-4 rounded-lg border px-4 py-2 ${markdownTheme.border.blockquote} ${markdownTheme.background.blockquote}`,
+    summary: 'cursor-pointer font-bold select-none',
+    dl: 'my-4 space-y-1',
+    dt: `font-bold ${markdownTheme.text.heading3}`,
+    dd: `pl-6 ${markdownTheme.text.primary}`,
+};
+
+// HTML attribute names React spells differently; boolean attributes are present or absent
+const HTML_PROPS: Record<string, string> = {colspan: 'colSpan', rowspan: 'rowSpan', datetime: 'dateTime'};
+const BOOLEAN_ATTRIBUTES = new Set(['open', 'reversed']);
+
+const htmlProps = (tag: string, attributes: Record<string, string>, key: React.Key): Record<string, unknown> => {
+    const props: Record<string, unknown> = {key, className: HTML_CLASSES[tag]};
+    Object.entries(attributes).forEach(([name, value]) => {
+        props[HTML_PROPS[name] ?? name] = BOOLEAN_ATTRIBUTES.has(name) ? true : value;
+    });
+    if (tag === 'a' && attributes.href && isExternalUrl(attributes.href)) {
+        props.target = '_blank';
+        props.rel = 'noopener noreferrer';
+    }
+    return props;
+};
+
+// Sanitized HTML blocks; their text is shown as written
+const renderHtml = (content: HtmlContent[]): React.ReactNode[] =>
+    content.map((node, i) => typeof node === 'string'
+        ? node
+        : React.createElement(
+            node.tag,
+            htmlProps(node.tag, node.attributes, i),
+            ...(VOID_HTML_TAGS.has(node.tag) ? [] : renderHtml(node.children))
+        ));
+
+// --- Footnotes ---
+
+const FOOTNOTE_PREVIEW_WIDTH = 360;
+
+const footnoteId = (index: number) => `fn-${index}`;
+
+const footnoteReferenceId = (index: number, occurrence: number) =>
+    occurrence > 1 ? `fnref-${index}-${occurrence}` : `fnref-${index}`;
+
+// [1] in the text, previewing the footnote on hover or focus
+const FootnoteReference: React.FC<{ node: FootnoteReferenceNode; options: MarkdownRenderOptions }> = ({node, options}) => {
+    const [preview, setPreview] = React.useState<React.CSSProperties | null>(null);
+    const anchorRef = React.useRef<HTMLAnchorElement>(null);
+    // Embedded notes have no footnote anchors of their own on the page
+    const linked = options.embedDepth === 0;
+
+    const show = () => {
+        const rect = anchorRef.current?.getBoundingClientRect();
+        if (!rect) return;
+        const left = Math.max(8, Math.min(rect.left - 16, window.innerWidth - FOOTNOTE_PREVIEW_WIDTH - 8));
+        // Above the reference when it's close to the bottom of the window
+        setPreview(rect.bottom + 240 > window.innerHeight
+            ? {left, bottom: window.innerHeight - rect.top + 6}
+            : {left, top: rect.bottom + 6});
+    };
+    const hide = () => setPreview(null);
+
+    return (
+        <sup className="mx-0.5">
+            <a
+                ref={anchorRef}
+                id={linked ? footnoteReferenceId(node.index, node.occurrence) : undefined}
+                href={`#${footnoteId(node.index)}`}
+                onClick={(e) => {
+                    e.preventDefault();
+                    if (linked) scrollToAnchor(footnoteId(node.index));
+                }}
+                onMouseEnter={show}
+                onMouseLeave={hide}
+                onFocus={show}
+                onBlur={hide}
+                className={`${markdownTheme.text.linkInternal} font-mono text-xs no-underline`}
+                aria-label={`脚注 ${node.index}`}
+            >
+                [{node.index}]
+            </a>
+            {/* A portal keeps the preview's blocks out of the paragraph and clear of overflow clipping */}
+            {preview && createPortal(
+                <div
+                    role="tooltip"
+                    style={{...preview, width: FOOTNOTE_PREVIEW_WIDTH}}
+                    className={`fixed z-50 max-h-72 overflow-hidden p-3 rounded-lg border shadow-2xl backdrop-blur-md pointer-events-none text-sm [&_p]:my-1 ${markdownTheme.background.footnotePreview} ${markdownTheme.border.footnotes}`}
+                >
+                    {renderBlocks(node.content, {...options, embedDepth: options.embedDepth + 1})}
+                </div>,
+                document.body
+            )}
+        </sup>
+    );
+};
+
+// Numbered footnotes at the end of the note, each linking back to where it is referenced
+const Footnotes: React.FC<{ node: FootnotesNode; options: MarkdownRenderOptions }> = ({node, options}) => {
+    const linked = options.embedDepth === 0;
+    return (
+        <section
+            aria-label="脚注"
+            className={`mt-12 pt-6 border-t text-sm ${markdownTheme.border.footnotes} ${markdownTheme.text.secondary}`}>
+            <ol className="list-decimal pl-6 space-y-2">
+                {node.items.map((item) => {
+                    const backLinks = linked && Array.from({length: item.references}, (_, i) => (
+                        <a
+                            key={i}
+                            href={`#${footnoteReferenceId(item.index, i + 1)}`}
+                            onClick={(e) => {
+                                e.preventDefault();
+                                scrollToAnchor(footnoteReferenceId(item.index, i + 1));
+                            }}
+                            className={`ml-1 no-underline ${markdownTheme.text.linkInternal}`}
+                            aria-label="返回正文"
+                        >
+                            ↩{i > 0 && <sup>{i + 1}</sup>}
+                        </a>
+                    ));
+                    // The links back go at the end of the last paragraph, when there is one
+                    const last = item.children[item.children.length - 1];
+                    const endsWithParagraph = last?.type === 'paragraph';
+                    return (
+                        <li key={item.index} id={linked ? footnoteId(item.index) : undefined}
+                            className="scroll-mt-24 [&_p]:my-1">
+                            {renderBlocks(endsWithParagraph ? item.children.slice(0, -1) : item.children, options)}
+                            {endsWithParagraph ? (
+                                <p className={`my-1 ${markdownTheme.text.primary}`}>
+                                    {renderInline(last.children, options)}
+                                    {backLinks}
+                                </p>
+                            ) : backLinks}
+                        </li>
+                    );
+                })}
+            </ol>
+        </section>
+    );
+};
+
+// --- Inline ---
+
+const renderInlineNode = (node: InlineNode, key: number, options: MarkdownRenderOptions): React.ReactNode => {
+    switch (node.type) {
+        case 'text':
+            return <React.Fragment key={key}>{node.value}</React.Fragment>;
+        case 'break':
+            return <br key={key}/>;
+        case 'inlineCode':
+            return (
+                <code key={key}
+                      className={`${markdownTheme.background.inlineCode} ${markdownTheme.text.code} px-1.5 py-0.5 rounded text-sm font-mono`}>
+                    {node.value}
+                </code>
+            );
+        case 'inlineMath':
+            return <React.Fragment key={key}>{renderMath(node.value, node.display)}</React.Fragment>;
+        case 'strong':
+            return (
+                <strong key={key} className={`${markdownTheme.text.bold} font-semibold`}>
+                    {renderInline(node.children, options)}
+                </strong>
+            );
+        case 'emphasis':
+            return <em key={key} className={markdownTheme.text.italic}>{renderInline(node.children, options)}</em>;
+        case 'strikethrough':
+            return <del key={key} className="opacity-60">{renderInline(node.children, options)}</del>;
+        case 'highlight':
+            return (
+                <mark key={key} className="bg-amber-500/30 text-amber-100 px-1 rounded">
+                    {renderInline(node.children, options)}
+                </mark>
+            );
+        case 'link':
+            if (node.url.startsWith('#')) {
+                return (
+                    <a
+                        key={key}
+                        href={node.url}
+                        title={node.title}
+                        onClick={(e) => {
+                            if (scrollToAnchor(node.url.slice(1))) e.preventDefault();
+                        }}
+                        className={`${markdownTheme.text.linkInternal} underline decoration-dotted`}
+                    >
+                        {renderInline(node.children, options)}
+                    </a>
+                );
+            }
+            if (!isExternalUrl(node.url)) {
+                return (
+                    <a key={key} href={node.url} title={node.title} className={`${markdownTheme.text.link} underline`}>
+                        {renderInline(node.children, options)}
+                    </a>
+                );
+            }
+            return (
+                <a
+                    key={key}
+                    href={node.url}
+                    title={node.title}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={`${markdownTheme.text.link} underline inline-flex items-center gap-1`}
+                >
+                    {renderInline(node.children, options)}
+                    <ExternalLink size={12} className="inline"/>
+                </a>
+            );
+        case 'image':
+            return (
+                <img key={key} src={node.url} alt={node.alt} title={node.title}
+                     className={`inline max-w-full rounded border ${markdownTheme.border.image}`}/>
+            );
+        case 'wikiLink':
+            return (
+                <button
+                    key={key}
+                    onClick={() => options.onNavigate(node.target)}
+                    className={`${markdownTheme.text.linkInternal} underline decoration-dotted cursor-pointer inline-flex items-center gap-1 font-medium`}
+                    title={`导航到: ${node.target}`}
+                >
+                    <ExternalLink size={12} className="inline"/>
+                    {node.alias ?? formatLinkTarget(node.target)}
+                </button>
+            );
+        case 'embed':
+            // Inside a line an embed can't transclude a note; images stay inline
+            if (isImageEmbed(node.target)) {
+                return (
+                    <img key={key} src={resolveAttachmentUrl(`${GITHUB_CONFIG.attachmentsPath}/${node.target}`)}
+                         alt={node.target} style={embedSize(node.alias)}
+                         className={`inline max-w-full rounded border ${markdownTheme.border.image}`}/>
+                );
+            }
+            return renderInlineNode({type: 'wikiLink', target: node.target}, key, options);
+        case 'footnoteReference':
+            return <FootnoteReference key={key} node={node} options={options}/>;
+        case 'htmlInline':
+            return renderHtmlInline(node, key, options);
+        case 'tag':
+            return (
+                <a
+                    key={key}
+                    href={buildTagUrl(node.tag)}
+                    onClick={(e) => {
+                        if (!options.onTagClick) return;
+                        e.preventDefault();
+                        options.onTagClick(node.tag);
+                    }}
+                    className={`${markdownTheme.text.accent1} font-mono text-sm hover:underline`}
+                >
+                    #{node.tag}
+                </a>
+            );
+        default:
+            return null;
+    }
+};
+
+const renderHtmlInline = (node: HtmlInlineNode, key: number, options: MarkdownRenderOptions): React.ReactNode =>
+    React.createElement(
+        node.tag,
+        htmlProps(node.tag, node.attributes, key),
+        ...(VOID_HTML_TAGS.has(node.tag) ? [] : [renderInline(node.children, options)])
+    );
+
+const renderInline = (nodes: InlineNode[], options: MarkdownRenderOptions): React.ReactNode[] =>
+    nodes.map((node, idx) => renderInlineNode(node, idx, options));
+
+// --- Blocks ---
+
+const Heading: React.FC<{ node: HeadingNode; options: MarkdownRenderOptions }> = ({node, options}) => {
+    // Transcluded notes keep their headings out of the page's anchors
+    const anchorId = options.embedDepth === 0 ? node.id : undefined;
+    const content = (
+        <>
+            {renderInline(node.children, options)}
+            {anchorId && (
+                <a
+                    href={`#${anchorId}`}
+                    onClick={(e) => {
+                        e.preventDefault();
+                        scrollToAnchor(anchorId);
+                    }}
+                    className={`ml-2 text-base font-normal no-underline opacity-0 group-hover:opacity-60 hover:!opacity-100 transition-opacity ${markdownTheme.text.secondary}`}
+                    aria-label="本节链接"
+                    title="本节链接"
+                >
+                    #
+                </a>
+            )}
+        </>
+    );
+
+    switch (node.level) {
+        case 1:
+            return <h1 id={anchorId}
+                       className={`group scroll-mt-24 text-3xl font-serif font-bold ${markdownTheme.text.heading1} mt-8 mb-4 border-b ${markdownTheme.border.heading1} pb-2 flex items-center gap-2`}>{content}</h1>;
+        case 2:
+            return <h2 id={anchorId}
+                       className={`group scroll-mt-24 text-2xl font-serif font-bold ${markdownTheme.text.heading2} mt-6 mb-3 pl-3 border-l-4 ${markdownTheme.border.heading2}`}>{content}</h2>;
+        case 3:
+            return <h3 id={anchorId}
+                       className={`group scroll-mt-24 text-xl font-bold ${markdownTheme.text.heading3} mt-5 mb-2`}>{content}</h3>;
+        case 4:
+            return <h4 id={anchorId}
+                       className={`group scroll-mt-24 text-lg font-bold ${markdownTheme.text.heading4} mt-4 mb-2 flex items-center gap-2`}>
+                <div className="w-1.5 h-1.5 rounded-full bg-amber-400"/>
+                {content}</h4>;
+        case 5:
+            return <h5 id={anchorId}
+                       className={`group scroll-mt-24 font-bold ${markdownTheme.text.heading5} mt-3`}>{content}</h5>;
+        default:
+            return <h6 id={anchorId}
+                       className={`group scroll-mt-24 text-sm font-bold ${markdownTheme.text.heading5} mt-3`}>{content}</h6>;
+    }
+};
+
+const CodeBlock: React.FC<{ node: CodeBlockNode }> = ({node}) => {
+    const scheme = useColorScheme();
+    const [copied, setCopied] = React.useState(false);
+    const lines = React.useMemo(() => highlightCode(node.value, node.lang), [node.value, node.lang]);
+    const codeOptions = React.useMemo(() => parseCodeOptions(node.meta), [node.meta]);
+
+    if (node.lang === 'mermaid') {
+        return (
+            <div
+                className={`my-6 p-4 rounded-lg border ${markdownTheme.border.codeBlock} ${markdownTheme.background.codeBlock} overflow-x-auto`}>
+                <div className="mermaid-diagram">
+                    {node.value.trim()}
+                </div>
+            </div>
+        );
+    }
+
+    const theme = markdownTheme.code[scheme];
+    const diffClass = {add: theme.diffAdd, remove: theme.diffRemove, hunk: theme.diffHunk};
+
+    const copy = () => {
+        navigator.clipboard?.writeText(node.value).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        }).catch((err) => console.error('Copy failed:', err));
+    };
+
+    return (
+        <div className={`relative group my-6 rounded-lg border ${theme.border} overflow-hidden shadow-inner`}>
+            {(codeOptions.title || node.lang) && (
+                <div className={`flex items-center gap-2 px-4 py-1.5 text-xs font-mono border-b ${theme.header}`}>
+                    {codeOptions.title && <span className="truncate">{codeOptions.title}</span>}
+                    {node.lang && <span className="ml-auto pr-8 select-none opacity-70">{node.lang}</span>}
+                </div>
+            )}
+            <button
+                onClick={copy}
+                className={`absolute right-2 top-1 p-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity hover:bg-white/10 ${theme.header}`}
+                title={copied ? '已复制' : '复制代码'}
+            >
+                {copied ? <Check size={14}/> : <Copy size={14}/>}
+            </button>
+            <pre className={`${theme.background} py-4 overflow-x-auto text-sm font-mono ${theme.text}`}>
+                <code className="block min-w-max">
+                    {lines.map((line, idx) => (
+                        <span
+                            key={idx}
+                            className={`block px-4 ${codeOptions.highlightedLines.has(idx + 1) ? theme.highlightLine : ''} ${line.diff ? diffClass[line.diff] : ''}`}
+                        >
+                            {codeOptions.showLineNumbers && (
+                                <span className={`inline-block w-8 mr-4 text-right select-none ${theme.lineNumber}`}>{idx + 1}</span>
+                            )}
+                            {line.tokens.length > 0
+                                ? line.tokens.map((token, tIdx) => (
+                                    <span key={tIdx} className={theme.tokens[token.type] || undefined}>{token.text}</span>
+                                ))
+                                : ' '}
+                        </span>
+                    ))}
+                </code>
+            </pre>
+        </div>
+    );
+};
+
+const Callout: React.FC<{ node: CalloutNode; options: MarkdownRenderOptions }> = ({node, options}) => {
+    const [collapsed, setCollapsed] = React.useState(node.fold === '-');
+    const styles = getCalloutStyles(node.calloutType);
+    const isCollapsible = node.fold !== null;
+
+    return (
+        <div className={`my-6 rounded-lg border p-4 ${styles.color}`}>
+            <div
+                className={`flex items-start gap-3 mb-2 ${isCollapsible ? 'cursor-pointer' : ''}`}
+                onClick={isCollapsible ? () => setCollapsed(!collapsed) : undefined}
+            >
+                {styles.icon}
+                <div className="font-bold text-lg flex-1">
+                    {node.title.length > 0 ? renderInline(node.title, options) : node.calloutType}
+                </div>
+                {isCollapsible && (
+                    collapsed ? <ChevronRight size={20}/> : <ChevronDown size={20}/>
+                )}
+            </div>
+            {!collapsed && (
+                <div className="pl-9">
+                    {renderBlocks(node.children, options)}
+                </div>
+            )}
+        </div>
+    );
+};
+
+const Table: React.FC<{ node: TableNode; options: MarkdownRenderOptions }> = ({node, options}) => (
+    <div className={`my-6 overflow-x-auto rounded-lg border ${markdownTheme.border.table} shadow-lg`}>
+        <table
+            className={`min-w-full divide-y ${markdownTheme.border.table} ${markdownTheme.background.table}`}>
+            <thead className={markdownTheme.background.tableHeader}>
+            <tr>
+                {node.header.map((cell, i) => (
+                    <th key={i}
+                        style={{textAlign: node.align[i] || 'left'}}
+                        className={`px-6 py-3 text-xs font-bold text-amber-400 uppercase tracking-wider border-b ${markdownTheme.border.table}`}>
+                        {renderInline(cell, options)}
+                    </th>
+                ))}
+            </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+            {node.rows.map((row, idx) => (
+                <tr key={idx}
+                    className={idx % 2 === 0 ? 'bg-transparent' : markdownTheme.background.tableRowAlt}>
+                    {row.map((cell, cIdx) => (
+                        <td key={cIdx}
+                            style={{textAlign: node.align[cIdx] || 'left'}}
+                            className={`px-6 py-4 whitespace-nowrap text-sm ${markdownTheme.text.primary} border-r border-slate-800/50 last:border-0`}>
+                            {renderInline(cell, options)}
+                        </td>
+                    ))}
+                </tr>
+            ))}
+            </tbody>
+        </table>
+    </div>
+);
+
+// Items render their first paragraph inline, like a tight list, and any further blocks below it
+const renderList = (node: ListNode, options: MarkdownRenderOptions, nested: boolean): React.ReactNode => {
+    const ListTag = node.ordered ? 'ol' : 'ul';
+    const list = (
+        <ListTag className={node.ordered ? 'list-decimal pl-6 space-y-1' : 'list-disc pl-6 space-y-1'}
+                 start={node.ordered && node.start !== 1 ? node.start : undefined}>
+            {node.items.map((item, iIdx) => {
+                const [first, ...rest] = item.children;
+                const lead = first?.type === 'paragraph' ? first : null;
+                const blocks = lead ? rest : item.children;
+                return (
+                    <li key={iIdx}
+                        id={item.blockId && options.embedDepth === 0 ? blockAnchorId(item.blockId) : undefined}
+                        className={`${item.blockId ? 'scroll-mt-24 ' : ''}${item.checked !== null ? "flex items-start gap-2" : markdownTheme.text.primary}`}>
+                        {item.checked !== null && (
+                            item.checked ? (
+                                <CheckSquare size={15} className={`${markdownTheme.callout.tip.icon} mt-0.5`}/>
+                            ) : (
+                                <Square size={15} className={`${markdownTheme.text.secondary} mt-0.5`}/>
+                            )
+                        )}
+                        {lead && <span className={markdownTheme.text.primary}>{renderInline(lead.children, options)}</span>}
+                        {blocks.length > 0 && (
+                            <div className="mt-1">
+                                {blocks.map((block, bIdx) => block.type === 'list'
+                                    ? <React.Fragment key={bIdx}>{renderList(block, options, true)}</React.Fragment>
+                                    : renderBlock(block, bIdx, options))}
+                            </div>
+                        )}
+                    </li>
+                );
+            })}
+        </ListTag>
+    );
+    return nested ? list : <div className="my-4">{list}</div>;
+};
+
+const EmbeddedNote: React.FC<{ node: EmbedNode; options: MarkdownRenderOptions }> = ({node, options}) => {
+    const embedName = node.target;
+    const [noteName, fragment] = splitLinkTarget(embedName);
+    // Embeds inside embeds stay links, so notes embedding each other can't recurse
+    const transcludes = options.embedDepth < 1 && !!noteName;
+    const {loadedPosts, loadEmbeddedNote, notesReady = true} = options;
+
+    const loadedPost = React.useMemo(() => {
+        if (!transcludes) return undefined;
+        const normalizedTarget = noteName.toLowerCase();
+        return loadedPosts.find((p) => {
+            const title = p.title.toLowerCase();
+            const filename = p.path?.split('/').pop()?.replace('.md', '').toLowerCase() || '';
+            return title === normalizedTarget ||
+                filename === normalizedTarget ||
+                title.startsWith(normalizedTarget) ||
+                filename.startsWith(normalizedTarget);
+        });
+    }, [transcludes, noteName, loadedPosts]);
+
+    // Notes that aren't loaded yet are fetched once the embed is rendered
+    const [fetchedPost, setFetchedPost] = React.useState<BlogPost | null>(null);
+    const [status, setStatus] = React.useState<'idle' | 'loading' | 'missing'>('idle');
+    React.useEffect(() => {
+        setFetchedPost(null);
+        if (!transcludes || loadedPost || !loadEmbeddedNote) return;
+        let active = true;
+        setStatus('loading');
+        loadEmbeddedNote(noteName)
+            .then((post) => {
+                if (!active) return;
+                setFetchedPost(post);
+                setStatus(post ? 'idle' : notesReady ? 'missing' : 'loading');
+            })
+            .catch((e) => {
+                console.warn(`Failed to load embedded note '${noteName}'`, e);
+                if (active) setStatus('missing');
+            });
+        return () => {
+            active = false;
+        };
+    }, [transcludes, noteName, loadedPost, loadEmbeddedNote, notesReady]);
+
+    const embeddedPost = loadedPost ?? fetchedPost;
+
+    // `#Heading` and `#^block-id` narrow the embed down; null when the note has no such part
+    const section = React.useMemo(() => {
+        if (!embeddedPost || !fragment) return undefined;
+        const blocks = parseMarkdown(parseFrontmatter(embeddedPost.content).body);
+        return fragment.startsWith('^')
+            ? getReferencedBlock(blocks, fragment.slice(1))
+            : getHeadingSection(blocks, fragment);
+    }, [embeddedPost, fragment]);
+
+    const linkOnly = (hint?: string) => (
+        <div
+            className={`my-4 p-4 rounded-lg border ${markdownTheme.border.blockquote} ${markdownTheme.background.blockquote}`}>
+            <div className="flex items-center gap-2">
+                <ExternalLink size={16} className={hint ? markdownTheme.text.secondary : markdownTheme.text.linkInternal}/>
+                <button
+                    onClick={() => options.onNavigate(embedName)}
+                    className={`${markdownTheme.text.linkInternal} underline font-medium hover:opacity-80`}
+                >
+                    {formatLinkTarget(embedName)}
+                </button>
+                {hint && <span className={`text-xs ${markdownTheme.text.secondary} italic`}>{hint}</span>}
+            </div>
+        </div>
+    );
+
+    if (!transcludes) return linkOnly();
+    if (!embeddedPost) {
+        return linkOnly(status === 'loading' ? '(正在加载...)' : status === 'missing' ? '(未找到笔记)' : '(点击加载)');
+    }
+    if (section === null) return linkOnly(fragment.startsWith('^') ? '(未找到该段落)' : '(未找到该标题)');
+
+    return (
+        <div
+            className={`my-6 p-6 rounded-lg border-2 ${markdownTheme.border.blockquote} ${markdownTheme.background.blockquote}`}>
+            <div
+                className="flex items-center justify-between mb-4 pb-3 border-b border-slate-700/50">
+                <h3 className={`text-lg font-bold ${markdownTheme.text.heading3}`}>
+                    {fragment ? formatLinkTarget(`${embeddedPost.title}#${fragment}`) : embeddedPost.title}
+                </h3>
+                <button
+                    onClick={() => options.onNavigate(embedName)}
+                    className={`${markdownTheme.text.linkInternal} flex items-center gap-1 text-sm hover:opacity-80 transition-opacity`}
+                >
+                    <span>{fragment ? '跳转到原文' : '查看全文'}</span>
+                    <ExternalLink size={14}/>
+                </button>
+            </div>
+            <div className="embedded-content">
+                {options.renderEmbeddedNote(embeddedPost, section)}
+            </div>
+        </div>
+    );
+};
+
+const Figure: React.FC<{ src: string; alt: string; caption: string; style?: React.CSSProperties; embed?: boolean }> = (
+    {src, alt, caption, style, embed}
+) => (
+    <div className="my-6 flex flex-col items-center">
+        <img
+            src={src}
+            alt={alt}
+            style={style}
+            className={`max-w-full ${embed ? 'md:max-w-lg ' : ''}rounded-lg border ${markdownTheme.border.image} shadow-lg opacity-100`}
+            onError={embed ? (e) => {
+                (e.target as HTMLImageElement).style.display = 'none';
+            } : undefined}
+        />
+        {caption && <span className={`text-xs ${markdownTheme.text.secondary} mt-2 italic`}>{caption}</span>}
+    </div>
+);
+
+const renderBlock = (node: BlockNode, key: number, options: MarkdownRenderOptions): React.ReactNode => {
+    // Blocks named with ^id get an anchor for [[Note#^id]]; transcluded ones don't, like headings
+    if ('blockId' in node && node.blockId && options.embedDepth === 0) {
+        return (
+            <div key={key} id={blockAnchorId(node.blockId)} className="scroll-mt-24">
+                {renderBlockContent(node, 0, options)}
+            </div>
+        );
+    }
+    return renderBlockContent(node, key, options);
+};
+
+const renderBlockContent = (node: BlockNode, key: number, options: MarkdownRenderOptions): React.ReactNode => {
+    switch (node.type) {
+        case 'heading':
+            return <Heading key={key} node={node} options={options}/>;
+        case 'paragraph':
+            return (
+                <p key={key} className={`my-3 ${markdownTheme.text.primary} leading-relaxed`}>
+                    {renderInline(node.children, options)}
+                </p>
+            );
+        case 'code':
+            return <CodeBlock key={key} node={node}/>;
+        case 'math':
+            return (
+                <div key={key}
+                     className={`my-6 overflow-x-auto text-center py-2 ${markdownTheme.background.math} rounded border ${markdownTheme.border.math}`}>
+                    {renderMath(node.value, true)}
+                </div>
+            );
+        case 'blockquote':
+            return (
+                <div key={key}
+                     className={`my-6 border-l-4 ${markdownTheme.border.blockquote} pl-4 py-2 ${markdownTheme.background.blockquote} italic ${markdownTheme.text.primary}`}>
+                    {renderBlocks(node.children, options)}
+                </div>
+            );
+        case 'callout':
+            return <Callout key={key} node={node} options={options}/>;
+        case 'list':
+            return <React.Fragment key={key}>{renderList(node, options, false)}</React.Fragment>;
+        case 'table':
+            return <Table key={key} node={node} options={options}/>;
+        case 'thematicBreak':
+            return <hr key={key} className={`my-8 border-t ${markdownTheme.border.horizontalRule}`}/>;
+        case 'definitionList':
+            return (
+                <dl key={key} className="my-4 space-y-3">
+                    {node.items.map((item, iIdx) => (
+                        <div key={iIdx}>
+                            <dt className={`font-bold ${markdownTheme.text.heading3}`}>{renderInline(item.term, options)}</dt>
+                            {item.definitions.map((definition, dIdx) => (
+                                <dd key={dIdx} className={`pl-6 ${markdownTheme.text.primary} [&_p]:my-1`}>
+                                    {renderBlocks(definition, options)}
+                                </dd>
+                            ))}
+                        </div>
+                    ))}
+                </dl>
+            );
+        case 'details':
+            return (
+                <details key={key} open={node.open} className={HTML_CLASSES.details}>
+                    <summary className={`${HTML_CLASSES.summary} ${markdownTheme.text.primary}`}>
+                        {node.summary.length > 0 ? renderInline(node.summary, options) : '详情'}
+                    </summary>
+                    <div className="mt-2">{renderBlocks(node.children, options)}</div>
+                </details>
+            );
+        case 'html':
+            return <div key={key} className="my-4 overflow-x-auto">{renderHtml(node.content)}</div>;
+        case 'footnotes':
+            return <Footnotes key={key} node={node} options={options}/>;
+        case 'image':
+            return <Figure key={key} src={node.url} alt={node.alt} caption={node.alt}/>;
+        case 'embed':
+            if (isImageEmbed(node.target)) {
+                // Use backend API proxy to fetch images, avoiding direct GitHub raw URL issues
+                const imageUrl = resolveAttachmentUrl(`${GITHUB_CONFIG.attachmentsPath}/${node.target}`);
+                return <Figure key={key} src={imageUrl} alt={node.target} caption={node.target}
+                               style={embedSize(node.alias)} embed/>;
+            }
+            return <EmbeddedNote key={key} node={node} options={options}/>;
+        default:
+            return null;
+    }
+};
+
+const renderBlocks = (blocks: BlockNode[], options: MarkdownRenderOptions): React.ReactNode[] =>
+    blocks.map((block, idx) => renderBlock(block, idx, options));
+
+interface MarkdownBlocksProps {
+    blocks: BlockNode[];
+    options: MarkdownRenderOptions;
+}
+
+// Parsed trees are shared per content, so an unchanged note skips rendering entirely
+const MarkdownBlocks = React.memo(({blocks, options}: MarkdownBlocksProps) => <>{renderBlocks(blocks, options)}</>);
+
+export default MarkdownBlocks;
@@ -0,0 +1,60 @@
+// @vitest-environment jsdom
+import React, {act} from 'react';
+import {createRoot, Root} from 'react-dom/client';
+import {afterEach, beforeEach, describe, expect, it, vi} from 'vitest';
+import {BlogPost} from '@/types';
+import ObsidianRenderer from './ObsidianRenderer';
+
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+const embedded: BlogPost = {
+    id: 'notes/Other.md',
+    path: 'notes/Other.md',
+    title: 'Other',
+    content: 'Embedded body text',
+} as BlogPost;
+
+describe('ObsidianRenderer embeds', () => {
+    let container: HTMLDivElement;
+    let root: Root;
+
+    beforeEach(() => {
+        container = document.createElement('div');
+        document.body.appendChild(container);
+        root = createRoot(container);
+    });
+
+    afterEach(() => {
+        act(() => root.unmount());
+        container.remove();
+        vi.restoreAllMocks();
+    });
+
+    it('looks an embed up again once the note index has loaded', async () => {
+        // Like App's loader: the note can't be found until the index is there
+        let indexLoaded = false;
+        const loadEmbeddedNote = vi.fn(async () => (indexLoaded ? embedded : null));
+        const render = (notesReady: boolean) =>
+            act(async () => {
+                root.render(
+                    <ObsidianRenderer content="![[Other]]" loadEmbeddedNote={loadEmbeddedNote} notesReady={notesReady}/>
+                );
+            });
+
+        await render(false);
+        expect(container.textContent).toContain('(正在加载...)');
+        expect(container.textContent).not.toContain('(未找到笔记)');
+
+        indexLoaded = true;
+        await render(true);
+        expect(loadEmbeddedNote).toHaveBeenCalledTimes(2);
+        expect(container.textContent).toContain('Embedded body text');
+    });
+
+    it('reports a note the loaded index doesn\'t have', async () => {
+        await act(async () => {
+            root.render(<ObsidianRenderer content="![[Nowhere]]" loadEmbeddedNote={async () => null} notesReady/>);
+        });
+        expect(container.textContent).toContain('(未找到笔记)');
+    });
+});
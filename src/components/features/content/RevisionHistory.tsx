@@ -0,0 +1,277 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { History, GitCommitHorizontal, GitCompare, ExternalLink, Eye, Loader2 } from 'lucide-react';
+import { BlogPost } from '../../../types';
+import { DiffResult, diffHunks } from '../../../lib/diff';
+import { SourceRevision } from '../../../services/contentSource';
+import { fetchPostAtRevision, fetchPostHistory, fetchRevisionText } from '../../../services/contentService';
+
+interface RevisionHistoryProps {
+  path: string;
+  viewing: string | null; // SHA of the revision shown instead of the latest text
+  onView: (post: BlogPost | null, revision: SourceRevision | null) => void;
+}
+
+const shortSha = (sha: string) => sha.slice(0, 7);
+
+const formatDate = (date: string) => (date ? new Date(date).toLocaleString('zh-CN', { hour12: false }) : '');
+
+const firstLine = (message: string) => message.split('\n')[0];
+
+// `from` is null for the commit that created the note
+interface DiffSelection {
+  from: SourceRevision | null;
+  to: SourceRevision;
+}
+
+const DiffView: React.FC<{ diff: DiffResult }> = ({ diff }) => {
+  if (diff.hunks.length === 0) {
+    return <p className="text-xs italic px-3 py-2 theme-text-secondary">两个版本的内容相同。</p>;
+  }
+  return (
+    <div className="rounded-lg border overflow-x-auto text-xs font-mono theme-border-subtle">
+      {diff.hunks.map((hunk, i) => (
+        <div key={i}>
+          {hunk.skippedBefore > 0 && (
+            <div className="px-3 py-1 bg-black/20 opacity-60 theme-text-secondary">… {hunk.skippedBefore} 行未更改</div>
+          )}
+          {hunk.lines.map((line, j) => (
+            <div
+              key={j}
+              className={`flex whitespace-pre ${
+                line.type === 'add' ? 'bg-green-500/15' : line.type === 'remove' ? 'bg-red-500/15' : ''
+              }`}
+            >
+              <span className="w-10 shrink-0 text-right pr-2 select-none opacity-40">{line.oldLine ?? ''}</span>
+              <span className="w-10 shrink-0 text-right pr-2 select-none opacity-40">{line.newLine ?? ''}</span>
+              <span className="w-4 shrink-0 select-none opacity-60">
+                {line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' '}
+              </span>
+              <span className="pr-3 theme-text-primary">{line.text || ' '}</span>
+            </div>
+          ))}
+        </div>
+      ))}
+      {diff.skippedAfter > 0 && (
+        <div className="px-3 py-1 bg-black/20 opacity-60 theme-text-secondary">… {diff.skippedAfter} 行未更改</div>
+      )}
+    </div>
+  );
+};
+
+// Commits that touched a note, with "view this version" and diffs between any two of them
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ path, viewing, onView }) => {
+  const [revisions, setRevisions] = useState<SourceRevision[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [selection, setSelection] = useState<DiffSelection | null>(null);
+  const [diff, setDiff] = useState<DiffResult | null>(null);
+  const [diffStatus, setDiffStatus] = useState<'idle' | 'loading' | 'error'>('idle');
+  const [loadingView, setLoadingView] = useState<string | null>(null);
+
+  const loadPage = (next: number) => {
+    setStatus('loading');
+    fetchPostHistory(path, next)
+      .then((result) => {
+        setRevisions((prev) => (next === 1 ? result.revisions : [...prev, ...result.revisions]));
+        setHasMore(result.hasMore);
+        setPage(next);
+        setStatus('ready');
+      })
+      .catch((e) => {
+        console.error(`Failed to load history of ${path}`, e);
+        setStatus('error');
+      });
+  };
+
+  useEffect(() => {
+    setRevisions([]);
+    setSelection(null);
+    setDiff(null);
+    loadPage(1);
+  }, [path]);
+
+  // Both sides are read as raw text, so frontmatter edits show up too
+  useEffect(() => {
+    if (!selection) return;
+    let active = true;
+    setDiffStatus('loading');
+    Promise.all([
+      selection.from ? fetchRevisionText(path, selection.from.sha) : Promise.resolve(''),
+      fetchRevisionText(path, selection.to.sha),
+    ])
+      .then(([oldText, newText]) => {
+        if (!active) return;
+        if (oldText === null || newText === null) throw new Error('Revision text unavailable');
+        setDiff(diffHunks(oldText, newText));
+        setDiffStatus('idle');
+      })
+      .catch((e) => {
+        if (!active) return;
+        console.error('Failed to build diff', e);
+        setDiffStatus('error');
+      });
+    return () => {
+      active = false;
+    };
+  }, [path, selection]);
+
+  const indexOf = useMemo(() => new Map(revisions.map((revision, i) => [revision.sha, i])), [revisions]);
+
+  // Changes made by one commit: against the commit before it, or the empty file for the first one
+  const showChanges = (i: number) => setSelection({ from: revisions[i + 1] ?? null, to: revisions[i] });
+
+  const selectSide = (side: 'from' | 'to', sha: string) => {
+    const revision = revisions[indexOf.get(sha) ?? -1];
+    if (!revision) return;
+    const current = selection || { from: revisions[1] ?? null, to: revisions[0] };
+    const next = { ...current, [side]: revision };
+    // Always diff older -> newer, whichever side was changed
+    const olderFirst = next.from && (indexOf.get(next.from.sha) ?? 0) < (indexOf.get(next.to.sha) ?? 0);
+    setSelection(olderFirst ? { from: next.to, to: next.from } : next);
+  };
+
+  const viewRevision = (revision: SourceRevision, i: number) => {
+    if (i === 0) return onView(null, null); // The newest commit is the current text
+    setLoadingView(revision.sha);
+    fetchPostAtRevision(path, revision)
+      .then((post) => post && onView(post, revision))
+      .catch((e) => console.error(`Failed to load ${path} at ${revision.sha}`, e))
+      .finally(() => setLoadingView(null));
+  };
+
+  return (
+    <section className="mb-8 rounded-xl border p-4 theme-border-subtle bg-black/10">
+      <h3 className="text-sm font-bold mb-3 flex items-center gap-2 theme-text-accent1">
+        <History size={14} /> 修订历史
+        <span className="opacity-60 font-normal">
+          ({revisions.length}
+          {hasMore ? '+' : ''})
+        </span>
+      </h3>
+
+      {status === 'error' && revisions.length === 0 ? (
+        <p className="text-xs italic px-3 theme-text-secondary">无法读取这篇笔记的历史。</p>
+      ) : status === 'ready' && revisions.length === 0 ? (
+        <p className="text-xs italic px-3 theme-text-secondary">没有找到修改记录。</p>
+      ) : (
+        <ol className="space-y-1 max-h-80 overflow-y-auto">
+          {revisions.map((revision, i) => {
+            const isViewing = viewing ? viewing === revision.sha : i === 0;
+            const canShowChanges = i + 1 < revisions.length || !hasMore;
+            return (
+              <li
+                key={revision.sha}
+                className={`flex items-start gap-3 px-3 py-2 rounded-lg border-l ${
+                  isViewing ? 'bg-white/5 border-amber-500/50' : 'border-transparent'
+                }`}
+              >
+                <GitCommitHorizontal size={14} className="mt-0.5 shrink-0 theme-text-accent3" />
+                <div className="min-w-0 flex-1">
+                  <div className="text-sm truncate theme-text-primary" title={revision.message}>
+                    {firstLine(revision.message) || '(无提交信息)'}
+                  </div>
+                  <div className="text-[10px] opacity-70 theme-text-secondary">
+                    {revision.url ? (
+                      <a href={revision.url} target="_blank" rel="noopener noreferrer" className="font-mono hover:underline">
+                        {shortSha(revision.sha)} <ExternalLink size={9} className="inline" />
+                      </a>
+                    ) : (
+                      <span className="font-mono">{shortSha(revision.sha)}</span>
+                    )}
+                    {' · '}
+                    {revision.author} · {formatDate(revision.date)}
+                    {i === 0 && ' · 最新'}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => viewRevision(revision, i)}
+                    disabled={isViewing || loadingView !== null}
+                    className="text-xs px-2 py-1 rounded flex items-center gap-1 hover:bg-white/10 disabled:opacity-40 theme-text-secondary"
+                    title="查看此版本"
+                  >
+                    {loadingView === revision.sha ? <Loader2 size={12} className="animate-spin" /> : <Eye size={12} />}
+                    查看
+                  </button>
+                  <button
+                    onClick={() => showChanges(i)}
+                    disabled={!canShowChanges}
+                    className="text-xs px-2 py-1 rounded flex items-center gap-1 hover:bg-white/10 disabled:opacity-40 theme-text-secondary"
+                    title={canShowChanges ? '查看此次提交的改动' : '加载更早的记录后可查看'}
+                  >
+                    <GitCompare size={12} /> 改动
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      {status === 'loading' && (
+        <div className="flex items-center gap-2 text-xs px-3 py-2 theme-text-secondary">
+          <Loader2 size={12} className="animate-spin" /> 正在读取历史...
+        </div>
+      )}
+      {status !== 'loading' && hasMore && (
+        <button onClick={() => loadPage(page + 1)} className="mt-2 text-xs px-3 py-1 rounded hover:bg-white/10 theme-text-accent1">
+          加载更早的记录
+        </button>
+      )}
+
+      {revisions.length > 0 && (
+        <div className="mt-4 pt-4 border-t theme-border-subtle space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-xs theme-text-secondary">
+            <GitCompare size={12} /> 对比
+            <select
+              value={selection?.from?.sha ?? ''}
+              onChange={(e) => selectSide('from', e.target.value)}
+              className="bg-black/30 rounded px-2 py-1 border theme-border-subtle"
+            >
+              {!selection?.from && <option value="">（空文件）</option>}
+              {revisions.map((revision) => (
+                <option key={revision.sha} value={revision.sha}>
+                  {shortSha(revision.sha)} {firstLine(revision.message).slice(0, 30)}
+                </option>
+              ))}
+            </select>
+            →
+            <select
+              value={selection?.to.sha ?? revisions[0].sha}
+              onChange={(e) => selectSide('to', e.target.value)}
+              className="bg-black/30 rounded px-2 py-1 border theme-border-subtle"
+            >
+              {revisions.map((revision) => (
+                <option key={revision.sha} value={revision.sha}>
+                  {shortSha(revision.sha)} {firstLine(revision.message).slice(0, 30)}
+                </option>
+              ))}
+            </select>
+            {!selection && (
+              <button onClick={() => showChanges(0)} className="px-2 py-1 rounded hover:bg-white/10 theme-text-accent1">
+                显示最近一次改动
+              </button>
+            )}
+            {diff && diffStatus === 'idle' && (
+              <span className="ml-auto font-mono">
+                <span className="text-green-400">+{diff.added}</span> <span className="text-red-400">-{diff.removed}</span>
+              </span>
+            )}
+          </div>
+          {diffStatus === 'loading' ? (
+            <div className="flex items-center gap-2 text-xs px-3 theme-text-secondary">
+              <Loader2 size={12} className="animate-spin" /> 正在比较...
+            </div>
+          ) : diffStatus === 'error' ? (
+            <p className="text-xs italic px-3 theme-text-secondary">无法读取所选版本。</p>
+          ) : (
+            selection && diff && <DiffView diff={diff} />
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,128 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Search, X, Loader2 } from 'lucide-react';
+import { DirectoryNode } from '../../../types';
+import { SearchIndex, searchIndex, splitHighlights } from '../../../lib/search';
+import { loadSearchIndex } from '../../../services/searchService';
+import type { ContentSourceId } from '../../../services/contentSource';
+
+interface SearchBoxProps {
+  sourceId: ContentSourceId;
+  onSelect: (node: DirectoryNode) => void;
+}
+
+const QUERY_DEBOUNCE_MS = 150;
+
+const Highlighted: React.FC<{ text: string; highlights: string[] }> = ({ text, highlights }) => (
+  <>
+    {splitHighlights(text, highlights).map((part, idx) =>
+      part.match ? (
+        <mark key={idx} className="bg-amber-400/30 text-amber-200 rounded px-0.5">
+          {part.text}
+        </mark>
+      ) : (
+        <React.Fragment key={idx}>{part.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const SearchBox: React.FC<SearchBoxProps> = ({ sourceId, onSelect }) => {
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+
+  // The index is built lazily, the first time someone actually wants to search
+  const ensureIndex = () => {
+    if (status === 'loading' || status === 'ready') return;
+    setStatus('loading');
+    loadSearchIndex()
+      .then((loaded) => {
+        setIndex(loaded);
+        setStatus('ready');
+      })
+      .catch((e) => {
+        console.error('Failed to build search index', e);
+        setStatus('error');
+      });
+  };
+
+  // Another content source needs a different index
+  useEffect(() => {
+    setIndex(null);
+    setStatus('idle');
+  }, [sourceId]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), QUERY_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const results = useMemo(() => (index && query ? searchIndex(index, query) : []), [index, query]);
+
+  const openResult = (path: string, title: string) => {
+    onSelect({ name: title, type: 'file', path, children: [] });
+  };
+
+  const clear = () => {
+    setInput('');
+    setQuery('');
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center gap-2 px-2 py-1.5 rounded-lg border bg-black/20 theme-border-subtle focus-within:border-amber-500/50">
+        <Search size={14} className="opacity-60 text-amber-400 shrink-0" />
+        <input
+          type="search"
+          value={input}
+          placeholder="搜索笔记..."
+          onFocus={ensureIndex}
+          onChange={(e) => {
+            ensureIndex();
+            setInput(e.target.value);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') clear();
+            if (e.key === 'Enter' && results.length > 0) openResult(results[0].path, results[0].title);
+          }}
+          className="w-full bg-transparent text-sm outline-none theme-text-primary placeholder:opacity-50"
+        />
+        {status === 'loading' && query ? (
+          <Loader2 size={14} className="animate-spin shrink-0 theme-text-secondary" />
+        ) : input ? (
+          <button onClick={clear} title="清除" className="shrink-0 theme-text-secondary hover:opacity-80">
+            <X size={14} />
+          </button>
+        ) : null}
+      </div>
+
+      {query && (
+        <div className="mt-2 space-y-1">
+          {status === 'loading' && <div className="text-xs px-2 italic theme-text-secondary">正在建立索引...</div>}
+          {status === 'error' && <div className="text-xs px-2 italic text-red-400">索引构建失败，请刷新重试。</div>}
+          {status === 'ready' && results.length === 0 && (
+            <div className="text-xs px-2 italic theme-text-secondary">没有找到相关笔记</div>
+          )}
+          {results.map((result) => (
+            <button
+              key={result.path}
+              onClick={() => openResult(result.path, result.title)}
+              className="block w-full text-left px-2 py-2 rounded transition-colors hover:bg-white/5 border-l border-transparent hover:border-amber-500/30"
+            >
+              <div className="text-sm font-bold truncate theme-text-primary">
+                <Highlighted text={result.title} highlights={result.highlights} />
+              </div>
+              <div className="text-[10px] opacity-60 truncate theme-text-secondary">{result.path}</div>
+              <div className="text-xs leading-relaxed line-clamp-2 theme-text-secondary">
+                <Highlighted text={result.snippet} highlights={result.highlights} />
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
@@ -0,0 +1,125 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ListTree } from 'lucide-react';
+import { parseFrontmatter } from '../../../lib/frontmatter';
+import { getHeadings, parseMarkdown } from '../../../lib/markdown';
+import { scrollToAnchor } from './MarkdownBlocks';
+
+interface TableOfContentsProps {
+  content: string; // Raw note text, frontmatter included
+  variant: 'sidebar' | 'inline'; // Sticky column on wide screens, or a collapsible block above the note on narrower ones
+}
+
+// A heading counts as the current section once it scrolls above this line (below the fixed nav bar)
+const ACTIVE_OFFSET = 120;
+
+// Last heading that has scrolled past the offset; the first one while still above it
+const findActiveHeading = (ids: string[]): string | null => {
+  let active: string | null = null;
+  for (const id of ids) {
+    const element = document.getElementById(id);
+    if (!element) continue; // Inside a collapsed callout
+    if (element.getBoundingClientRect().top > ACTIVE_OFFSET) break;
+    active = id;
+  }
+  return active ?? ids[0] ?? null;
+};
+
+// Headings of the open note (h1–h6), highlighting the section being read
+const TableOfContents: React.FC<TableOfContentsProps> = ({ content, variant }) => {
+  // Same parse as ObsidianRenderer, served from the markdown cache, so the IDs match the rendered headings
+  const headings = useMemo(() => getHeadings(parseMarkdown(parseFrontmatter(content).body)), [content]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const listRef = useRef<HTMLOListElement>(null);
+
+  useEffect(() => {
+    const ids = headings.map((heading) => heading.id);
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      setActiveId(findActiveHeading(ids));
+    };
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+    schedule();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+      cancelAnimationFrame(frame);
+    };
+  }, [headings]);
+
+  // Keep the highlighted entry visible when the list is taller than the sidebar
+  useEffect(() => {
+    const list = listRef.current;
+    const item = activeId && list?.querySelector<HTMLElement>(`[data-heading="${CSS.escape(activeId)}"]`);
+    if (!list || !item || variant !== 'sidebar') return;
+    if (item.offsetTop < list.scrollTop || item.offsetTop + item.offsetHeight > list.scrollTop + list.clientHeight) {
+      list.scrollTop = item.offsetTop - list.clientHeight / 2;
+    }
+  }, [activeId, variant]);
+
+  if (headings.length < 2) return null;
+
+  const topLevel = Math.min(...headings.map((heading) => heading.level));
+
+  const list = (
+    <ol
+      ref={listRef}
+      className={`relative space-y-0.5 text-sm ${variant === 'sidebar' ? 'max-h-[calc(100vh-10rem)] overflow-y-auto pr-1' : ''}`}
+    >
+      {headings.map((heading) => {
+        const isActive = heading.id === activeId;
+        return (
+          <li key={heading.id} data-heading={heading.id}>
+            <a
+              href={`#${heading.id}`}
+              onClick={(e) => {
+                e.preventDefault();
+                scrollToAnchor(heading.id);
+              }}
+              style={{ paddingLeft: `${(heading.level - topLevel) * 0.75 + 0.75}rem` }}
+              className={`block py-1 pr-2 border-l-2 truncate transition-colors ${
+                isActive
+                  ? 'border-amber-500 font-bold theme-text-accent1 bg-white/5'
+                  : 'border-transparent opacity-70 hover:opacity-100 theme-text-secondary'
+              }`}
+              title={heading.text}
+            >
+              {heading.text}
+            </a>
+          </li>
+        );
+      })}
+    </ol>
+  );
+
+  if (variant === 'inline') {
+    return (
+      <details className="xl:hidden mb-8 rounded-xl border p-4 theme-border-subtle bg-black/10">
+        <summary className="cursor-pointer text-sm font-bold flex items-center gap-2 theme-text-accent1">
+          <ListTree size={14} /> 目录
+        </summary>
+        <nav className="mt-3" aria-label="目录">
+          {list}
+        </nav>
+      </details>
+    );
+  }
+
+  return (
+    <nav
+      aria-label="目录"
+      className="hidden xl:block w-56 shrink-0 sticky top-24 rounded-xl border p-4 backdrop-blur-md opacity-90 theme-bg-secondary theme-border-subtle"
+    >
+      <h3 className="text-xs font-bold uppercase tracking-wider mb-3 flex items-center gap-2 theme-text-accent1">
+        <ListTree size={14} /> 目录
+      </h3>
+      {list}
+    </nav>
+  );
+};
+
+export default TableOfContents;
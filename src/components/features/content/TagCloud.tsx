@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { Hash, Folder } from 'lucide-react';
+import { BlogPostSummary } from '../../../types';
+import { countTags } from '../../../lib/content';
+import { buildCategoryUrl, buildTagUrl } from '../../../lib/routes';
+
+interface TagCloudProps {
+  posts: BlogPostSummary[];
+  onSelectTag: (tag: string) => void;
+  onSelectCategory: (category: string) => void;
+}
+
+const MIN_FONT_REM = 0.8;
+const MAX_FONT_REM = 1.8;
+
+// Links keep real hrefs so tags can be opened in a new tab; plain clicks stay in the SPA
+const followLink = (e: React.MouseEvent, open: () => void) => {
+  if (e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey) return;
+  e.preventDefault();
+  open();
+};
+
+// Every category and tag with its note count; nested tags are listed under their root tag
+const TagCloud: React.FC<TagCloudProps> = ({ posts, onSelectTag, onSelectCategory }) => {
+  const tagCounts = useMemo(() => countTags(posts), [posts]);
+
+  const categories = useMemo(() => {
+    const counts = new Map<string, number>();
+    posts.forEach((post) => counts.set(post.category, (counts.get(post.category) || 0) + 1));
+    return [...counts.keys()].sort((a, b) => a.localeCompare(b)).map((name) => ({ name, count: counts.get(name)! }));
+  }, [posts]);
+
+  const roots = useMemo(() => {
+    const tags = Object.keys(tagCounts).sort((a, b) => a.localeCompare(b));
+    return tags
+      .filter((tag) => !tag.includes('/'))
+      .map((root) => ({
+        root,
+        children: tags.filter((tag) => tag.toLowerCase().startsWith(`${root.toLowerCase()}/`)),
+      }));
+  }, [tagCounts]);
+
+  // Log scale so one very common tag doesn't flatten the rest
+  const maxLog = Math.log(Math.max(1, ...Object.keys(tagCounts).map((tag) => tagCounts[tag])) + 1);
+  const fontSize = (count: number) =>
+    `${MIN_FONT_REM + (MAX_FONT_REM - MIN_FONT_REM) * (Math.log(count + 1) / maxLog)}rem`;
+
+  return (
+    <div className="rounded-xl border p-6 backdrop-blur-md opacity-90 theme-bg-secondary theme-border-subtle space-y-8">
+      <section>
+        <h3 className="font-bold mb-3 flex items-center gap-2 theme-text-primary">
+          <Folder size={16} className="theme-text-accent1" /> 分类
+        </h3>
+        <div className="flex flex-wrap gap-2">
+          {categories.map(({ name, count }) => (
+            <a
+              key={name}
+              href={buildCategoryUrl(name)}
+              onClick={(e) => followLink(e, () => onSelectCategory(name))}
+              className="text-xs px-2 py-1 rounded border category-badge theme-text-accent3 hover:opacity-80"
+            >
+              {name} <span className="opacity-60">{count}</span>
+            </a>
+          ))}
+        </div>
+      </section>
+
+      <section>
+        <h3 className="font-bold mb-3 flex items-center gap-2 theme-text-primary">
+          <Hash size={16} className="theme-text-accent1" /> 标签
+          <span className="text-xs font-normal theme-text-secondary">{Object.keys(tagCounts).length} 个</span>
+        </h3>
+        {roots.length === 0 ? (
+          <p className="text-sm italic theme-text-secondary">还没有笔记使用标签。</p>
+        ) : (
+          <div className="flex flex-wrap items-baseline gap-x-5 gap-y-3">
+            {roots.map(({ root, children }) => (
+              <div key={root} className="flex flex-wrap items-baseline gap-x-2">
+                <a
+                  href={buildTagUrl(root)}
+                  onClick={(e) => followLink(e, () => onSelectTag(root))}
+                  style={{ fontSize: fontSize(tagCounts[root]) }}
+                  className="font-mono leading-tight transition-opacity hover:opacity-80 theme-text-accent1"
+                  title={`${tagCounts[root]} 篇笔记`}
+                >
+                  #{root}
+                </a>
+                {children.map((tag) => (
+                  <a
+                    key={tag}
+                    href={buildTagUrl(tag)}
+                    onClick={(e) => followLink(e, () => onSelectTag(tag))}
+                    className="font-mono text-xs hover:underline theme-text-secondary"
+                    title={`${tagCounts[tag]} 篇笔记`}
+                  >
+                    /{tag.slice(root.length + 1)}
+                  </a>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default TagCloud;
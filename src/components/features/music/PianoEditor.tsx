@@ -247,9 +247,11 @@ interface PianoEditorProps {
     className?: string;
     isVisible?: boolean; // Stop playback when not visible (page switched)
     onPlaybackChange?: (isPlaying: boolean) => void;  // 新增：通知父组件播放状态变化
+    score?: string | null; // Score file to load, e.g. from the /music/<score> route
+    onScoreChange?: (score: string) => void; // Called instead of loading directly when the user picks a score
 }
 
-const PianoEditor: React.FC<PianoEditorProps> = ({className, isVisible = true, onPlaybackChange}) => {
+const PianoEditor: React.FC<PianoEditorProps> = ({className, isVisible = true, onPlaybackChange, score, onScoreChange}) => {
     // Core state - Note[] displayed in grid, ABC used for playback
     const [notes, setNotes] = useState<Note[]>([]);
     const [currentStep, setCurrentStep] = useState(0); // Start at 0, always visible
@@ -991,6 +993,24 @@ const PianoEditor: React.FC<PianoEditorProps> = ({className, isVisible = true, o
         }
     }, [pausePlayback, updatePlayheadPosition, keyRowIndex]);
 
+    // Load the score requested by the parent (deep link or back/forward navigation)
+    const requestedScoreRef = useRef<string | null>(null);
+    useEffect(() => {
+        if (!score || requestedScoreRef.current === score) return;
+        requestedScoreRef.current = score;
+        loadScore(score);
+    }, [score, loadScore]);
+
+    const selectScore = useCallback((scoreName: string) => {
+        if (onScoreChange && scoreName) {
+            requestedScoreRef.current = null;
+            onScoreChange(scoreName);
+        } else {
+            loadScore(scoreName);
+            if (score) onScoreChange?.('');
+        }
+    }, [onScoreChange, loadScore, score]);
+
     // Toggle note in grid - uses selected duration
     // rowIndex is the index into PIANO_KEYS, step is the horizontal position
     const toggleNote = useCallback((rowIndex: number, step: number) => {
@@ -1033,7 +1053,9 @@ const PianoEditor: React.FC<PianoEditorProps> = ({className, isVisible = true, o
         pushToHistory([]);
         setAbcContent('');
         setSelectedScore('');
-    }, [pausePlayback, updatePlayheadPosition, pushToHistory]);
+        requestedScoreRef.current = null;
+        if (score) onScoreChange?.('');
+    }, [pausePlayback, updatePlayheadPosition, pushToHistory, score, onScoreChange]);
 
     // Drag scroll handlers
     const handleDragStart = useCallback((e: React.MouseEvent) => {
@@ -1228,7 +1250,7 @@ const PianoEditor: React.FC<PianoEditorProps> = ({className, isVisible = true, o
                         {availableScores.length > 0 && (
                             <select
                                 value={selectedScore}
-                                onChange={(e) => loadScore(e.target.value)}
+                                onChange={(e) => selectScore(e.target.value)}
                                 className="px-3 py-1.5 rounded-lg border text-sm piano-input"
                             >
                                 <option value="">加载乐谱...</option>
@@ -13,6 +13,11 @@ import { Project } from '../types';
 export const SITE_CONFIG = {
   // Site title displayed in the header
   title: "魔法Dev",
+  // Public address of the deployed site, used for absolute links in feeds.
+  // SITE_URL overrides it at build time (e.g. for preview deployments).
+  url: "https://blogsweb.vercel.app",
+  // One-line description used by feeds
+  description: "关于渲染、逻辑和神秘艺术的笔记。",
   // Author name
   authorName: "66six11",
   // Author bio (fallback if GitHub profile bio is not available)
@@ -32,6 +37,11 @@ export const GITHUB_CONFIG = {
   repo: "MyNotes",
   // Path inside the repo to look for blog posts (empty for root)
   blogPath: "",
+  // Folder holding images and other attachments embedded with ![[...]]
+  attachmentsPath: "attachments",
+  // Branch, tag or commit SHA to publish from (empty = the repository's default branch).
+  // Can be overridden per visit with ?ref=<branch> to proofread a draft branch.
+  ref: "",
 };
 
 // =================================================================================
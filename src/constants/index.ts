@@ -40,6 +40,7 @@ export const AUTHOR_NAME = SITE_CONFIG.authorName
 export const GITHUB_USERNAME = GITHUB_CONFIG.username
 export const GITHUB_REPO = GITHUB_CONFIG.repo
 export const GITHUB_BLOG_PATH = GITHUB_CONFIG.blogPath
+export const GITHUB_REF = GITHUB_CONFIG.ref
 
 // Assets
 export const BG_MEDIA_URL = MEDIA_CONFIG.backgroundMedia
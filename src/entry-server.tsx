@@ -0,0 +1,25 @@
+import React, { StrictMode } from 'react';
+import { renderToString } from 'react-dom/server';
+import { StaticRouter } from 'react-router-dom';
+import AppRoutes from './AppRoutes';
+import ErrorBoundary from './components/common/ErrorBoundary';
+import { PrerenderedData, setPrerenderedData } from './lib/prerender';
+
+// Server entry used by plugins/prerenderPlugin.ts: renders the same tree as main.tsx for one URL,
+// starting from the given note so the output matches what the browser hydrates.
+export const render = (url: string, data: PrerenderedData): string => {
+  setPrerenderedData(data);
+  try {
+    return renderToString(
+      <ErrorBoundary>
+        <StrictMode>
+          <StaticRouter location={url}>
+            <AppRoutes />
+          </StaticRouter>
+        </StrictMode>
+      </ErrorBoundary>
+    );
+  } finally {
+    setPrerenderedData(undefined);
+  }
+};
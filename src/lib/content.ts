@@ -0,0 +1,286 @@
+import { BlogPost, BlogPostSummary, DirectoryNode, LinkGraph } from '../types';
+import { BLOG_INCLUDED_FOLDERS, EXCLUDED_PATHS, EXCLUDED_FILES } from '../config';
+import { formatFrontmatterWarning, getFrontmatterFields, parseFrontmatter } from './frontmatter';
+
+// Pure helpers turning repository files into blog data.
+// Shared by contentService (in the browser) and the build-time content index plugin (in Node),
+// so this module must not touch window, localStorage or fetch.
+
+// File name of the static index emitted at build time and served from the site root
+export const CONTENT_INDEX_FILE = 'content-index.json';
+// Bumped whenever the ContentIndex shape changes; clients ignore other versions
+export const CONTENT_INDEX_VERSION = 1;
+// Full-text bundle read by the bundle content source
+export const CONTENT_BUNDLE_FILE = 'content-bundle.json';
+export const CONTENT_BUNDLE_VERSION = 1;
+// Dev-server endpoints of the local content source, and the HMR event sent when a note changes
+export const LOCAL_NOTES_PATH = '/__notes';
+export const LOCAL_NOTES_EVENT = 'notes:change';
+
+export interface RepoFile {
+  path: string;
+  sha: string;
+}
+
+// An entry of GitHub's git/trees response (only the fields the blog reads)
+export interface GitHubTreeItem {
+  type: string; // blob, tree or commit
+  path: string;
+  sha: string;
+}
+
+export type PostVisibility = 'published' | 'draft' | 'unpublished' | 'scheduled';
+
+// --- File selection ---
+
+export const isExcluded = (path: string) => {
+  const parts = path.split('/');
+  const fileName = parts[parts.length - 1];
+
+  if (EXCLUDED_FILES.includes(fileName)) return true;
+
+  return parts.some(part =>
+    part.startsWith('.') ||
+    EXCLUDED_PATHS.includes(part)
+  );
+};
+
+export const isIncludedFolder = (path: string) => {
+  if (BLOG_INCLUDED_FOLDERS.length === 0) return true;
+  return BLOG_INCLUDED_FOLDERS.some(folder => path.startsWith(folder));
+};
+
+// Markdown files that belong in the blog
+export const isPublishedNote = (path: string) =>
+  path.endsWith('.md') && !isExcluded(path) && isIncludedFolder(path);
+
+/**
+ * Visibility from frontmatter: `publish: false` and `draft: true` hide a note,
+ * a `published_at` in the future schedules it until that moment.
+ */
+export const getPostVisibility = (
+  post: Pick<BlogPost, 'publish' | 'draft' | 'published_at'>,
+  now = Date.now()
+): PostVisibility => {
+  if (post.publish === false) return 'unpublished';
+  if (post.draft) return 'draft';
+  const publishAt = post.published_at ? Date.parse(post.published_at) : NaN;
+  return publishAt > now ? 'scheduled' : 'published';
+};
+
+// `isVisible` lets callers drop notes whose frontmatter hides them
+export const buildTree = (files: RepoFile[], isVisible: (file: RepoFile) => boolean = () => true): DirectoryNode[] => {
+  const root: DirectoryNode[] = [];
+
+  files.filter(isVisible).forEach(file => {
+    const parts = file.path.split('/');
+    let currentLevel = root;
+
+    parts.forEach((part: string, index: number) => {
+      const isFile = index === parts.length - 1;
+      if (isFile && !part.endsWith('.md')) return;
+
+      let existingNode = currentLevel.find(n => n.name === part);
+
+      if (!existingNode) {
+        const newNode: DirectoryNode = {
+          name: part.replace('.md', ''),
+          type: isFile ? 'file' : 'folder',
+          path: file.path,
+          children: [],
+          fileId: isFile ? file.sha : undefined
+        };
+        currentLevel.push(newNode);
+        existingNode = newNode;
+      }
+
+      if (!isFile) {
+        currentLevel = existingNode.children;
+      }
+    });
+  });
+
+  const sortNodes = (nodes: DirectoryNode[]) => {
+    nodes.sort((a, b) => {
+      if (a.type === b.type) return a.name.localeCompare(b.name);
+      return a.type === 'folder' ? -1 : 1;
+    });
+    nodes.forEach(n => sortNodes(n.children));
+  };
+
+  sortNodes(root);
+  return root;
+};
+
+export const buildPost = (path: string, rawText: string, gitDate: string | null): BlogPost => {
+  const { data, body: rawBody, warnings } = parseFrontmatter(rawText);
+  const { fields, warnings: fieldWarnings } = getFrontmatterFields(data);
+  const body = rawBody.trim();
+
+  const pathParts = path.split('/');
+  const fileName = pathParts[pathParts.length - 1].replace('.md', '');
+  const frontmatterWarnings = [...warnings, ...fieldWarnings].map(formatFrontmatterWarning);
+
+  return {
+    id: path,
+    title: fields.title || fileName,
+    date: gitDate || fields.date || 'Unknown Date',
+    category: fields.category || pathParts[0],
+    tags: mergeTags(fields.tags, extractInlineTags(body)),
+    excerpt: fields.excerpt || body.substring(0, 100) + '...',
+    content: body,
+    path: path,
+    slug: fields.slug || path.replace('.md', '').replace(/\//g, '-'),
+    cover_image: fields.cover_image,
+    published_at: fields.published_at || gitDate || undefined,
+    updated_at: fields.updated_at,
+    author: fields.author,
+    aliases: fields.aliases,
+    cssclasses: fields.cssclasses,
+    draft: fields.draft,
+    publish: fields.publish,
+    frontmatterWarnings: frontmatterWarnings.length > 0 ? frontmatterWarnings : undefined,
+    linkTargets: extractNoteLinks(body)
+  };
+};
+
+// Listing metadata without the body; link targets are kept so the link graph needs no content
+export const summarizePost = ({ content, ...summary }: BlogPost, sha?: string): BlogPostSummary => ({
+  ...summary,
+  linkTargets: summary.linkTargets ?? extractNoteLinks(content),
+  ...(sha ? { sha } : {}),
+});
+
+// --- Links ---
+
+const WIKI_LINK_REGEX = /!?\[\[([^\]|#^]+)(?:[#^][^\]|]*)?(?:\|[^\]]*)?\]\]/g;
+const MARKDOWN_LINK_REGEX = /\[[^\]]*\]\(([^)\s]+?\.md)(?:#[^)]*)?\)/g;
+
+const stripCode = (body: string) =>
+  body.replace(/```[\s\S]*?```/g, '').replace(/`[^`\n]*`/g, '');
+
+/**
+ * Link targets written in a note: `[[Note]]`, `![[Note#Heading]]`, `[[folder/Note|alias]]`
+ * and relative `[text](other.md)` links. Targets are returned as written; see resolveNoteLink().
+ */
+export const extractNoteLinks = (body: string): string[] => {
+  const text = stripCode(body);
+  const targets = new Set<string>();
+
+  for (const match of text.matchAll(WIKI_LINK_REGEX)) {
+    targets.add(match[1].trim());
+  }
+  for (const match of text.matchAll(MARKDOWN_LINK_REGEX)) {
+    if (/^[a-z]+:/i.test(match[1])) continue;
+    try {
+      targets.add(decodeURI(match[1]));
+    } catch {
+      targets.add(match[1]);
+    }
+  }
+  return [...targets];
+};
+
+const normalizeNoteName = (name: string) => name.replace(/\.md$/i, '').toLowerCase();
+
+const joinRelative = (fromPath: string, target: string) => {
+  const parts = fromPath.split('/').slice(0, -1);
+  target.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+/**
+ * Resolve a link target to a note path the way Obsidian does: a full path wins,
+ * then a path relative to the linking note, then the first note with that file name.
+ */
+export const resolveNoteLink = (target: string, fromPath: string, notePaths: string[]): string | null => {
+  const wanted = normalizeNoteName(target);
+  const relative = normalizeNoteName(joinRelative(fromPath, target));
+
+  return notePaths.find(path => normalizeNoteName(path) === wanted)
+    || notePaths.find(path => normalizeNoteName(path) === relative)
+    || notePaths.find(path => normalizeNoteName(path.split('/').pop() || '') === wanted)
+    || null;
+};
+
+/**
+ * Outgoing links and backlinks between notes, both keyed by note path.
+ * `targetsByPath` holds the raw targets of each note (see extractNoteLinks());
+ * links to notes outside it and self-links are dropped.
+ */
+export const buildLinkGraph = (targetsByPath: Record<string, string[]>): LinkGraph => {
+  const notePaths = Object.keys(targetsByPath);
+  const links: Record<string, string[]> = {};
+  const backlinks: Record<string, string[]> = {};
+  notePaths.forEach(path => { backlinks[path] = []; });
+
+  notePaths.forEach(path => {
+    const resolved = targetsByPath[path]
+      .map(target => resolveNoteLink(target, path, notePaths))
+      .filter((target): target is string => target !== null && target !== path);
+    links[path] = [...new Set(resolved)];
+    links[path].forEach(target => backlinks[target].push(path));
+  });
+
+  return { links, backlinks };
+};
+
+// --- Tags ---
+
+/**
+ * Obsidian tag syntax: `#tag` or nested `#graphics/shading`, starting a line or after
+ * whitespace (so headings and URL fragments don't count) and not made of digits only.
+ */
+export const INLINE_TAG_REGEX = /(?<=^|\s)#([\p{L}\p{N}_\-/]*[\p{L}_\-/][\p{L}\p{N}_\-/]*)/gu;
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/^#/, '').replace(/^\/+|\/+$/g, '');
+
+// Tags compare case-insensitively; the first spelling seen is kept
+const mergeTags = (...lists: string[][]): string[] => {
+  const merged = new Map<string, string>();
+  lists.flat().map(normalizeTag).filter(Boolean).forEach(tag => {
+    if (!merged.has(tag.toLowerCase())) merged.set(tag.toLowerCase(), tag);
+  });
+  return [...merged.values()];
+};
+
+// Inline tags from a note body, skipping code and %%comments%%
+export const extractInlineTags = (body: string): string[] => {
+  const text = stripCode(body).replace(/%%[\s\S]*?%%/g, '');
+  return mergeTags([...text.matchAll(INLINE_TAG_REGEX)].map(match => match[1]));
+};
+
+// `graphics` matches notes tagged `graphics` as well as `graphics/shading`
+export const tagMatches = (postTag: string, tag: string) => {
+  const a = normalizeTag(postTag).toLowerCase();
+  const b = normalizeTag(tag).toLowerCase();
+  return a === b || a.startsWith(`${b}/`);
+};
+
+/**
+ * Note counts per tag, with nested tags also counted towards every parent
+ * (`graphics/shading` adds to `graphics`). Keys use the first spelling seen.
+ */
+export const countTags = (posts: { tags: string[] }[]): Record<string, number> => {
+  const spelling = new Map<string, string>();
+  const counts: Record<string, number> = {};
+  posts.forEach(post => {
+    const seen = new Set<string>();
+    post.tags.map(normalizeTag).filter(Boolean).forEach(tag => {
+      const parts = tag.split('/');
+      parts.forEach((_, i) => {
+        const prefix = parts.slice(0, i + 1).join('/');
+        const key = prefix.toLowerCase();
+        if (seen.has(key)) return;
+        seen.add(key);
+        if (!spelling.has(key)) spelling.set(key, prefix);
+        const name = spelling.get(key)!;
+        counts[name] = (counts[name] || 0) + 1;
+      });
+    });
+  });
+  return counts;
+};
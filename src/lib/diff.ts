@@ -0,0 +1,131 @@
+// Line diff between two versions of a note (Myers' O(ND) algorithm), grouped into hunks
+// with a few lines of context the way `git diff` shows them. Pure, like the other lib helpers.
+
+export type DiffLineType = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldLine?: number; // 1-based, absent on added lines
+  newLine?: number; // 1-based, absent on removed lines
+}
+
+export interface DiffHunk {
+  lines: DiffLine[];
+  skippedBefore: number; // Unchanged lines hidden between the previous hunk and this one
+}
+
+export interface DiffResult {
+  hunks: DiffHunk[];
+  skippedAfter: number; // Unchanged lines hidden after the last hunk
+  added: number;
+  removed: number;
+}
+
+const splitLines = (text: string) => (text === '' ? [] : text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n'));
+
+// Shortest edit script between a and b, as the sequence of kept, removed and added lines
+const myers = (a: string[], b: string[]): DiffLineType[] => {
+  const max = a.length + b.length;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= a.length && y >= b.length) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace back from the end, collecting operations in reverse
+  const ops: DiffLineType[] = [];
+  let x = a.length;
+  let y = b.length;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = previous[offset + prevK];
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) ops.push(x === prevX ? 'add' : 'remove');
+    x = prevX;
+    y = prevY;
+  }
+  return ops.reverse();
+};
+
+/**
+ * Every line of both versions, marked as unchanged, removed or added.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix are cheap to strip and usually most of a note
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const ops = [
+    ...new Array<DiffLineType>(start).fill('equal'),
+    ...myers(a.slice(start, a.length - end), b.slice(start, b.length - end)),
+    ...new Array<DiffLineType>(end).fill('equal'),
+  ];
+
+  let oldLine = 0;
+  let newLine = 0;
+  return ops.map(type => {
+    if (type === 'add') return { type, text: b[newLine++], newLine: newLine };
+    if (type === 'remove') return { type, text: a[oldLine++], oldLine: oldLine };
+    newLine++;
+    return { type, text: a[oldLine++], oldLine, newLine };
+  });
+};
+
+/**
+ * Changed lines with `context` unchanged lines around them; longer unchanged runs are
+ * hidden and counted.
+ */
+export const diffHunks = (oldText: string, newText: string, context = 3): DiffResult => {
+  const lines = diffLines(oldText, newText);
+  const changed = lines.map((line, i) => (line.type === 'equal' ? -1 : i)).filter(i => i >= 0);
+
+  const hunks: DiffHunk[] = [];
+  let shownUntil = 0; // Index after the last line already in a hunk
+  changed.forEach(i => {
+    const from = Math.max(i - context, shownUntil);
+    const to = Math.min(i + context + 1, lines.length);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= shownUntil) {
+      last.lines.push(...lines.slice(shownUntil, to));
+    } else {
+      hunks.push({ lines: lines.slice(from, to), skippedBefore: from - shownUntil });
+    }
+    shownUntil = to;
+  });
+
+  return {
+    hunks,
+    skippedAfter: lines.length - shownUntil,
+    added: lines.filter(line => line.type === 'add').length,
+    removed: lines.filter(line => line.type === 'remove').length,
+  };
+};
@@ -0,0 +1,478 @@
+// Frontmatter parsing shared by githubService, the content index plugin and ObsidianRenderer.
+// Implements the YAML subset Obsidian notes actually use: nested maps, block and flow
+// lists, block scalars (| and >), quoted strings, booleans, numbers, null and comments.
+// Anchors, tags and multi-document streams are not supported. Dates stay ISO strings so
+// metadata can be cached as JSON. Problems never throw; they are reported as warnings.
+
+export type FrontmatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontmatterValue[]
+  | { [key: string]: FrontmatterValue };
+
+export type FrontmatterData = Record<string, FrontmatterValue>;
+
+export interface FrontmatterWarning {
+  line: number; // 1-based line in the note, 0 when the whole block is affected
+  message: string;
+}
+
+export interface ParsedFrontmatter {
+  data: FrontmatterData | null; // null when the note has no frontmatter block
+  body: string;
+  warnings: FrontmatterWarning[];
+}
+
+// Typed view of the keys the blog understands
+export interface FrontmatterFields {
+  title?: string;
+  date?: string;
+  category?: string;
+  tags: string[];
+  aliases: string[];
+  cssclasses: string[];
+  draft: boolean;
+  publish?: boolean;
+  excerpt?: string;
+  slug?: string;
+  cover_image?: string;
+  published_at?: string;
+  updated_at?: string;
+  author?: string;
+}
+
+interface Line {
+  number: number;
+  indent: number;
+  text: string; // Without indentation and trailing comment
+}
+
+// --- Scalars ---
+
+const unescapeDoubleQuoted = (value: string) =>
+  value.replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escape: string) => {
+    if (escape[0] === 'u') return String.fromCharCode(parseInt(escape.slice(1), 16));
+    return ({ n: '\n', t: '\t', r: '\r', '0': '\0' } as Record<string, string>)[escape] ?? escape;
+  });
+
+// Length of a quoted scalar starting at value[0], or -1 when the quote never closes
+const quotedLength = (value: string): number => {
+  const quote = value[0];
+  for (let i = 1; i < value.length; i++) {
+    if (quote === '"' && value[i] === '\\') {
+      i++;
+    } else if (value[i] === quote) {
+      if (quote === "'" && value[i + 1] === "'") {
+        i++;
+      } else {
+        return i + 1;
+      }
+    }
+  }
+  return -1;
+};
+
+const parseScalar = (raw: string, line: number, warnings: FrontmatterWarning[]): FrontmatterValue => {
+  const value = raw.trim();
+  if (value === '' || value === '~' || /^null$/i.test(value)) return null;
+
+  if (value[0] === '"' || value[0] === "'") {
+    const length = quotedLength(value);
+    if (length === -1) {
+      warnings.push({ line, message: `Unterminated quoted string: ${value}` });
+      return value.slice(1);
+    }
+    if (value.slice(length).trim()) {
+      warnings.push({ line, message: `Unexpected text after quoted string: ${value}` });
+    }
+    const inner = value.slice(1, length - 1);
+    return value[0] === '"' ? unescapeDoubleQuoted(inner) : inner.replace(/''/g, "'");
+  }
+
+  if (/^(true|false)$/i.test(value)) return value.toLowerCase() === 'true';
+  if (/^[-+]?\d+$/.test(value) && Number.isSafeInteger(Number(value))) return Number(value);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)(e[-+]?\d+)?$/i.test(value)) return Number(value);
+  return value;
+};
+
+// --- Flow collections: [a, b] and {a: 1} ---
+
+const splitFlowItems = (inner: string): string[] => {
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (char === '"' || char === "'") {
+      const length = quotedLength(inner.slice(i));
+      if (length === -1) break;
+      i += length - 1;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      items.push(inner.slice(start, i));
+      start = i + 1;
+    }
+  }
+  items.push(inner.slice(start));
+  return items.map(item => item.trim()).filter(Boolean);
+};
+
+const isFlowBalanced = (value: string) => {
+  let depth = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '"' || char === "'") {
+      const length = quotedLength(value.slice(i));
+      if (length === -1) return false;
+      i += length - 1;
+    } else if (char === '[' || char === '{') {
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+    }
+  }
+  return depth <= 0;
+};
+
+// Index of the `key: value` separator, ignoring colons inside quotes and URLs like http://x
+const findKeySeparator = (text: string): number => {
+  let i = 0;
+  if (text[0] === '"' || text[0] === "'") {
+    const length = quotedLength(text);
+    if (length === -1) return -1;
+    i = length;
+  }
+  for (; i < text.length; i++) {
+    if (text[i] === ':' && (i === text.length - 1 || text[i + 1] === ' ')) return i;
+  }
+  return -1;
+};
+
+const parseKey = (raw: string, line: number, warnings: FrontmatterWarning[]) => String(parseScalar(raw, line, warnings));
+
+const parseFlow = (value: string, line: number, warnings: FrontmatterWarning[]): FrontmatterValue => {
+  const trimmed = value.trim();
+  const close = trimmed[0] === '[' ? ']' : '}';
+  if (trimmed[trimmed.length - 1] !== close) {
+    warnings.push({ line, message: `Unclosed flow collection: ${trimmed}` });
+  }
+  const inner = trimmed.slice(1, trimmed[trimmed.length - 1] === close ? -1 : undefined);
+  const items = splitFlowItems(inner);
+
+  const parseItem = (item: string) =>
+    item[0] === '[' || item[0] === '{' ? parseFlow(item, line, warnings) : parseScalar(item, line, warnings);
+
+  if (close === ']') return items.map(parseItem);
+
+  const map: { [key: string]: FrontmatterValue } = {};
+  items.forEach(item => {
+    const separator = findKeySeparator(item);
+    if (separator === -1) {
+      map[parseKey(item, line, warnings)] = null;
+    } else {
+      map[parseKey(item.slice(0, separator), line, warnings)] = parseItem(item.slice(separator + 1).trim());
+    }
+  });
+  return map;
+};
+
+// --- Block structure ---
+
+const stripComment = (text: string): string => {
+  if (text.startsWith('#')) return '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '"' || char === "'") {
+      // Only quotes opening a scalar count; apostrophes inside words do not
+      if (i > 0 && !/[\s:\[{,-]/.test(text[i - 1])) continue;
+      const length = quotedLength(text.slice(i));
+      if (length === -1) return text;
+      i += length - 1;
+    } else if (char === '#' && /\s/.test(text[i - 1])) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+};
+
+class BlockParser {
+  private position = 0;
+
+  constructor(
+    private readonly lines: Line[],
+    private readonly rawLines: string[],
+    private readonly lineOffset: number,
+    private readonly warnings: FrontmatterWarning[],
+  ) {}
+
+  parseDocument(): FrontmatterData {
+    if (this.lines.length === 0) return {};
+    const first = this.lines[0];
+    if (this.isSequenceItem(first)) {
+      this.warn(first.number, 'Frontmatter must be a map of keys, not a list');
+      return {};
+    }
+    const data = this.parseMap(first.indent);
+    while (this.position < this.lines.length) {
+      const line = this.lines[this.position++];
+      this.warn(line.number, `Unexpected indentation: ${line.text}`);
+    }
+    return data;
+  }
+
+  private warn(line: number, message: string) {
+    this.warnings.push({ line, message });
+  }
+
+  private peek(): Line | undefined {
+    return this.lines[this.position];
+  }
+
+  private isSequenceItem(line: Line) {
+    return line.text === '-' || line.text.startsWith('- ');
+  }
+
+  private parseBlock(indent: number): FrontmatterValue {
+    const line = this.peek();
+    if (!line || line.indent < indent) return null;
+    return this.isSequenceItem(line) ? this.parseSequence(line.indent) : this.parseMap(line.indent);
+  }
+
+  private parseMap(indent: number): { [key: string]: FrontmatterValue } {
+    const map: { [key: string]: FrontmatterValue } = {};
+
+    for (let line = this.peek(); line && line.indent === indent && !this.isSequenceItem(line); line = this.peek()) {
+      this.position++;
+      const separator = findKeySeparator(line.text);
+      if (separator === -1) {
+        this.warn(line.number, `Expected "key: value", got: ${line.text}`);
+        continue;
+      }
+
+      const key = parseKey(line.text.slice(0, separator), line.number, this.warnings);
+      if (Object.prototype.hasOwnProperty.call(map, key)) {
+        this.warn(line.number, `Duplicate key "${key}"; the last value wins`);
+      }
+      map[key] = this.parseValue(line.text.slice(separator + 1).trim(), line, indent);
+    }
+
+    return map;
+  }
+
+  private parseSequence(indent: number): FrontmatterValue[] {
+    const items: FrontmatterValue[] = [];
+
+    for (let line = this.peek(); line && line.indent === indent && this.isSequenceItem(line); line = this.peek()) {
+      this.position++;
+      const rest = line.text.slice(1).trimStart();
+      const itemIndent = indent + (line.text.length - rest.length);
+
+      if (rest && findKeySeparator(rest) !== -1 && rest[0] !== '[' && rest[0] !== '{') {
+        // "- key: value" starts a map whose other keys are aligned with "key"
+        this.lines.splice(this.position, 0, { number: line.number, indent: itemIndent, text: rest });
+        items.push(this.parseMap(itemIndent));
+      } else {
+        items.push(this.parseValue(rest, line, indent));
+      }
+    }
+
+    return items;
+  }
+
+  // Value after "key:" or "- ", possibly continuing on the following, deeper indented lines
+  private parseValue(value: string, line: Line, parentIndent: number): FrontmatterValue {
+    const next = this.peek();
+
+    if (value === '') {
+      if (!next) return null;
+      // A list may sit at the same indentation as its key
+      if (next.indent > parentIndent || (next.indent === parentIndent && this.isSequenceItem(next) && !this.isSequenceItem(line))) {
+        return this.parseBlock(next.indent);
+      }
+      return null;
+    }
+
+    if (/^[|>][-+]?$/.test(value)) return this.parseBlockScalar(value, line, parentIndent);
+
+    if (value[0] === '[' || value[0] === '{') {
+      let flow = value;
+      while (!isFlowBalanced(flow) && this.peek() && this.peek()!.indent > parentIndent) {
+        flow += ' ' + this.lines[this.position++].text;
+      }
+      return parseFlow(flow, line.number, this.warnings);
+    }
+
+    // Plain or quoted scalars may wrap onto deeper indented lines
+    let scalar = value;
+    while (this.peek() && this.peek()!.indent > parentIndent) {
+      scalar += ' ' + this.lines[this.position++].text;
+    }
+    return parseScalar(scalar, line.number, this.warnings);
+  }
+
+  // "|" keeps line breaks, ">" folds them into spaces; "-" strips and "+" keeps trailing newlines
+  private parseBlockScalar(header: string, line: Line, parentIndent: number): string {
+    const collected: string[] = [];
+    let blockIndent = -1;
+    let rawIndex = line.number - this.lineOffset + 1;
+
+    // Read raw lines so blank lines, indentation and "#" inside the text survive
+    for (; rawIndex < this.rawLines.length; rawIndex++) {
+      const raw = this.rawLines[rawIndex];
+      if (raw.trim() === '') {
+        collected.push('');
+        continue;
+      }
+      const indent = raw.length - raw.trimStart().length;
+      if (indent <= parentIndent || (blockIndent !== -1 && indent < blockIndent)) break;
+      if (blockIndent === -1) blockIndent = indent;
+      collected.push(raw.slice(blockIndent));
+    }
+
+    const lastNumber = rawIndex - 1 + this.lineOffset;
+    while (this.peek() && this.peek()!.number <= lastNumber) this.position++;
+
+    let trailingBlankLines = 0;
+    while (collected.length > 0 && collected[collected.length - 1] === '') {
+      collected.pop();
+      trailingBlankLines++;
+    }
+
+    const text = header[0] === '|'
+      ? collected.join('\n')
+      : collected.reduce((folded, current, index) => {
+          if (index === 0) return current;
+          if (current === '') return `${folded}\n`;
+          return collected[index - 1] === '' ? `${folded}${current}` : `${folded} ${current}`;
+        }, '');
+
+    if (header.endsWith('-')) return text;
+    return header.endsWith('+') ? `${text}\n${'\n'.repeat(trailingBlankLines)}` : `${text}\n`;
+  }
+}
+
+/**
+ * Parse a YAML-subset document. `firstLine` is the note line the document starts on,
+ * used for warning positions.
+ */
+export const parseYaml = (yaml: string, firstLine = 1): { data: FrontmatterData, warnings: FrontmatterWarning[] } => {
+  const warnings: FrontmatterWarning[] = [];
+  const rawLines = yaml.split(/\r?\n/);
+  const lines: Line[] = [];
+
+  rawLines.forEach((raw, index) => {
+    const number = index + firstLine;
+    const leading = raw.match(/^[ \t]*/)![0];
+    if (leading.includes('\t')) {
+      warnings.push({ line: number, message: 'Tabs are not allowed for indentation' });
+    }
+    const text = stripComment(raw.trim());
+    if (text) lines.push({ number, indent: leading.replace(/\t/g, '  ').length, text });
+  });
+
+  const data = new BlockParser(lines, rawLines, firstLine, warnings).parseDocument();
+  return { data, warnings };
+};
+
+const FRONTMATTER_OPEN = /^\uFEFF?---[ \t]*\r?\n/;
+const FRONTMATTER_CLOSE = /^(?:---|\.\.\.)[ \t]*$/m;
+
+/**
+ * Split a note into its frontmatter block and body. Only a `---` on the very first line
+ * opens frontmatter; a block that is never closed is reported and left in the body.
+ */
+export const parseFrontmatter = (text: string): ParsedFrontmatter => {
+  const open = text.match(FRONTMATTER_OPEN);
+  if (!open) return { data: null, body: text, warnings: [] };
+
+  const rest = text.slice(open[0].length);
+  const close = rest.match(FRONTMATTER_CLOSE);
+  if (!close || close.index === undefined) {
+    return { data: null, body: text, warnings: [{ line: 1, message: 'Frontmatter block is never closed with ---' }] };
+  }
+
+  const yaml = rest.slice(0, close.index).replace(/\r?\n$/, '');
+  const body = rest.slice(close.index + close[0].length).replace(/^\r?\n/, '');
+  const { data, warnings } = parseYaml(yaml, 2);
+  return { data, body, warnings };
+};
+
+// --- Typed fields ---
+
+const asString = (value: FrontmatterValue | undefined): string | undefined => {
+  if (value === null || value === undefined || typeof value === 'object') return undefined;
+  return String(value);
+};
+
+// Obsidian accepts lists, "a, b" and "#a #b" for list-like properties
+const asStringList = (value: FrontmatterValue | undefined, stripHash = false): string[] => {
+  if (value === null || value === undefined) return [];
+  const items = Array.isArray(value)
+    ? value.map(asString).filter((item): item is string => item !== undefined)
+    : typeof value === 'object' ? [] : String(value).split(stripHash ? /[,\s]+/ : /,/);
+  return items
+    .map(item => (stripHash ? item.trim().replace(/^#/, '') : item.trim()))
+    .filter(Boolean);
+};
+
+const asBoolean = (value: FrontmatterValue | undefined): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string' && /^(yes|no|on|off)$/i.test(value)) return /^(yes|on)$/i.test(value);
+  return undefined;
+};
+
+const DATE_KEYS = ['date', 'published_at', 'updated_at'] as const;
+
+/**
+ * Pick the properties the blog understands out of parsed frontmatter.
+ * Values of the wrong shape are ignored with a warning instead of leaking into the UI.
+ */
+export const getFrontmatterFields = (data: FrontmatterData | null): { fields: FrontmatterFields, warnings: FrontmatterWarning[] } => {
+  const warnings: FrontmatterWarning[] = [];
+  const source = data || {};
+  const expect = (key: string, type: string) => warnings.push({ line: 0, message: `"${key}" should be ${type}` });
+
+  const text = (key: string) => {
+    const value = asString(source[key]);
+    if (source[key] != null && value === undefined) expect(key, 'a single value');
+    return value;
+  };
+  const flag = (key: string) => {
+    const value = asBoolean(source[key]);
+    if (source[key] != null && value === undefined) expect(key, 'true or false');
+    return value;
+  };
+
+  const fields: FrontmatterFields = {
+    title: text('title'),
+    date: text('date'),
+    category: text('category'),
+    tags: asStringList(source.tags ?? source.tag, true),
+    aliases: asStringList(source.aliases ?? source.alias),
+    cssclasses: asStringList(source.cssclasses ?? source.cssclass, true),
+    draft: flag('draft') ?? false,
+    publish: flag('publish'),
+    excerpt: text('excerpt') ?? text('description'),
+    slug: text('slug'),
+    cover_image: text('cover_image') ?? text('cover'),
+    published_at: text('published_at'),
+    updated_at: text('updated_at'),
+    author: text('author'),
+  };
+
+  DATE_KEYS.forEach(key => {
+    if (fields[key] && Number.isNaN(Date.parse(fields[key]!))) {
+      expect(key, 'a date such as 2024-01-31');
+    }
+  });
+
+  return { fields, warnings };
+};
+
+export const formatFrontmatterWarning = ({ line, message }: FrontmatterWarning) =>
+  line > 0 ? `line ${line}: ${message}` : message;
@@ -0,0 +1,102 @@
+// Small force-directed layout for the note graph (no dependency on d3).
+// Nodes repel each other, links pull like springs, and every node is weakly pulled
+// towards the centre of its folder's cluster so folders form visible groups.
+
+export interface GraphNodeInput {
+  id: string;
+  group: string;
+}
+
+export interface GraphLinkInput {
+  source: string;
+  target: string;
+}
+
+export interface LaidOutNode extends GraphNodeInput {
+  x: number;
+  y: number;
+}
+
+interface SimNode extends LaidOutNode {
+  vx: number;
+  vy: number;
+}
+
+const ITERATIONS = 300;
+const REPULSION = 1800;
+const LINK_DISTANCE = 60;
+const LINK_STRENGTH = 0.05;
+const GROUP_STRENGTH = 0.01;
+const DAMPING = 0.85;
+
+// Deterministic pseudo-random start so the layout doesn't jump between renders
+const seeded = (seed: number) => () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+export const layoutGraph = (
+  nodes: GraphNodeInput[],
+  links: GraphLinkInput[],
+  radius = 300
+): LaidOutNode[] => {
+  const random = seeded(42);
+  const groups = [...new Set(nodes.map(node => node.group))];
+  const groupCentres = new Map(groups.map((group, i) => {
+    const angle = (i / Math.max(1, groups.length)) * Math.PI * 2;
+    const distance = groups.length > 1 ? radius * 0.6 : 0;
+    return [group, { x: Math.cos(angle) * distance, y: Math.sin(angle) * distance }];
+  }));
+
+  const sim: SimNode[] = nodes.map(node => {
+    const centre = groupCentres.get(node.group)!;
+    return { ...node, x: centre.x + (random() - 0.5) * 100, y: centre.y + (random() - 0.5) * 100, vx: 0, vy: 0 };
+  });
+  const byId = new Map(sim.map(node => [node.id, node]));
+  const edges = links
+    .map(link => [byId.get(link.source), byId.get(link.target)] as const)
+    .filter((edge): edge is readonly [SimNode, SimNode] => !!edge[0] && !!edge[1]);
+
+  for (let step = 0; step < ITERATIONS; step++) {
+    const cooling = 1 - step / ITERATIONS;
+
+    for (let i = 0; i < sim.length; i++) {
+      for (let j = i + 1; j < sim.length; j++) {
+        const a = sim[i];
+        const b = sim[j];
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distanceSq = Math.max(dx * dx + dy * dy, 25);
+        const force = REPULSION / distanceSq;
+        const distance = Math.sqrt(distanceSq);
+        a.vx += (dx / distance) * force;
+        a.vy += (dy / distance) * force;
+        b.vx -= (dx / distance) * force;
+        b.vy -= (dy / distance) * force;
+      }
+    }
+
+    edges.forEach(([a, b]) => {
+      const dx = b.x - a.x;
+      const dy = b.y - a.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1;
+      const force = (distance - LINK_DISTANCE) * LINK_STRENGTH;
+      a.vx += (dx / distance) * force;
+      a.vy += (dy / distance) * force;
+      b.vx -= (dx / distance) * force;
+      b.vy -= (dy / distance) * force;
+    });
+
+    sim.forEach(node => {
+      const centre = groupCentres.get(node.group)!;
+      node.vx += (centre.x - node.x) * GROUP_STRENGTH;
+      node.vy += (centre.y - node.y) * GROUP_STRENGTH;
+      node.vx *= DAMPING;
+      node.vy *= DAMPING;
+      node.x += node.vx * cooling;
+      node.y += node.vy * cooling;
+    });
+  }
+
+  return sim.map(({ vx, vy, ...node }) => node);
+};
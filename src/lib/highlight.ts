@@ -0,0 +1,345 @@
+// Offline syntax highlighting for fenced code blocks: a small rule-based tokenizer per
+// language family (C/C++, HLSL/GLSL/ShaderLab, C#, JS/TS, JSON, Python, shell) plus
+// line-based `diff` blocks, and the fence options that go with them.
+
+export type TokenType =
+  | 'plain'
+  | 'comment'
+  | 'string'
+  | 'number'
+  | 'keyword'
+  | 'type'
+  | 'builtin'
+  | 'function'
+  | 'preprocessor'
+  | 'operator'
+  | 'punctuation';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+export type DiffKind = 'add' | 'remove' | 'hunk';
+
+export interface HighlightedLine {
+  tokens: Token[];
+  diff?: DiffKind; // Only in diff blocks
+}
+
+interface Language {
+  // Tried in order at each position; the first match wins
+  rules: [TokenType | 'identifier', RegExp][];
+  keywords: Set<string>;
+  types: Set<string>;
+  builtins: Set<string>;
+  pascalCaseTypes?: boolean; // Treat capitalized identifiers as type names
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const sticky = (pattern: RegExp) => new RegExp(pattern.source, `${pattern.flags.replace('y', '')}y`);
+
+const C_COMMENTS: [TokenType, RegExp][] = [
+  ['comment', /\/\/.*/],
+  ['comment', /\/\*[\s\S]*?(?:\*\/|$)/],
+];
+
+const C_LIKE_TAIL: [TokenType | 'identifier', RegExp][] = [
+  ['number', /(?:0x[\da-f']+|0b[01']+|(?:\d[\d']*\.?[\d']*|\.\d[\d']*)(?:e[+-]?\d+)?)[a-z]*/i],
+  ['identifier', /[A-Za-z_]\w*/],
+  ['operator', /[+\-*/%=&|^!<>~?:]+/],
+  ['punctuation', /[{}()[\];,.]/],
+];
+
+const C_STRINGS: [TokenType, RegExp][] = [
+  ['string', /"(?:\\.|[^"\\\n])*"?/],
+  ['string', /'(?:\\.|[^'\\\n])*'?/],
+];
+
+const PREPROCESSOR: [TokenType, RegExp] = ['preprocessor', /(?<=^|\n)[ \t]*#[ \t]*[A-Za-z_]+/];
+
+const CPP_KEYWORDS = words(`
+  alignas alignof asm break case catch class const consteval constexpr constinit const_cast continue
+  co_await co_return co_yield decltype default delete do dynamic_cast else enum explicit export extern
+  final for friend goto if inline mutable namespace new noexcept operator override private protected
+  public register reinterpret_cast requires return sizeof static static_assert static_cast struct
+  switch template this thread_local throw try typedef typeid typename union using virtual volatile while
+`);
+
+const CPP_TYPES = words(`
+  auto bool char char8_t char16_t char32_t double float int long short signed unsigned void wchar_t
+  size_t ptrdiff_t int8_t int16_t int32_t int64_t uint8_t uint16_t uint32_t uint64_t intptr_t uintptr_t
+  string vector map unordered_map set unordered_set array span string_view unique_ptr shared_ptr weak_ptr
+  optional variant tuple pair function
+`);
+
+const SHADER_KEYWORDS = words(`
+  break case cbuffer centroid class const continue default discard do else export extern for groupshared
+  if in inline inout interface linear namespace nointerpolation noperspective out packoffset precise
+  register return sample shared static struct switch tbuffer typedef uniform volatile while
+  attribute varying layout precision highp mediump lowp flat smooth invariant subroutine buffer coherent
+  readonly writeonly restrict
+  Shader Properties SubShader Pass Tags Name LOD Fallback CustomEditor Category UsePass GrabPass
+  CGPROGRAM ENDCG HLSLPROGRAM ENDHLSL CGINCLUDE HLSLINCLUDE Cull ZWrite ZTest Blend BlendOp ColorMask
+  Stencil Offset AlphaToMask On Off Back Front
+`);
+
+const SHADER_TYPES = words(`
+  void bool int uint dword half float double min16float min10float min16int min12int min16uint
+  bool1 bool2 bool3 bool4 int1 int2 int3 int4 uint1 uint2 uint3 uint4 half1 half2 half3 half4
+  float1 float2 float3 float4 double2 double3 double4 half2x2 half3x3 half4x4 float2x2 float3x3 float4x4
+  float3x4 float4x3 fixed fixed2 fixed3 fixed4 fixed3x3 fixed4x4
+  vec2 vec3 vec4 ivec2 ivec3 ivec4 uvec2 uvec3 uvec4 bvec2 bvec3 bvec4 dvec2 dvec3 dvec4
+  mat2 mat3 mat4 mat2x2 mat3x3 mat4x4 mat2x3 mat3x4 mat4x3
+  sampler sampler1D sampler2D sampler3D samplerCUBE samplerCube sampler2DShadow sampler2DArray
+  SamplerState SamplerComparisonState Texture1D Texture2D Texture3D TextureCube Texture2DArray
+  RWTexture2D RWTexture3D Buffer RWBuffer StructuredBuffer RWStructuredBuffer ByteAddressBuffer
+  RWByteAddressBuffer AppendStructuredBuffer ConsumeStructuredBuffer image2D
+`);
+
+const SHADER_BUILTINS = words(`
+  abs acos all any asin atan atan2 ceil clamp clip cos cosh cross ddx ddy degrees determinant distance dot
+  exp exp2 faceforward floor fmod frac fract fwidth inversesqrt isinf isnan ldexp length lerp log log2 mad
+  max min mix mod modf mul normalize pow radians rcp reflect refract round rsqrt saturate sign sin sincos
+  sinh smoothstep sqrt step tan tanh tex2D tex2Dlod tex3D texCUBE texture textureLod texelFetch transpose
+  trunc Sample SampleLevel SampleCmp Load GetDimensions
+  true false
+  gl_Position gl_FragCoord gl_FragColor gl_FragDepth gl_VertexID gl_InstanceID gl_GlobalInvocationID
+  gl_LocalInvocationID gl_WorkGroupID
+  UNITY_MATRIX_MVP UNITY_MATRIX_MV UNITY_MATRIX_V UNITY_MATRIX_P UNITY_MATRIX_VP unity_ObjectToWorld
+  unity_WorldToObject _Time _WorldSpaceCameraPos _MainTex _Color
+`);
+
+const CSHARP_KEYWORDS = words(`
+  abstract as base break case catch checked class const continue default delegate do else enum event
+  explicit extern finally fixed for foreach goto if implicit in interface internal is lock namespace new
+  operator out override params private protected public readonly ref return sealed sizeof stackalloc
+  static struct switch this throw try typeof unchecked unsafe using virtual volatile while
+  async await var get set init value yield record when where with nameof partial global
+`);
+
+const CSHARP_TYPES = words(`
+  bool byte sbyte char decimal double float int uint long ulong short ushort object string void dynamic nint nuint
+`);
+
+const JS_KEYWORDS = words(`
+  async await break case catch class const continue debugger default delete do else export extends
+  finally for from function if import in instanceof let new of return static super switch this throw
+  try typeof var void while with yield as implements interface keyof namespace private protected public
+  readonly type declare enum abstract satisfies
+`);
+
+const JS_TYPES = words(`any boolean never number object string symbol unknown bigint`);
+
+const LITERALS = words(`true false null undefined nullptr NULL None True False this self`);
+
+const PYTHON_KEYWORDS = words(`
+  and as assert async await break class continue def del elif else except finally for from global if
+  import in is lambda nonlocal not or pass raise return try while with yield match case
+`);
+
+const SHELL_KEYWORDS = words(`
+  if then else elif fi case esac for while until do done in function select return exit export local
+  readonly source alias echo cd set unset shift
+`);
+
+const cpp: Language = {
+  rules: [...C_COMMENTS, PREPROCESSOR, ...C_STRINGS, ...C_LIKE_TAIL],
+  keywords: CPP_KEYWORDS,
+  types: CPP_TYPES,
+  builtins: LITERALS,
+};
+
+const shader: Language = {
+  rules: [...C_COMMENTS, PREPROCESSOR, ...C_STRINGS, ['builtin', /\bSV_\w+/], ...C_LIKE_TAIL],
+  keywords: SHADER_KEYWORDS,
+  types: SHADER_TYPES,
+  builtins: SHADER_BUILTINS,
+};
+
+const csharp: Language = {
+  rules: [
+    ...C_COMMENTS,
+    PREPROCESSOR,
+    ['string', /[$@]{1,2}"(?:""|\\.|[^"\\])*"?/],
+    ...C_STRINGS,
+    ...C_LIKE_TAIL,
+  ],
+  keywords: CSHARP_KEYWORDS,
+  types: CSHARP_TYPES,
+  builtins: LITERALS,
+  pascalCaseTypes: true,
+};
+
+const javascript: Language = {
+  rules: [...C_COMMENTS, ['string', /`(?:\\[\s\S]|[^`\\])*`?/], ...C_STRINGS, ...C_LIKE_TAIL],
+  keywords: JS_KEYWORDS,
+  types: JS_TYPES,
+  builtins: LITERALS,
+  pascalCaseTypes: true,
+};
+
+const json: Language = {
+  rules: [...C_STRINGS, ...C_LIKE_TAIL],
+  keywords: new Set(),
+  types: new Set(),
+  builtins: LITERALS,
+};
+
+const python: Language = {
+  rules: [
+    ['comment', /#.*/],
+    ['string', /[rbfu]{0,2}("""|''')[\s\S]*?(?:\1|$)/i],
+    ['string', /[rbfu]{0,2}"(?:\\.|[^"\\\n])*"?/i],
+    ['string', /[rbfu]{0,2}'(?:\\.|[^'\\\n])*'?/i],
+    ['preprocessor', /@[\w.]+/],
+    ...C_LIKE_TAIL,
+  ],
+  keywords: PYTHON_KEYWORDS,
+  types: words('int float str bool list dict set tuple bytes object'),
+  builtins: LITERALS,
+  pascalCaseTypes: true,
+};
+
+const shell: Language = {
+  rules: [
+    ['comment', /(?<=^|\s)#.*/],
+    ['string', /"(?:\\.|[^"\\])*"?/],
+    ['string', /'[^']*'?/],
+    ['builtin', /\$\{?[\w@#?$!*-]+\}?/],
+    ['number', /\b\d+\b/],
+    ['identifier', /[A-Za-z_][\w-]*/],
+    ['operator', /[|&;<>=!]+/],
+    ['punctuation', /[{}()[\]]/],
+  ],
+  keywords: SHELL_KEYWORDS,
+  types: new Set(),
+  builtins: words('true false'),
+};
+
+const LANGUAGES: Record<string, Language> = {
+  c: cpp, h: cpp, cpp, 'c++': cpp, cc: cpp, cxx: cpp, hpp: cpp, hxx: cpp, cuda: cpp, cu: cpp, objc: cpp,
+  hlsl: shader, glsl: shader, shader, shaderlab: shader, cg: shader, compute: shader, fx: shader,
+  vert: shader, frag: shader, usf: shader, ush: shader, metal: shader, wgsl: shader,
+  csharp, cs: csharp, 'c#': csharp,
+  javascript, js: javascript, jsx: javascript, typescript: javascript, ts: javascript, tsx: javascript,
+  json, jsonc: json,
+  python, py: python,
+  bash: shell, sh: shell, shell, zsh: shell, console: shell,
+};
+
+const compiled = new Map<Language, [TokenType | 'identifier', RegExp][]>();
+
+const rulesOf = (language: Language) => {
+  if (!compiled.has(language)) compiled.set(language, language.rules.map(([type, pattern]) => [type, sticky(pattern)]));
+  return compiled.get(language)!;
+};
+
+const classifyIdentifier = (language: Language, word: string, code: string, end: number): TokenType => {
+  if (language.keywords.has(word)) return 'keyword';
+  if (language.types.has(word)) return 'type';
+  if (language.builtins.has(word)) return 'builtin';
+  if (/^\s*\(/.test(code.slice(end, end + 40))) return 'function';
+  if (language.pascalCaseTypes && /^[A-Z][a-z0-9]+[A-Za-z0-9]*$/.test(word)) return 'type';
+  return 'plain';
+};
+
+const tokenize = (code: string, language: Language): Token[] => {
+  const rules = rulesOf(language);
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last?.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  while (i < code.length) {
+    let matched = false;
+    for (const [type, pattern] of rules) {
+      pattern.lastIndex = i;
+      const match = pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+      const text = match[0];
+      push(type === 'identifier' ? classifyIdentifier(language, text, code, i + text.length) : type, text);
+      i += text.length;
+      matched = true;
+      break;
+    }
+    if (!matched) push('plain', code[i++]);
+  }
+  return tokens;
+};
+
+// Tokens that span several lines (block comments, template strings) are cut at each newline
+const splitLines = (tokens: Token[]): Token[][] => {
+  const lines: Token[][] = [[]];
+  tokens.forEach(token => {
+    token.text.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, text: part });
+    });
+  });
+  return lines;
+};
+
+const plainLines = (code: string): Token[][] => code.split('\n').map(line => (line ? [{ type: 'plain', text: line }] : []));
+
+const highlightTokens = (code: string, lang: string): Token[][] => {
+  const language = LANGUAGES[lang];
+  return language ? splitLines(tokenize(code, language)) : plainLines(code);
+};
+
+/**
+ * Highlight a code block line by line. `diff` blocks mark added, removed and hunk lines;
+ * `diff-<lang>` (e.g. diff-cpp) also highlights the code after the +/- column.
+ */
+export const highlightCode = (code: string, lang: string): HighlightedLine[] => {
+  if (lang !== 'diff' && !lang.startsWith('diff-')) {
+    return highlightTokens(code, lang).map(tokens => ({ tokens }));
+  }
+
+  const lines = code.split('\n');
+  const kinds = lines.map((line): DiffKind | undefined => {
+    if (line.startsWith('@@')) return 'hunk';
+    if (line.startsWith('+') && !line.startsWith('+++')) return 'add';
+    if (line.startsWith('-') && !line.startsWith('---')) return 'remove';
+    return undefined;
+  });
+  // The body of every line is highlighted as one piece, so comments spanning lines still work
+  const markers = lines.map((line, i) => (kinds[i] === 'hunk' ? line : line.slice(0, 1)));
+  const bodies = highlightTokens(lines.map((line, i) => line.slice(markers[i].length)).join('\n'), lang.slice('diff-'.length));
+
+  return lines.map((_, i) => ({
+    tokens: [...(markers[i] ? [{ type: kinds[i] === 'hunk' ? 'comment' : 'punctuation', text: markers[i] } as Token] : []), ...bodies[i]],
+    diff: kinds[i],
+  }));
+};
+
+export interface CodeOptions {
+  title?: string;
+  highlightedLines: Set<number>; // 1-based
+  showLineNumbers: boolean;
+}
+
+/**
+ * Options from the rest of the fence's info string:
+ * ```cpp {3-5,8} title="Lit.shader" showLineNumbers
+ */
+export const parseCodeOptions = (meta: string): CodeOptions => {
+  const highlightedLines = new Set<number>();
+  const ranges = meta.match(/\{([\d\s,-]+)\}/);
+  ranges?.[1].split(',').forEach(range => {
+    const [from, to = from] = range.split('-').map(part => Number(part.trim()));
+    if (!Number.isInteger(from) || !Number.isInteger(to)) return;
+    for (let line = from; line <= Math.min(to, from + 10000); line++) highlightedLines.add(line);
+  });
+
+  const title = meta.match(/title=(?:"([^"]*)"|'([^']*)'|(\S+))/);
+  return {
+    title: title ? title[1] ?? title[2] ?? title[3] : undefined,
+    highlightedLines,
+    showLineNumbers: /(?:^|\s)(?:showLineNumbers|lineNumbers|linenums)(?:\s|$)/.test(meta),
+  };
+};
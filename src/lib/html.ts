@@ -0,0 +1,189 @@
+// Raw HTML written in notes, reduced to an allowlist before it reaches the renderer.
+// Known-safe tags keep a few harmless attributes; scripts, styles, frames and forms are
+// removed together with their content; any other tag is unwrapped to its content.
+// Event handlers, style attributes and javascript:/data: URLs never get through.
+
+export interface HtmlElement {
+  tag: string;
+  attributes: Record<string, string>;
+  children: HtmlContent[];
+}
+
+export type HtmlContent = HtmlElement | string;
+
+// Inline tags; markdown inside them is still parsed
+export const INLINE_HTML_TAGS = new Set([
+  'a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'del', 'dfn', 'em', 'i', 'img', 'ins', 'kbd',
+  'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr',
+]);
+
+// Tags that start an HTML block when they open a line
+export const BLOCK_HTML_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'caption', 'center', 'col', 'colgroup', 'dd', 'details',
+  'div', 'dl', 'dt', 'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header',
+  'hr', 'li', 'ol', 'p', 'pre', 'section', 'summary', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead',
+  'tr', 'ul',
+]);
+
+// Removed along with everything inside them
+export const DROPPED_HTML_TAGS = new Set([
+  'applet', 'base', 'button', 'embed', 'form', 'frame', 'frameset', 'iframe', 'input', 'link', 'math',
+  'meta', 'noscript', 'object', 'script', 'select', 'style', 'svg', 'template', 'textarea', 'title',
+]);
+
+export const VOID_HTML_TAGS = new Set(['br', 'col', 'hr', 'img', 'wbr']);
+
+// Elements that hold only other elements; whitespace between their children is dropped
+const STRUCTURAL_TAGS = new Set(['table', 'thead', 'tbody', 'tfoot', 'tr', 'colgroup', 'ul', 'ol', 'dl']);
+
+const GLOBAL_ATTRIBUTES = ['title', 'lang', 'dir'];
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href'],
+  col: ['span'],
+  colgroup: ['span'],
+  del: ['datetime'],
+  details: ['open'],
+  img: ['src', 'alt', 'width', 'height'],
+  ins: ['datetime'],
+  ol: ['start', 'type', 'reversed'],
+  q: ['cite'],
+  td: ['colspan', 'rowspan', 'align'],
+  th: ['colspan', 'rowspan', 'align', 'scope'],
+  time: ['datetime'],
+  table: ['align'],
+  tr: ['align'],
+  div: ['align'],
+  p: ['align'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite']);
+
+const ATTRIBUTE = /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+// An opening tag at the start of `text`: <tag attr="value" ...> or <tag/>
+export const OPEN_TAG = /^<([a-zA-Z][a-zA-Z0-9]*)((?:\s+[^\s"'>/=]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'=<>`]+))?)*)\s*(\/?)>/;
+
+const CLOSE_TAG = /^<\/([a-zA-Z][a-zA-Z0-9]*)\s*>/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00a0', copy: '©', reg: '®', trade: '™',
+  hellip: '…', mdash: '—', ndash: '–', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«',
+  raquo: '»', middot: '·', times: '×', divide: '÷', deg: '°', plusmn: '±', larr: '←', rarr: '→',
+  uarr: '↑', darr: '↓', harr: '↔', ensp: '\u2002', emsp: '\u2003', thinsp: '\u2009',
+};
+
+const ENTITY_SOURCE = '&(?:#[0-9]{1,7}|#[xX][0-9a-fA-F]{1,6}|[a-zA-Z]+);';
+
+// A character reference at the start of `text`
+export const ENTITY = new RegExp(`^${ENTITY_SOURCE}`);
+
+// The character an entity such as &nbsp; or &#x2192; stands for; null for unknown names
+export const decodeEntity = (entity: string): string | null => {
+  const name = entity.slice(1, -1);
+  if (name.startsWith('#')) {
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : '�';
+  }
+  return NAMED_ENTITIES[name] ?? null;
+};
+
+const decodeEntities = (text: string) =>
+  text.replace(new RegExp(ENTITY_SOURCE, 'g'), entity => decodeEntity(entity) ?? entity);
+
+// Relative links, anchors and the usual web schemes; everything else (javascript:, data:...) is refused
+export const isSafeUrl = (url: string) => {
+  // Browsers ignore control characters and whitespace inside the scheme, so compare without them
+  const compact = decodeEntities(url).replace(/[\u0000-\u0020\u007f-\u009f]/g, '').toLowerCase();
+  const scheme = compact.match(/^([a-z][a-z0-9+.-]*):/);
+  return !scheme || ['http', 'https', 'mailto', 'tel'].includes(scheme[1]);
+};
+
+/**
+ * Attributes of an opening tag, keeping only those allowed for the tag.
+ * `source` is the attribute part of the tag, as matched by OPEN_TAG.
+ */
+export const sanitizeAttributes = (tag: string, source: string): Record<string, string> => {
+  const allowed = [...GLOBAL_ATTRIBUTES, ...(TAG_ATTRIBUTES[tag] ?? [])];
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(ATTRIBUTE)) {
+    const name = match[1].toLowerCase();
+    const value = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    if (!allowed.includes(name)) continue; // Drops on* handlers, style, id, class...
+    if (URL_ATTRIBUTES.has(name) && !isSafeUrl(value)) continue;
+    attributes[name] = value;
+  }
+  return attributes;
+};
+
+/**
+ * Parse an HTML fragment into the allowlisted tree. Unclosed elements end with the
+ * fragment; stray closing tags and comments are dropped.
+ */
+export const parseHtml = (html: string): HtmlContent[] => {
+  const root: HtmlElement = { tag: '', attributes: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const current = () => stack[stack.length - 1];
+  const appendText = (text: string) => {
+    const { tag, children } = current();
+    const decoded = decodeEntities(text);
+    if (STRUCTURAL_TAGS.has(tag) && !decoded.trim()) return;
+    if (typeof children[children.length - 1] === 'string') children[children.length - 1] += decoded;
+    else if (decoded) children.push(decoded);
+  };
+
+  let i = 0;
+  while (i < html.length) {
+    const next = html.indexOf('<', i);
+    if (next < 0) {
+      appendText(html.slice(i));
+      break;
+    }
+    appendText(html.slice(i, next));
+    i = next;
+    const rest = html.slice(i);
+
+    if (rest.startsWith('<!--')) {
+      const end = html.indexOf('-->', i + 4);
+      i = end < 0 ? html.length : end + 3;
+      continue;
+    }
+
+    const close = rest.match(CLOSE_TAG);
+    if (close) {
+      const tag = close[1].toLowerCase();
+      const open = stack.map(element => element.tag).lastIndexOf(tag);
+      if (open > 0) stack.length = open;
+      i += close[0].length;
+      continue;
+    }
+
+    const open = rest.match(OPEN_TAG);
+    if (!open) {
+      appendText('<');
+      i++;
+      continue;
+    }
+    const tag = open[1].toLowerCase();
+    i += open[0].length;
+
+    if (DROPPED_HTML_TAGS.has(tag)) {
+      // Skip to the matching close tag, if there is one
+      const end = html.toLowerCase().indexOf(`</${tag}`, i);
+      if (!open[3] && !VOID_HTML_TAGS.has(tag) && end >= 0) i = html.indexOf('>', end) + 1 || html.length;
+      continue;
+    }
+    if (!INLINE_HTML_TAGS.has(tag) && !BLOCK_HTML_TAGS.has(tag)) continue; // Unwrapped: the tag goes, its content stays
+
+    // Browsers put rows written straight inside a table into a tbody; do the same
+    if (tag === 'tr' && current().tag === 'table') {
+      const tbody: HtmlElement = { tag: 'tbody', attributes: {}, children: [] };
+      current().children.push(tbody);
+      stack.push(tbody);
+    }
+    const element: HtmlElement = { tag, attributes: sanitizeAttributes(tag, open[2]), children: [] };
+    current().children.push(element);
+    if (!open[3] && !VOID_HTML_TAGS.has(tag)) stack.push(element);
+  }
+  return root.children;
+};
@@ -0,0 +1,1366 @@
+import { INLINE_TAG_REGEX } from './content';
+import {
+  BLOCK_HTML_TAGS, DROPPED_HTML_TAGS, ENTITY, HtmlContent, INLINE_HTML_TAGS, OPEN_TAG, VOID_HTML_TAGS,
+  decodeEntity, isSafeUrl, parseHtml, sanitizeAttributes
+} from './html';
+
+// Obsidian-flavoured markdown to a typed syntax tree: block structure first (fences, quotes,
+// lists, tables...), then inline content with a CommonMark-style delimiter pass, so emphasis
+// nests properly and nothing inside code, math or link targets is reinterpreted.
+// Obsidian extensions: wiki links, embeds, callouts, ==highlights==, #tags, %%comments%% and $math$,
+// plus footnotes, definition lists and raw HTML passed through the allowlist in html.ts,
+// whose URL check also applies to markdown links and images.
+// Rendering is left to the caller (ObsidianRenderer for the site).
+
+// --- Syntax tree ---
+
+export interface TextNode {
+  type: 'text';
+  value: string;
+}
+
+export interface InlineCodeNode {
+  type: 'inlineCode';
+  value: string;
+}
+
+export interface InlineMathNode {
+  type: 'inlineMath';
+  value: string;
+  display: boolean; // $$...$$ written inside a line
+}
+
+export interface FormatNode {
+  type: 'strong' | 'emphasis' | 'strikethrough' | 'highlight';
+  children: InlineNode[];
+}
+
+export interface LinkNode {
+  type: 'link';
+  url: string;
+  title?: string;
+  children: InlineNode[];
+}
+
+export interface ImageNode {
+  type: 'image';
+  url: string;
+  alt: string;
+  title?: string;
+}
+
+// [[target|alias]]; the target may carry a #heading or #^block fragment
+export interface WikiLinkNode {
+  type: 'wikiLink';
+  target: string;
+  alias?: string;
+}
+
+// ![[target|alias]]: an attachment or another note; the alias holds an image size like 300x200
+export interface EmbedNode {
+  type: 'embed';
+  target: string;
+  alias?: string;
+}
+
+export interface TagNode {
+  type: 'tag';
+  tag: string;
+}
+
+export interface BreakNode {
+  type: 'break';
+}
+
+export interface FootnoteReferenceNode {
+  type: 'footnoteReference';
+  label: string; // As written in [^label]; empty for ^[inline] footnotes
+  index: number; // Number shown, in order of first reference
+  occurrence: number; // 1 for the first reference to this footnote, 2 for the next...
+  content: BlockNode[]; // The footnote itself, shared with the footnotes section, for previews
+}
+
+// An allowlisted inline tag such as <kbd> or <sup>; markdown inside it is parsed
+export interface HtmlInlineNode {
+  type: 'htmlInline';
+  tag: string;
+  attributes: Record<string, string>;
+  children: InlineNode[];
+}
+
+export type InlineNode =
+  | TextNode
+  | InlineCodeNode
+  | InlineMathNode
+  | FormatNode
+  | LinkNode
+  | ImageNode
+  | WikiLinkNode
+  | EmbedNode
+  | TagNode
+  | BreakNode
+  | FootnoteReferenceNode
+  | HtmlInlineNode;
+
+export interface HeadingNode {
+  type: 'heading';
+  level: number;
+  text: string; // Plain text of the heading
+  id: string; // Anchor, unique within the note
+  children: InlineNode[];
+}
+
+// Blocks that can carry an Obsidian block reference: `text ^id`, or `^id` on its own line after the block
+export interface Referable {
+  blockId?: string;
+}
+
+export interface ParagraphNode extends Referable {
+  type: 'paragraph';
+  children: InlineNode[];
+}
+
+export interface CodeBlockNode extends Referable {
+  type: 'code';
+  lang: string;
+  meta: string; // Rest of the fence's info string
+  value: string;
+}
+
+export interface MathBlockNode extends Referable {
+  type: 'math';
+  value: string;
+}
+
+export interface BlockquoteNode extends Referable {
+  type: 'blockquote';
+  children: BlockNode[];
+}
+
+export interface CalloutNode extends Referable {
+  type: 'callout';
+  calloutType: string;
+  fold: '+' | '-' | null; // Foldable callouts, expanded (+) or collapsed (-) initially
+  title: InlineNode[];
+  children: BlockNode[];
+}
+
+export interface ListItemNode extends Referable {
+  type: 'listItem';
+  checked: boolean | null; // null when the item isn't a task
+  children: BlockNode[];
+}
+
+export interface ListNode extends Referable {
+  type: 'list';
+  ordered: boolean;
+  start: number;
+  items: ListItemNode[];
+}
+
+export type TableAlign = 'left' | 'center' | 'right';
+
+export interface TableNode extends Referable {
+  type: 'table';
+  align: TableAlign[];
+  header: InlineNode[][];
+  rows: InlineNode[][][];
+}
+
+export interface ThematicBreakNode {
+  type: 'thematicBreak';
+}
+
+export interface DefinitionListNode {
+  type: 'definitionList';
+  items: { term: InlineNode[]; definitions: BlockNode[][] }[];
+}
+
+// <details> with markdown inside, the way GitHub renders it
+export interface DetailsNode {
+  type: 'details';
+  open: boolean;
+  summary: InlineNode[];
+  children: BlockNode[];
+}
+
+// Any other HTML block; its text is shown as written, without markdown
+export interface HtmlBlockNode {
+  type: 'html';
+  content: HtmlContent[];
+}
+
+export interface FootnoteDefinition {
+  index: number;
+  label: string;
+  references: number; // How many places refer to it, for the links back
+  children: BlockNode[];
+}
+
+// Referenced footnotes, in order, at the end of the note
+export interface FootnotesNode {
+  type: 'footnotes';
+  items: FootnoteDefinition[];
+}
+
+// Images and embeds standing alone on a line are blocks of their own
+export type BlockNode =
+  | HeadingNode
+  | ParagraphNode
+  | CodeBlockNode
+  | MathBlockNode
+  | BlockquoteNode
+  | CalloutNode
+  | ListNode
+  | TableNode
+  | ThematicBreakNode
+  | DefinitionListNode
+  | DetailsNode
+  | HtmlBlockNode
+  | FootnotesNode
+  | ImageNode
+  | EmbedNode;
+
+// --- Inline ---
+
+interface Delimiter {
+  type: 'delimiter';
+  char: string;
+  count: number;
+  length: number; // Run length before any of it was used
+  canOpen: boolean;
+  canClose: boolean;
+}
+
+type InlineItem = InlineNode | Delimiter;
+
+const ESCAPABLE = /[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]/;
+const PUNCTUATION = /[\p{P}\p{S}]/u;
+const WHITESPACE = /\s/;
+const AUTOLINK = /^<([a-z][a-z0-9+.-]{1,31}:[^\s<>]*)>/i;
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<?!.,:;*_~'")\]}，。；：！？、）》」』]/;
+
+const isWhitespace = (char: string | undefined) => !char || WHITESPACE.test(char);
+const isPunctuation = (char: string | undefined) => !!char && PUNCTUATION.test(char);
+
+// Length of a run of `char` starting at `start`
+const runLength = (text: string, start: number, char: string) => {
+  let end = start;
+  while (text[end] === char) end++;
+  return end - start;
+};
+
+// `code` closed by a run of exactly as many backticks
+const readCodeSpan = (text: string, start: number): { value: string; end: number } | null => {
+  const length = runLength(text, start, '`');
+  let search = start + length;
+  while (search < text.length) {
+    const close = text.indexOf('`', search);
+    if (close < 0) return null;
+    const closeLength = runLength(text, close, '`');
+    if (closeLength === length) {
+      let value = text.slice(start + length, close).replace(/\n/g, ' ');
+      if (value.length > 2 && value.startsWith(' ') && value.endsWith(' ') && value.trim()) value = value.slice(1, -1);
+      return { value, end: close + closeLength };
+    }
+    search = close + closeLength;
+  }
+  return null;
+};
+
+// $inline$ math: no space inside the dollars, and not a price like $5 and $10
+const readInlineMath = (text: string, start: number): { value: string; display: boolean; end: number } | null => {
+  if (text.startsWith('$$', start)) {
+    const close = text.indexOf('$$', start + 2);
+    return close > start + 2 ? { value: text.slice(start + 2, close).trim(), display: true, end: close + 2 } : null;
+  }
+  if (isWhitespace(text[start + 1])) return null;
+  for (let i = start + 1; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '\n' && text[i + 1] === '\n') {
+      return null;
+    } else if (text[i] === '$') {
+      if (isWhitespace(text[i - 1]) || /\d/.test(text[i + 1] ?? '')) return null;
+      return { value: text.slice(start + 1, i), display: false, end: i + 1 };
+    }
+  }
+  return null;
+};
+
+// Index of the `]` closing the bracket at `start`, skipping code spans and escapes
+const findClosingBracket = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') i++;
+    else if (char === '`') {
+      const code = readCodeSpan(text, i);
+      if (code) i = code.end - 1;
+    } else if (char === '[') depth++;
+    else if (char === ']' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// (destination "optional title") directly after a link label
+const readLinkTarget = (text: string, start: number): { url: string; title?: string; end: number } | null => {
+  if (text[start] !== '(') return null;
+  let i = start + 1;
+  while (text[i] === ' ') i++;
+
+  let url = '';
+  if (text[i] === '<') {
+    const close = text.indexOf('>', i);
+    if (close < 0 || text.slice(i, close).includes('\n')) return null;
+    url = text.slice(i + 1, close);
+    i = close + 1;
+  } else {
+    let depth = 0;
+    const begin = i;
+    for (; i < text.length; i++) {
+      const char = text[i];
+      if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) i++;
+      else if (char === '(') depth++;
+      else if (char === ')' && depth-- === 0) break;
+      else if (WHITESPACE.test(char)) break;
+    }
+    url = text.slice(begin, i).replace(/\\([!-/:-@[-`{-~])/g, '$1');
+  }
+
+  let title: string | undefined;
+  while (text[i] === ' ') i++;
+  const quote = text[i];
+  if (quote === '"' || quote === "'") {
+    const close = text.indexOf(quote, i + 1);
+    if (close < 0) return null;
+    title = text.slice(i + 1, close);
+    i = close + 1;
+    while (text[i] === ' ') i++;
+  }
+  return text[i] === ')' ? { url, title, end: i + 1 } : null;
+};
+
+// [[target|alias]] contents; in tables the pipe is escaped as \|
+const splitWikiLink = (inner: string) => {
+  const pipe = inner.indexOf('|');
+  if (pipe < 0) return { target: inner.trim() };
+  const alias = inner.slice(pipe + 1).trim();
+  return { target: inner.slice(0, pipe).replace(/\\$/, '').trim(), alias: alias || undefined };
+};
+
+const FOOTNOTE_REFERENCE = /^\[\^([^\]\s]+)\]/;
+
+// `<tag ...>` / `</tag>` of one tag name, to match up nested elements
+const tagPattern = (tag: string) => new RegExp(`<(/?)${tag}(?=[\\s/>])[^>]*>`, 'gi');
+
+// The `</tag>` closing an element whose content starts at `start`, skipping nested ones of the same name
+const findClosingTag = (text: string, tag: string, start: number): { start: number; end: number } | null => {
+  const pattern = tagPattern(tag);
+  pattern.lastIndex = start;
+  let depth = 1;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return { start: match.index, end: match.index + match[0].length };
+  }
+  return null;
+};
+
+// An allowlisted inline element, or a dropped one (<script>...) to skip with its content.
+// Null for anything else, which stays text: `List<T>` in prose isn't HTML.
+const readInlineHtml = (text: string, start: number): { node: InlineNode | null; end: number } | null => {
+  const open = text.slice(start).match(OPEN_TAG);
+  if (!open) return null;
+  const tag = open[1].toLowerCase();
+  const contentStart = start + open[0].length;
+  const isVoid = !!open[3] || VOID_HTML_TAGS.has(tag);
+
+  if (DROPPED_HTML_TAGS.has(tag)) {
+    const close = isVoid ? null : findClosingTag(text, tag, contentStart);
+    return { node: null, end: close ? close.end : contentStart };
+  }
+  if (!INLINE_HTML_TAGS.has(tag)) return null;
+  if (tag === 'br') return { node: { type: 'break' }, end: contentStart };
+
+  const attributes = sanitizeAttributes(tag, open[2]);
+  if (isVoid) return { node: { type: 'htmlInline', tag, attributes, children: [] }, end: contentStart };
+  const close = findClosingTag(text, tag, contentStart);
+  if (!close) return null;
+  const children = parseInline(text.slice(contentStart, close.start));
+  return { node: { type: 'htmlInline', tag, attributes, children }, end: close.end };
+};
+
+const createDelimiter = (text: string, start: number, length: number): Delimiter => {
+  const char = text[start];
+  const before = text[start - 1];
+  const after = text[start + length];
+  // Flanking rules from CommonMark: a run can open when it leans on the text after it, close when on the text before
+  const leftFlanking = !isWhitespace(after) && (!isPunctuation(after) || isWhitespace(before) || isPunctuation(before));
+  const rightFlanking = !isWhitespace(before) && (!isPunctuation(before) || isWhitespace(after) || isPunctuation(after));
+  // Underscores inside words (snake_case) don't emphasize
+  const canOpen = char === '_' ? leftFlanking && (!rightFlanking || isPunctuation(before)) : leftFlanking;
+  const canClose = char === '_' ? rightFlanking && (!leftFlanking || isPunctuation(after)) : rightFlanking;
+  return { type: 'delimiter', char, count: length, length, canOpen, canClose };
+};
+
+const DOUBLE_ONLY = new Set(['~', '=']); // ~~strikethrough~~ and ==highlight== need two characters
+
+const FORMAT_OF: Record<string, FormatNode['type']> = { '~': 'strikethrough', '=': 'highlight' };
+
+const isDelimiter = (item: InlineItem): item is Delimiter => item.type === 'delimiter';
+
+const delimiterText = (delimiter: Delimiter): TextNode => ({ type: 'text', value: delimiter.char.repeat(delimiter.count) });
+
+// Pair up delimiter runs into formatting nodes, innermost first; unmatched runs stay text
+const resolveDelimiters = (items: InlineItem[]): InlineNode[] => {
+  let i = 0;
+  while (i < items.length) {
+    const closer = items[i];
+    if (!isDelimiter(closer) || !closer.canClose) {
+      i++;
+      continue;
+    }
+
+    let openerIndex = -1;
+    for (let j = i - 1; j >= 0; j--) {
+      const opener = items[j];
+      if (!isDelimiter(opener) || opener.char !== closer.char || !opener.canOpen) continue;
+      if (DOUBLE_ONLY.has(closer.char) && (opener.count < 2 || closer.count < 2)) continue;
+      // "Rule of three": *a **b*** pairs the way a reader expects
+      const bothSides = opener.canClose || closer.canOpen;
+      if (bothSides && (opener.length + closer.length) % 3 === 0 && (opener.length % 3 !== 0 || closer.length % 3 !== 0)) continue;
+      openerIndex = j;
+      break;
+    }
+    if (openerIndex < 0) {
+      i++;
+      continue;
+    }
+
+    const opener = items[openerIndex] as Delimiter;
+    const used = DOUBLE_ONLY.has(closer.char) || (opener.count >= 2 && closer.count >= 2) ? 2 : 1;
+    const children = items
+      .slice(openerIndex + 1, i)
+      .map(item => (isDelimiter(item) ? delimiterText(item) : item));
+    const type = FORMAT_OF[closer.char] ?? (used === 2 ? 'strong' : 'emphasis');
+
+    opener.count -= used;
+    closer.count -= used;
+    items.splice(openerIndex + 1, i - openerIndex - 1, { type, children });
+    i = openerIndex + 2;
+    if (opener.count === 0) {
+      items.splice(openerIndex, 1);
+      i--;
+    }
+    if (closer.count === 0) items.splice(i, 1);
+  }
+  return items.map(item => (isDelimiter(item) ? delimiterText(item) : item));
+};
+
+// Merge neighbouring text and pick out #tags, using the same rule as tag extraction
+const finishText = (nodes: InlineNode[]): InlineNode[] => {
+  const merged: InlineNode[] = [];
+  nodes.forEach(node => {
+    const last = merged[merged.length - 1];
+    if (node.type === 'text' && last?.type === 'text') last.value += node.value;
+    else merged.push(node.type === 'text' ? { ...node } : node);
+  });
+
+  return merged.flatMap((node): InlineNode[] => {
+    if (node.type !== 'text') return [node];
+    return node.value
+      .split(INLINE_TAG_REGEX)
+      .map((part, i): InlineNode => (i % 2 === 1 ? { type: 'tag', tag: part } : { type: 'text', value: part }))
+      .filter(part => part.type !== 'text' || part.value !== '');
+  });
+};
+
+/**
+ * Parse the inline content of one block. Newlines become line breaks, as in Obsidian.
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const items: InlineItem[] = [];
+  let buffer = '';
+  const push = (item: InlineItem) => {
+    if (buffer) items.push({ type: 'text', value: buffer });
+    buffer = '';
+    items.push(item);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\') {
+      const next = text[i + 1];
+      if (next === '\n') {
+        push({ type: 'break' });
+        i += 2;
+      } else if (next && ESCAPABLE.test(next)) {
+        buffer += next;
+        i += 2;
+      } else {
+        buffer += char;
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '`') {
+      const code = readCodeSpan(text, i);
+      if (code) {
+        push({ type: 'inlineCode', value: code.value });
+        i = code.end;
+      } else {
+        // An unmatched run is literal text, all of it
+        const length = runLength(text, i, '`');
+        buffer += text.slice(i, i + length);
+        i += length;
+      }
+      continue;
+    }
+
+    if (char === '$') {
+      const math = readInlineMath(text, i);
+      if (math) {
+        push({ type: 'inlineMath', value: math.value, display: math.display });
+        i = math.end;
+        continue;
+      }
+    }
+
+    if (text.startsWith('%%', i) || text.startsWith('<!--', i)) {
+      const closing = char === '%' ? '%%' : '-->';
+      const close = text.indexOf(closing, i + (char === '%' ? 2 : 4));
+      if (close >= 0) {
+        i = close + closing.length;
+        continue;
+      }
+    }
+
+    if (char === '<') {
+      const autolink = text.slice(i).match(AUTOLINK);
+      if (autolink) {
+        push(isSafeUrl(autolink[1])
+          ? { type: 'link', url: autolink[1], children: [{ type: 'text', value: autolink[1] }] }
+          : { type: 'text', value: autolink[0] });
+        i += autolink[0].length;
+        continue;
+      }
+      const html = readInlineHtml(text, i);
+      if (html) {
+        if (html.node) push(html.node);
+        i = html.end;
+        continue;
+      }
+    }
+
+    if (char === '&') {
+      const entity = text.slice(i).match(ENTITY);
+      const decoded = entity && decodeEntity(entity[0]);
+      if (entity && decoded !== null) {
+        buffer += decoded;
+        i += entity[0].length;
+        continue;
+      }
+    }
+
+    if (char === 'h' && (i === 0 || isWhitespace(text[i - 1]) || isPunctuation(text[i - 1]))) {
+      const url = text.slice(i).match(BARE_URL);
+      if (url) {
+        push({ type: 'link', url: url[0], children: [{ type: 'text', value: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    if (text.startsWith('![[', i) || text.startsWith('[[', i)) {
+      const embed = char === '!';
+      const open = i + (embed ? 3 : 2);
+      const close = text.indexOf(']]', open);
+      if (close > open && !text.slice(open, close).includes('\n')) {
+        push({ type: embed ? 'embed' : 'wikiLink', ...splitWikiLink(text.slice(open, close)) });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    // [^label] refers to a footnote defined elsewhere in the note; ^[text] is one written in place
+    if (text.startsWith('[^', i)) {
+      const footnote = text.slice(i).match(FOOTNOTE_REFERENCE);
+      if (footnote) {
+        push({ type: 'footnoteReference', label: footnote[1], index: 0, occurrence: 0, content: [] });
+        i += footnote[0].length;
+        continue;
+      }
+    }
+    if (char === '^' && text[i + 1] === '[') {
+      const close = findClosingBracket(text, i + 1);
+      if (close > i + 2) {
+        const content: BlockNode[] = [{ type: 'paragraph', children: parseInline(text.slice(i + 2, close)) }];
+        push({ type: 'footnoteReference', label: '', index: 0, occurrence: 0, content });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (char === '[' || (char === '!' && text[i + 1] === '[')) {
+      const labelStart = char === '!' ? i + 1 : i;
+      const labelEnd = findClosingBracket(text, labelStart);
+      const target = labelEnd > 0 ? readLinkTarget(text, labelEnd + 1) : null;
+      if (target) {
+        const label = text.slice(labelStart + 1, labelEnd);
+        // javascript:, data: and other schemes never become a link or image; the text stays
+        if (!isSafeUrl(target.url)) {
+          if (char === '!') buffer += label;
+          else parseInline(label).forEach(push);
+        } else {
+          push(
+            char === '!'
+              ? { type: 'image', url: target.url, alt: label, title: target.title }
+              : { type: 'link', url: target.url, title: target.title, children: parseInline(label) }
+          );
+        }
+        i = target.end;
+        continue;
+      }
+    }
+
+    if (char === '\n') {
+      buffer = buffer.replace(/[ \t]+$/, '');
+      push({ type: 'break' });
+      i++;
+      while (text[i] === ' ' || text[i] === '\t') i++;
+      continue;
+    }
+
+    if (char === '*' || char === '_' || char === '~' || char === '=') {
+      const length = runLength(text, i, char);
+      if (!DOUBLE_ONLY.has(char) || length >= 2) {
+        push(createDelimiter(text, i, length));
+      } else {
+        buffer += text.slice(i, i + length);
+      }
+      i += length;
+      continue;
+    }
+
+    buffer += char;
+    i++;
+  }
+  if (buffer) items.push({ type: 'text', value: buffer });
+
+  return finishText(resolveDelimiters(items));
+};
+
+/**
+ * Plain text of inline content, e.g. for heading anchors and titles.
+ */
+export const toPlainText = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+        case 'inlineCode':
+        case 'inlineMath':
+          return node.value;
+        case 'tag':
+          return `#${node.tag}`;
+        case 'wikiLink':
+        case 'embed':
+          return node.alias ?? node.target;
+        case 'image':
+          return node.alt;
+        case 'break':
+          return ' ';
+        case 'link':
+        case 'strong':
+        case 'emphasis':
+        case 'strikethrough':
+        case 'highlight':
+        case 'htmlInline':
+          return toPlainText(node.children);
+        default:
+          return '';
+      }
+    })
+    .join('');
+
+// --- Blocks ---
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const THEMATIC_BREAK = /^ {0,3}([-*_])([ \t]*\1){2,}[ \t]*$/;
+const LIST_ITEM = /^(\s*)([-*+]|(\d{1,9})[.)])(?:[ \t]+(.*)|$)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const CALLOUT = /^\[!([^\]]+)\]([-+])?\s*(.*)$/;
+const TASK = /^\[(.)\](?:[ \t]+(.*)|$)/;
+const EMBED_LINE = /^!\[\[[^\]\n]+\]\]$/;
+const IMAGE_LINE = /^!\[[^\]]*\]\(.*\)$/;
+const DEFINITION = /^ {0,3}:[ \t]+(.*)$/;
+const HTML_BLOCK = /^ {0,3}<\/?([a-zA-Z][a-zA-Z0-9]*)(?=[\s/>]|$)/;
+const DETAILS = /^\s*<details(\s[^>]*)?>([\s\S]*)<\/details\s*>\s*$/i;
+const SUMMARY = /^\s*<summary(?:\s[^>]*)?>([\s\S]*?)<\/summary\s*>/i;
+
+// Columns of leading whitespace, with tabs to the next multiple of four
+const indentOf = (line: string) => {
+  let column = 0;
+  for (const char of line) {
+    if (char === ' ') column++;
+    else if (char === '\t') column += 4 - (column % 4);
+    else break;
+  }
+  return column;
+};
+
+// Remove up to `columns` columns of leading whitespace
+const dedent = (line: string, columns: number) => {
+  let column = 0;
+  let i = 0;
+  while (i < line.length && column < columns) {
+    if (line[i] === ' ') column++;
+    else if (line[i] === '\t') column += 4 - (column % 4);
+    else break;
+    i++;
+  }
+  return ' '.repeat(Math.max(0, column - columns)) + line.slice(i);
+};
+
+const isBlank = (line: string | undefined) => line !== undefined && line.trim() === '';
+
+const isOrderedItem = (match: RegExpMatchArray) => match[3] !== undefined;
+
+const isTableStart = (line: string, next: string | undefined) =>
+  line.includes('|') && next !== undefined && TABLE_SEPARATOR.test(next) && next.includes('-');
+
+// A comment opened on this line and closed on a later one
+const openComment = (line: string): string | null => {
+  const trimmed = line.trim();
+  if (trimmed.startsWith('%%') && !trimmed.slice(2).includes('%%')) return '%%';
+  if (trimmed.startsWith('<!--') && !trimmed.includes('-->')) return '-->';
+  return null;
+};
+
+// A term line followed by `: definition`
+const isDefinitionStart = (line: string, next: string | undefined) =>
+  !isBlank(line) && next !== undefined && DEFINITION.test(next);
+
+// Block-level HTML, or a dropped tag such as <script>; other tags at the start of a line are text
+const htmlBlockTag = (line: string): string | null => {
+  const tag = line.match(HTML_BLOCK)?.[1].toLowerCase();
+  return tag && (BLOCK_HTML_TAGS.has(tag) || DROPPED_HTML_TAGS.has(tag)) ? tag : null;
+};
+
+// A closing fence for `fence`: the same character, at least as long, nothing after it
+const closesFence = (line: string, fence: string) => {
+  const closing = line.trim();
+  return closing.startsWith(fence[0]) && runLength(closing, 0, fence[0]) >= fence.length && !closing.replace(/^[`~]+/, '').trim();
+};
+
+// Lines that end a paragraph without a blank line in between
+const interruptsParagraph = (line: string, next: string | undefined) => {
+  const trimmed = line.trim();
+  return (
+    FENCE.test(line) ||
+    HEADING.test(line) ||
+    THEMATIC_BREAK.test(line) ||
+    trimmed.startsWith('>') ||
+    trimmed.startsWith('$$') ||
+    (LIST_ITEM.test(line) && !!line.match(LIST_ITEM)![4]) ||
+    isTableStart(line, next) ||
+    EMBED_LINE.test(trimmed) ||
+    IMAGE_LINE.test(trimmed) ||
+    openComment(line) !== null ||
+    htmlBlockTag(line) !== null ||
+    isDefinitionStart(line, next)
+  );
+};
+
+const splitRow = (row: string) =>
+  row
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map(cell => cell.trim());
+
+const parseAlign = (cell: string): TableAlign =>
+  cell.startsWith(':') && cell.endsWith(':') ? 'center' : cell.endsWith(':') ? 'right' : 'left';
+
+interface Parsed<T> {
+  node: T;
+  next: number; // First line after the block
+}
+
+const parseFence = (lines: string[], start: number): Parsed<CodeBlockNode> => {
+  const [, fence, info] = lines[start].match(FENCE)!;
+  const indent = indentOf(lines[start]);
+  const body: string[] = [];
+  let i = start + 1;
+  while (i < lines.length) {
+    if (closesFence(lines[i], fence)) {
+      i++;
+      break;
+    }
+    body.push(dedent(lines[i], indent));
+    i++;
+  }
+  const [lang = '', ...meta] = info.trim().split(/\s+/);
+  return { node: { type: 'code', lang: lang.toLowerCase(), meta: meta.join(' '), value: body.join('\n') }, next: i };
+};
+
+// $$ ... $$ on one line or several; null when never closed
+const parseMathBlock = (lines: string[], start: number): Parsed<MathBlockNode> | null => {
+  const first = lines[start].trim().slice(2);
+  if (first.trim().endsWith('$$')) {
+    return { node: { type: 'math', value: first.trim().slice(0, -2).trim() }, next: start + 1 };
+  }
+  const body = [first];
+  for (let i = start + 1; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
+    if (trimmed.endsWith('$$')) {
+      body.push(trimmed.slice(0, -2));
+      return { node: { type: 'math', value: body.join('\n').trim() }, next: i + 1 };
+    }
+    body.push(lines[i]);
+  }
+  return null;
+};
+
+const parseIndentedCode = (lines: string[], start: number): Parsed<CodeBlockNode> => {
+  const body: string[] = [];
+  let i = start;
+  while (i < lines.length && (isBlank(lines[i]) || indentOf(lines[i]) >= 4)) body.push(dedent(lines[i++], 4));
+  while (body.length > 0 && !body[body.length - 1].trim()) body.pop();
+  return { node: { type: 'code', lang: '', meta: '', value: body.join('\n') }, next: start + body.length };
+};
+
+// A quote runs over blank lines while the quote continues, but a new callout starts its own block
+const parseQuote = (lines: string[], start: number): Parsed<BlockquoteNode | CalloutNode> => {
+  const quoted: string[] = [];
+  let i = start;
+  while (i < lines.length) {
+    const trimmed = lines[i].trim();
+    if (trimmed.startsWith('>')) {
+      quoted.push(trimmed.replace(/^>[ \t]?/, ''));
+      i++;
+    } else if (!trimmed && i + 1 < lines.length && lines[i + 1].trim().startsWith('>') && !lines[i + 1].trim().startsWith('> [!')) {
+      quoted.push('');
+      i++;
+    } else {
+      break;
+    }
+  }
+
+  const callout = quoted[0].match(CALLOUT);
+  if (!callout) return { node: { type: 'blockquote', children: parseBlocks(quoted) }, next: i };
+  return {
+    node: {
+      type: 'callout',
+      calloutType: callout[1].trim().toLowerCase(),
+      fold: (callout[2] as '+' | '-') ?? null,
+      title: parseInline(callout[3].trim()),
+      children: parseBlocks(quoted.slice(1)),
+    },
+    next: i,
+  };
+};
+
+const parseTable = (lines: string[], start: number): Parsed<TableNode> => {
+  const header = splitRow(lines[start]);
+  const align = splitRow(lines[start + 1]).map(parseAlign);
+  const rows: InlineNode[][][] = [];
+  let i = start + 2;
+  while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+    const cells = splitRow(lines[i++]);
+    rows.push(header.map((_, column) => parseInline(cells[column] ?? '')));
+  }
+  return { node: { type: 'table', align, header: header.map(cell => parseInline(cell)), rows }, next: i };
+};
+
+// Items continue while lines are indented past the marker; a different marker type starts a new list
+const parseList = (lines: string[], start: number): Parsed<ListNode> => {
+  const first = lines[start].match(LIST_ITEM)!;
+  const baseIndent = indentOf(lines[start]);
+  const ordered = isOrderedItem(first);
+  const items: { content: string; children: string[] }[] = [];
+
+  let i = start;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      const following = lines[next];
+      const item = following?.match(LIST_ITEM);
+      const continues =
+        following !== undefined &&
+        (indentOf(following) > baseIndent + 1 || (!!item && indentOf(following) >= baseIndent && isOrderedItem(item) === ordered));
+      if (!continues) break;
+      items[items.length - 1].children.push('');
+      i++;
+      continue;
+    }
+
+    const indent = indentOf(line);
+    const item = line.match(LIST_ITEM);
+    if (indent > baseIndent + 1) {
+      items[items.length - 1].children.push(line);
+    } else if (item && indent >= baseIndent && isOrderedItem(item) === ordered) {
+      items.push({ content: item[4] ?? '', children: [] });
+    } else {
+      break;
+    }
+    i++;
+  }
+
+  const listItems = items.map(({ content, children }): ListItemNode => {
+    const task = content.match(TASK);
+    const childIndent = Math.min(...children.filter(line => line.trim()).map(indentOf));
+    const body = [task ? task[2] ?? '' : content, ...children.map(line => dedent(line, childIndent))];
+    return { type: 'listItem', checked: task ? task[1] !== ' ' : null, children: parseBlocks(body) };
+  });
+
+  return { node: { type: 'list', ordered, start: ordered ? Number(first[3]) : 1, items: listItems }, next: i };
+};
+
+// Terms each followed by one or more `: definition` lines; indented lines continue a definition
+const parseDefinitionList = (lines: string[], start: number): Parsed<DefinitionListNode> => {
+  const items: DefinitionListNode['items'] = [];
+  let i = start;
+  while (i < lines.length && isDefinitionStart(lines[i], lines[i + 1])) {
+    const term = parseInline(lines[i].trim());
+    const definitions: BlockNode[][] = [];
+    i++;
+    for (let match = lines[i]?.match(DEFINITION); match; match = lines[i]?.match(DEFINITION)) {
+      const body = [match[1]];
+      i++;
+      while (i < lines.length && (isBlank(lines[i]) ? indentOf(lines[i + 1] ?? '') >= 2 && !isBlank(lines[i + 1]) : indentOf(lines[i]) >= 2)) {
+        body.push(dedent(lines[i++], 4));
+      }
+      definitions.push(parseBlocks(body));
+      // Definitions of one term may be separated by blank lines
+      let next = i;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      if (next > i && DEFINITION.test(lines[next] ?? '')) i = next;
+    }
+    items.push({ term, definitions });
+
+    let next = i;
+    while (next < lines.length && isBlank(lines[next])) next++;
+    if (next >= lines.length || !isDefinitionStart(lines[next], lines[next + 1])) break;
+    i = next;
+  }
+  return { node: { type: 'definitionList', items }, next: i };
+};
+
+/**
+ * An HTML block: <details> (and dropped tags like <script>) run to their closing tag,
+ * other HTML up to the next blank line, as in CommonMark. Null when nothing is left of it.
+ */
+const parseHtmlBlock = (lines: string[], start: number, tag: string): Parsed<DetailsNode | HtmlBlockNode | null> => {
+  let end = -1;
+  if (tag === 'details' || tag === 'pre' || DROPPED_HTML_TAGS.has(tag)) {
+    const pattern = tagPattern(tag);
+    let depth = 0;
+    for (let i = start; i < lines.length && end < 0; i++) {
+      for (const match of lines[i].matchAll(pattern)) {
+        depth += match[1] ? -1 : 1;
+        if (depth <= 0) {
+          end = i + 1;
+          break;
+        }
+      }
+    }
+  }
+  if (end < 0) {
+    end = start + 1;
+    while (end < lines.length && !isBlank(lines[end])) end++;
+  }
+  const raw = lines.slice(start, end).join('\n');
+
+  const details = tag === 'details' ? raw.match(DETAILS) : null;
+  if (details) {
+    const summary = details[2].match(SUMMARY);
+    const body = summary ? details[2].slice(summary[0].length) : details[2];
+    return {
+      node: {
+        type: 'details',
+        open: /(^|\s)open\b/i.test(details[1] ?? ''),
+        summary: parseInline(summary?.[1].trim() ?? ''),
+        children: parseBlocks(body.split('\n')),
+      },
+      next: end,
+    };
+  }
+
+  const content = parseHtml(raw);
+  const isEmpty = content.every(node => typeof node === 'string' && !node.trim());
+  return { node: isEmpty ? null : { type: 'html', content }, next: end };
+};
+
+/**
+ * Parse lines into blocks; quotes, callouts and list items recurse on their contents.
+ */
+const parseBlocks = (lines: string[]): BlockNode[] => {
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    const commentEnd = openComment(line);
+    if (commentEnd) {
+      i++;
+      while (i < lines.length && !lines[i].includes(commentEnd)) i++;
+      i++;
+      continue;
+    }
+
+    if (indentOf(line) >= 4) {
+      const code = parseIndentedCode(lines, i);
+      blocks.push(code.node);
+      i = code.next;
+      continue;
+    }
+
+    let parsed: Parsed<BlockNode> | null = null;
+    if (FENCE.test(line)) parsed = parseFence(lines, i);
+    else if (trimmed.startsWith('$$')) parsed = parseMathBlock(lines, i);
+    else if (trimmed.startsWith('>')) parsed = parseQuote(lines, i);
+    else if (isTableStart(line, lines[i + 1])) parsed = parseTable(lines, i);
+    else if (THEMATIC_BREAK.test(line)) parsed = { node: { type: 'thematicBreak' }, next: i + 1 };
+    else if (LIST_ITEM.test(line)) parsed = parseList(lines, i);
+
+    const htmlTag = parsed ? null : htmlBlockTag(line);
+    if (htmlTag) {
+      const html = parseHtmlBlock(lines, i, htmlTag);
+      if (html.node) blocks.push(html.node);
+      i = html.next;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (!parsed && heading) {
+      const children = parseInline(heading[2] ?? '');
+      const text = toPlainText(children).trim();
+      parsed = { node: { type: 'heading', level: heading[1].length, text, id: headingSlug(text), children }, next: i + 1 };
+    }
+
+    if (!parsed && (EMBED_LINE.test(trimmed) || IMAGE_LINE.test(trimmed))) {
+      const nodes = parseInline(trimmed);
+      if (nodes.length === 1 && (nodes[0].type === 'embed' || nodes[0].type === 'image')) parsed = { node: nodes[0], next: i + 1 };
+    }
+
+    if (!parsed && isDefinitionStart(line, lines[i + 1])) parsed = parseDefinitionList(lines, i);
+
+    if (parsed) {
+      blocks.push(parsed.node);
+      i = parsed.next;
+      continue;
+    }
+
+    // Paragraph: until a blank line or the start of another block
+    const paragraph = [trimmed];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines[i], lines[i + 1])) {
+      paragraph.push(lines[i++].trim());
+    }
+    const children = parseInline(paragraph.join('\n'));
+    if (children.some(node => node.type !== 'break' && (node.type !== 'text' || node.value.trim()))) {
+      blocks.push({ type: 'paragraph', children });
+    }
+  }
+
+  return blocks;
+};
+
+// --- Headings ---
+
+/**
+ * Anchor for a heading, GitHub style: lower case, punctuation dropped, spaces to dashes.
+ * Letters of any script are kept, so CJK headings get readable anchors.
+ */
+export const headingSlug = (text: string): string =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\p{M}\s_-]/gu, '')
+    .replace(/\s+/g, '-') || 'section';
+
+/**
+ * Every heading in document order, including those inside callouts, quotes and lists.
+ */
+export const getHeadings = (blocks: BlockNode[]): HeadingNode[] =>
+  blocks.flatMap((block): HeadingNode[] => {
+    if (block.type === 'heading') return [block];
+    if (block.type === 'blockquote' || block.type === 'callout') return getHeadings(block.children);
+    if (block.type === 'list') return block.items.flatMap(item => getHeadings(item.children));
+    return [];
+  });
+
+// Repeated headings get -1, -2... like GitHub, so every anchor is unique within the note
+const assignHeadingIds = (blocks: BlockNode[]) => {
+  const used = new Set<string>();
+  getHeadings(blocks).forEach(heading => {
+    const base = headingSlug(heading.text);
+    let id = base;
+    for (let n = 1; used.has(id); n++) id = `${base}-${n}`;
+    used.add(id);
+    heading.id = id;
+  });
+};
+
+/**
+ * Blocks under a heading, the heading included, up to the next heading of the same or a
+ * higher level. `path` is the part after `#` in `![[Note#Heading]]`; `Heading#Subheading`
+ * narrows down step by step. Null when no heading matches.
+ */
+export const getHeadingSection = (blocks: BlockNode[], path: string): BlockNode[] | null => {
+  let section = blocks;
+  for (const part of path.split('#').filter(part => part.trim())) {
+    const wanted = headingSlug(part);
+    const start = section.findIndex(block => block.type === 'heading' && headingSlug(block.text) === wanted);
+    if (start === -1) return null;
+    const { level } = section[start] as HeadingNode;
+    let end = start + 1;
+    while (end < section.length) {
+      const block = section[end];
+      if ((block.type === 'heading' && block.level <= level) || block.type === 'footnotes') break;
+      end++;
+    }
+    section = section.slice(start, end);
+  }
+  return section;
+};
+
+// --- Block references ---
+
+const BLOCK_ID_REGEX = /(?:^|\s)\^([A-Za-z0-9-]+)\s*$/;
+
+const REFERABLE_TYPES = new Set<BlockNode['type']>(['paragraph', 'code', 'math', 'blockquote', 'callout', 'list', 'table']);
+
+// Removes a trailing `^id` (and the line break before it, if it sat on a line of its own)
+const takeBlockId = (paragraph: ParagraphNode): string | undefined => {
+  const { children } = paragraph;
+  const last = children[children.length - 1];
+  const match = last?.type === 'text' ? last.value.match(BLOCK_ID_REGEX) : null;
+  if (!last || last.type !== 'text' || !match) return undefined;
+  last.value = last.value.slice(0, match.index).trimEnd();
+  while (children.length > 0) {
+    const tail = children[children.length - 1];
+    if (tail.type === 'break' || (tail.type === 'text' && !tail.value)) children.pop();
+    else break;
+  }
+  return match[1];
+};
+
+const assignBlockIds = (blocks: BlockNode[]): BlockNode[] => {
+  const result: BlockNode[] = [];
+  for (const block of blocks) {
+    if (block.type === 'paragraph') {
+      const id = takeBlockId(block);
+      if (id && block.children.length === 0) {
+        // A `^id` paragraph of its own names the block before it (a list, quote, table...)
+        const previous = result[result.length - 1];
+        if (previous && REFERABLE_TYPES.has(previous.type)) (previous as Referable).blockId = id;
+        continue;
+      }
+      block.blockId = id;
+    } else if (block.type === 'blockquote' || block.type === 'callout' || block.type === 'details') {
+      block.children = assignBlockIds(block.children);
+    } else if (block.type === 'list') {
+      block.items.forEach(item => {
+        item.children = assignBlockIds(item.children);
+        // `- item ^id` names the item rather than its first line
+        const lead = item.children[0];
+        if (lead?.type === 'paragraph' && lead.blockId) {
+          item.blockId = lead.blockId;
+          lead.blockId = undefined;
+        }
+      });
+    }
+    result.push(block);
+  }
+  return result;
+};
+
+/**
+ * The block named `^id`, searched through quotes, callouts and lists. A list item comes
+ * back as a one-item list keeping its number. Null when no block has that ID.
+ */
+export const getReferencedBlock = (blocks: BlockNode[], id: string): BlockNode[] | null => {
+  for (const block of blocks) {
+    if ('blockId' in block && block.blockId === id) return [block];
+    if (block.type === 'blockquote' || block.type === 'callout' || block.type === 'details') {
+      const found = getReferencedBlock(block.children, id);
+      if (found) return found;
+    }
+    if (block.type === 'list') {
+      for (const [i, item] of block.items.entries()) {
+        if (item.blockId === id) return [{ type: 'list', ordered: block.ordered, start: block.start + i, items: [item] }];
+        const found = getReferencedBlock(item.children, id);
+        if (found) return found;
+      }
+    }
+  }
+  return null;
+};
+
+// --- Footnotes ---
+
+const FOOTNOTE_DEFINITION = /^ {0,3}\[\^([^\]\s]+)\]:[ \t]?(.*)$/;
+
+/**
+ * Take `[^label]: text` definitions out of the note, wherever they are written (outside code).
+ * A definition continues on indented lines, blank lines between them included, and lazily
+ * on the unindented rest of its first paragraph. Labels are case-insensitive; the first wins.
+ */
+const extractFootnoteDefinitions = (lines: string[]) => {
+  const body: string[] = [];
+  const definitions = new Map<string, string[]>();
+  let fence: string | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (fence) {
+      if (closesFence(line, fence)) fence = null;
+      body.push(line);
+      continue;
+    }
+    const definition = line.match(FOOTNOTE_DEFINITION);
+    if (!definition) {
+      fence = line.match(FENCE)?.[1] ?? null;
+      body.push(line);
+      continue;
+    }
+
+    const content = [definition[2]];
+    while (i + 1 < lines.length) {
+      const next = lines[i + 1];
+      if (isBlank(next)) {
+        let following = i + 1;
+        while (following < lines.length && isBlank(lines[following])) following++;
+        if (following >= lines.length || indentOf(lines[following]) < 2) break;
+        for (; i + 1 < following; i++) content.push('');
+        continue;
+      }
+      const lazy = indentOf(next) < 2;
+      if (lazy && (content[content.length - 1] === '' || FOOTNOTE_DEFINITION.test(next) || interruptsParagraph(next, lines[i + 2]))) break;
+      content.push(dedent(next, 4));
+      i++;
+    }
+    const label = definition[1].toLowerCase();
+    if (!definitions.has(label)) definitions.set(label, content);
+    body.push(''); // Keeps the text around it in separate paragraphs
+  }
+  return { body, definitions };
+};
+
+interface FootnoteState {
+  definitions: Map<string, string[]>;
+  byLabel: Map<string, FootnoteDefinition>;
+  items: FootnoteDefinition[];
+}
+
+// Number references in reading order; [^label] without a definition stays text
+const resolveFootnoteReferences = (nodes: InlineNode[], state: FootnoteState): InlineNode[] =>
+  nodes.map((node): InlineNode => {
+    switch (node.type) {
+      case 'footnoteReference': {
+        const key = node.label.toLowerCase();
+        let item = node.label ? state.byLabel.get(key) : undefined;
+        if (!item) {
+          const lines = node.label ? state.definitions.get(key) : undefined;
+          if (node.label && !lines) return { type: 'text', value: `[^${node.label}]` };
+          item = { index: state.items.length + 1, label: node.label, references: 0, children: [] };
+          state.items.push(item);
+          if (node.label) state.byLabel.set(key, item);
+          // Registered first, so a footnote referring to itself can't loop
+          item.children = resolveFootnotes(lines ? parseBlocks(lines) : node.content, state);
+        }
+        item.references++;
+        return { ...node, index: item.index, occurrence: item.references, content: item.children };
+      }
+      case 'link':
+      case 'strong':
+      case 'emphasis':
+      case 'strikethrough':
+      case 'highlight':
+      case 'htmlInline':
+        return { ...node, children: resolveFootnoteReferences(node.children, state) };
+      default:
+        return node;
+    }
+  });
+
+const resolveFootnotes = (blocks: BlockNode[], state: FootnoteState): BlockNode[] => {
+  const resolve = (nodes: InlineNode[]) => resolveFootnoteReferences(nodes, state);
+  blocks.forEach(block => {
+    switch (block.type) {
+      case 'heading':
+      case 'paragraph':
+        block.children = resolve(block.children);
+        break;
+      case 'blockquote':
+        resolveFootnotes(block.children, state);
+        break;
+      case 'callout':
+        block.title = resolve(block.title);
+        resolveFootnotes(block.children, state);
+        break;
+      case 'details':
+        block.summary = resolve(block.summary);
+        resolveFootnotes(block.children, state);
+        break;
+      case 'list':
+        block.items.forEach(item => resolveFootnotes(item.children, state));
+        break;
+      case 'table':
+        block.header = block.header.map(resolve);
+        block.rows = block.rows.map(row => row.map(resolve));
+        break;
+      case 'definitionList':
+        block.items.forEach(item => {
+          item.term = resolve(item.term);
+          item.definitions.forEach(definition => resolveFootnotes(definition, state));
+        });
+        break;
+    }
+  });
+  return blocks;
+};
+
+// Notes are parsed once per distinct text; re-renders and repeated visits reuse the tree
+const PARSE_CACHE_SIZE = 50;
+const parseCache = new Map<string, BlockNode[]>();
+
+/**
+ * Parse a note body (frontmatter already removed) into blocks. Results are memoized by
+ * content, so the returned tree is shared and must not be modified.
+ */
+export const parseMarkdown = (markdown: string): BlockNode[] => {
+  const cached = parseCache.get(markdown);
+  if (cached) {
+    // Move to the back, so the least recently used entry is evicted first
+    parseCache.delete(markdown);
+    parseCache.set(markdown, cached);
+    return cached;
+  }
+
+  const { body, definitions } = extractFootnoteDefinitions(markdown.replace(/\r\n?/g, '\n').split('\n'));
+  const blocks = assignBlockIds(parseBlocks(body));
+  const footnotes: FootnoteState = { definitions, byLabel: new Map(), items: [] };
+  resolveFootnotes(blocks, footnotes);
+  if (footnotes.items.length > 0) blocks.push({ type: 'footnotes', items: footnotes.items });
+  assignHeadingIds(blocks);
+  parseCache.set(markdown, blocks);
+  if (parseCache.size > PARSE_CACHE_SIZE) parseCache.delete(parseCache.keys().next().value!);
+  return blocks;
+};
@@ -0,0 +1,198 @@
+import { BlockNode, InlineNode, ListNode, parseMarkdown } from './markdown';
+import { HtmlContent, VOID_HTML_TAGS, isSafeUrl } from './html';
+
+// Plain, class-free HTML for places that cannot run the React renderer: feed readers,
+// crawlers and other static output generated at build time. It walks the same syntax tree
+// as the site (lib/markdown.ts), so links, raw HTML and URLs follow the same rules; what
+// needs the site itself (transclusion, footnote previews, typesetting) degrades to text.
+
+export interface MarkdownHtmlOptions {
+  // Absolute URL of a linked note, or null when the target isn't published
+  resolveNote: (target: string) => string | null;
+  // Absolute URL of an image: `embed` is an ![[attachment]] name, otherwise a markdown image path
+  resolveImage: (src: string, embed: boolean) => string;
+  // Absolute URL of a tag page; tags stay plain text without it
+  resolveTag?: (tag: string) => string;
+}
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|svg|webp|bmp)$/i;
+
+export const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const isExternalUrl = (url: string) => /^[a-z][a-z0-9+.-]*:/i.test(url) || url.startsWith('//');
+
+const attributesHtml = (attributes: Record<string, string>) =>
+  Object.entries(attributes).map(([name, value]) => ` ${name}="${escapeHtml(value)}"`).join('');
+
+// <a> around `label`, or the label alone when there is no URL or it isn't one a reader should follow
+const linkHtml = (url: string | null, label: string) =>
+  url && isSafeUrl(url) ? `<a href="${escapeHtml(url)}">${label}</a>` : label;
+
+const imageHtml = (src: string, alt: string, width?: string) =>
+  isSafeUrl(src)
+    ? `<img src="${escapeHtml(src)}" alt="${escapeHtml(alt)}"${width ? ` width="${width}"` : ''}>`
+    : escapeHtml(alt);
+
+// --- Inline ---
+
+const renderWikiLink = (target: string, alias: string | undefined, options: MarkdownHtmlOptions) => {
+  const [note, fragment] = target.split(/#\^?/);
+  const label = alias || (fragment ? `${note.trim()} > ${fragment.trim()}` : note.trim());
+  return linkHtml(options.resolveNote(note.trim()), escapeHtml(label));
+};
+
+const renderEmbed = (target: string, alias: string | undefined, options: MarkdownHtmlOptions) => {
+  if (IMAGE_EXTENSIONS.test(target)) {
+    return imageHtml(options.resolveImage(target, true), target, alias?.match(/^\s*(\d+)/)?.[1]);
+  }
+  // Transcluded notes become a link; feed readers can't fetch the other note
+  return renderWikiLink(target, alias, options);
+};
+
+const renderLinkUrl = (url: string, options: MarkdownHtmlOptions) => {
+  if (isExternalUrl(url) || url.startsWith('#')) return url;
+  const [path] = url.split('#');
+  let decoded = path;
+  try {
+    decoded = decodeURI(path);
+  } catch {
+    // Keep the raw path
+  }
+  return /\.md$/i.test(decoded) ? options.resolveNote(decoded) : url;
+};
+
+const renderInline = (nodes: InlineNode[], options: MarkdownHtmlOptions): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.value);
+        case 'inlineCode':
+          return `<code>${escapeHtml(node.value)}</code>`;
+        case 'inlineMath':
+          return escapeHtml(node.display ? `$$${node.value}$$` : `$${node.value}$`);
+        case 'strong':
+          return `<strong>${renderInline(node.children, options)}</strong>`;
+        case 'emphasis':
+          return `<em>${renderInline(node.children, options)}</em>`;
+        case 'strikethrough':
+          return `<del>${renderInline(node.children, options)}</del>`;
+        case 'highlight':
+          return `<mark>${renderInline(node.children, options)}</mark>`;
+        case 'link':
+          return linkHtml(renderLinkUrl(node.url, options), renderInline(node.children, options));
+        case 'image':
+          return imageHtml(isExternalUrl(node.url) ? node.url : options.resolveImage(node.url, false), node.alt);
+        case 'wikiLink':
+          return renderWikiLink(node.target, node.alias, options);
+        case 'embed':
+          return renderEmbed(node.target, node.alias, options);
+        case 'tag':
+          return options.resolveTag
+            ? linkHtml(options.resolveTag(node.tag), `#${escapeHtml(node.tag)}`)
+            : `#${escapeHtml(node.tag)}`;
+        case 'break':
+          return '<br>';
+        case 'footnoteReference':
+          return `<sup>[${node.index}]</sup>`;
+        case 'htmlInline':
+          return VOID_HTML_TAGS.has(node.tag)
+            ? `<${node.tag}${attributesHtml(node.attributes)}>`
+            : `<${node.tag}${attributesHtml(node.attributes)}>${renderInline(node.children, options)}</${node.tag}>`;
+        default:
+          return '';
+      }
+    })
+    .join('');
+
+// Sanitized HTML blocks, written back out; attributes were already filtered by lib/html.ts
+const renderHtmlContent = (content: HtmlContent[]): string =>
+  content
+    .map(node => {
+      if (typeof node === 'string') return escapeHtml(node);
+      const open = `<${node.tag}${attributesHtml(node.attributes)}>`;
+      return VOID_HTML_TAGS.has(node.tag) ? open : `${open}${renderHtmlContent(node.children)}</${node.tag}>`;
+    })
+    .join('');
+
+// --- Blocks ---
+
+const renderList = (node: ListNode, options: MarkdownHtmlOptions): string => {
+  const items = node.items.map(item => {
+    const task = item.checked === null ? '' : item.checked ? '☑ ' : '☐ ';
+    // The item's first paragraph is written inline, as in a tight list
+    const [first, ...rest] = item.children;
+    const lead = first?.type === 'paragraph' ? renderInline(first.children, options) : first ? renderBlock(first, options) : '';
+    return `<li>${task}${lead}${renderBlocks(rest, options)}</li>`;
+  });
+  if (!node.ordered) return `<ul>${items.join('')}</ul>`;
+  return `<ol${node.start !== 1 ? ` start="${node.start}"` : ''}>${items.join('')}</ol>`;
+};
+
+const renderBlock = (node: BlockNode, options: MarkdownHtmlOptions): string => {
+  switch (node.type) {
+    case 'heading':
+      return `<h${node.level}>${renderInline(node.children, options)}</h${node.level}>`;
+    case 'paragraph':
+      return `<p>${renderInline(node.children, options)}</p>`;
+    case 'code':
+      return `<pre><code${node.lang ? ` class="language-${escapeHtml(node.lang)}"` : ''}>${escapeHtml(node.value)}</code></pre>`;
+    case 'math':
+      return `<pre>${escapeHtml(`$$${node.value}$$`)}</pre>`;
+    case 'blockquote':
+      return `<blockquote>${renderBlocks(node.children, options)}</blockquote>`;
+    case 'callout': {
+      // Callouts keep their title as a bold first line
+      const title = node.title.length > 0
+        ? renderInline(node.title, options)
+        : escapeHtml(node.calloutType.charAt(0).toUpperCase() + node.calloutType.slice(1));
+      return `<blockquote><p><strong>${title}</strong></p>${renderBlocks(node.children, options)}</blockquote>`;
+    }
+    case 'list':
+      return renderList(node, options);
+    case 'table': {
+      const cells = (row: InlineNode[][], tag: string) =>
+        row.map(cell => `<${tag}>${renderInline(cell, options)}</${tag}>`).join('');
+      return `<table><thead><tr>${cells(node.header, 'th')}</tr></thead><tbody>${node.rows
+        .map(row => `<tr>${cells(row, 'td')}</tr>`)
+        .join('')}</tbody></table>`;
+    }
+    case 'thematicBreak':
+      return '<hr>';
+    case 'definitionList':
+      return `<dl>${node.items
+        .map(item => `<dt>${renderInline(item.term, options)}</dt>${item.definitions
+          .map(definition => `<dd>${renderBlocks(definition, options)}</dd>`)
+          .join('')}`)
+        .join('')}</dl>`;
+    case 'details':
+      return `<details${node.open ? ' open' : ''}><summary>${
+        node.summary.length > 0 ? renderInline(node.summary, options) : '详情'
+      }</summary>${renderBlocks(node.children, options)}</details>`;
+    case 'html':
+      return renderHtmlContent(node.content);
+    case 'footnotes':
+      return `<hr><ol>${node.items.map(item => `<li>${renderBlocks(item.children, options)}</li>`).join('')}</ol>`;
+    case 'image':
+    case 'embed':
+      return `<p>${renderInline([node], options)}</p>`;
+    default:
+      return '';
+  }
+};
+
+const renderBlocks = (blocks: BlockNode[], options: MarkdownHtmlOptions): string =>
+  blocks.map(block => renderBlock(block, options)).filter(Boolean).join('\n');
+
+/**
+ * Render a note body (frontmatter already removed) to HTML. %%comments%% are dropped;
+ * math is kept as TeX source, since there is nothing to typeset it outside the site.
+ */
+export const renderMarkdownToHtml = (markdown: string, options: MarkdownHtmlOptions): string =>
+  renderBlocks(parseMarkdown(markdown), options);
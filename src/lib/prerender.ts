@@ -0,0 +1,37 @@
+import { BlogPost, BlogPostSummary, DirectoryNode } from '../types';
+
+// Data a prerendered page starts from (see plugins/prerenderPlugin.ts). The build renders
+// the app with it and embeds it as JSON next to the markup, so the browser hydrates from
+// exactly the same state instead of fetching the note again.
+
+export const PRERENDER_DATA_ID = 'prerendered-data';
+
+export interface PrerenderedData {
+  post: BlogPost;
+  summaries: BlogPostSummary[]; // The note and the notes it links to or is linked from
+  tree: DirectoryNode[];        // Sidebar tree of every published note
+}
+
+let data: PrerenderedData | null | undefined;
+
+// Set by the server entry around each render; the browser reads the embedded JSON once
+export const setPrerenderedData = (value: PrerenderedData | null | undefined) => {
+  data = value;
+};
+
+export const getPrerenderedData = (): PrerenderedData | null => {
+  if (data !== undefined) return data;
+  if (typeof document === 'undefined') return null;
+
+  const element = document.getElementById(PRERENDER_DATA_ID);
+  try {
+    data = element?.textContent ? (JSON.parse(element.textContent) as PrerenderedData) : null;
+  } catch {
+    data = null;
+  }
+  return data;
+};
+
+// `<` is escaped so note content can never close the script element
+export const serializePrerenderedData = (value: PrerenderedData): string =>
+  `<script type="application/json" id="${PRERENDER_DATA_ID}">${JSON.stringify(value).replace(/</g, '\\u003c')}</script>`;
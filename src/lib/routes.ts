@@ -0,0 +1,105 @@
+import { matchPath } from 'react-router-dom';
+import { View } from '../types';
+import { MEDIA_CONFIG } from '../config';
+
+/**
+ * URL scheme for the app's deep-linkable views.
+ *
+ * Posts keep their repository folder structure with the `.md` extension dropped
+ * (`/blog/计算机图形学学习/光照`), scores use the file name without `.abc`
+ * (`/music/canon-in-d`). Tag listings keep nested tags as path segments
+ * (`/tags/graphics/shading`), `/tags` alone is the tag cloud, and `/category/<name>`
+ * lists one category. Every segment is URI-encoded so CJK names and spaces survive.
+ */
+export const ROUTE_PATTERNS = {
+  home: '/',
+  blog: '/blog/*',
+  portfolio: '/portfolio',
+  about: '/about',
+  music: '/music/:score?',
+  tags: '/tags/*',
+  category: '/category/:name',
+} as const;
+
+export const TAGS_PATH = '/tags';
+
+export const VIEW_PATHS: Record<View, string> = {
+  [View.HOME]: '/',
+  [View.BLOG]: '/blog',
+  [View.PORTFOLIO]: '/portfolio',
+  [View.MUSIC]: '/music',
+  [View.ABOUT]: '/about',
+};
+
+export interface RouteState {
+  view: View;
+  postPath: string | null; // Repository path of the open post, including `.md`
+  score: string | null;    // Score file name from MEDIA_CONFIG.scores.files
+  tag: string | null;      // Tag being listed; '' for the tag cloud at /tags
+  category: string | null; // Category being listed
+}
+
+const NO_SELECTION = { postPath: null, score: null, tag: null, category: null };
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+const encodeSegments = (path: string): string =>
+  path.split('/').map(encodeURIComponent).join('/');
+
+export const buildPostUrl = (postPath: string): string =>
+  `${VIEW_PATHS[View.BLOG]}/${encodeSegments(postPath.replace(/\.md$/, ''))}`;
+
+export const buildScoreUrl = (scoreFile: string): string =>
+  scoreFile
+    ? `${VIEW_PATHS[View.MUSIC]}/${encodeURIComponent(scoreFile.replace(/\.abc$/, ''))}`
+    : VIEW_PATHS[View.MUSIC];
+
+export const buildTagUrl = (tag: string): string =>
+  `${TAGS_PATH}/${encodeSegments(tag.replace(/^#/, ''))}`;
+
+export const buildCategoryUrl = (category: string): string =>
+  `/category/${encodeURIComponent(category)}`;
+
+// Map a score slug back to a configured file, accepting names with or without extension
+export const resolveScoreFile = (slug: string): string | null =>
+  MEDIA_CONFIG.scores.files.find(file => file === slug || file.replace(/\.abc$/, '') === slug) ?? null;
+
+export const parseRoute = (pathname: string): RouteState => {
+  const blogMatch = matchPath(ROUTE_PATTERNS.blog, pathname);
+  if (blogMatch) {
+    const splat = safeDecode(blogMatch.params['*'] || '').replace(/\/+$/, '');
+    return { ...NO_SELECTION, view: View.BLOG, postPath: splat ? `${splat}.md` : null };
+  }
+
+  const tagsMatch = matchPath(ROUTE_PATTERNS.tags, pathname);
+  if (tagsMatch) {
+    return { ...NO_SELECTION, view: View.BLOG, tag: safeDecode(tagsMatch.params['*'] || '').replace(/\/+$/, '') };
+  }
+
+  const categoryMatch = matchPath(ROUTE_PATTERNS.category, pathname);
+  if (categoryMatch) {
+    return { ...NO_SELECTION, view: View.BLOG, category: safeDecode(categoryMatch.params.name || '') };
+  }
+
+  const musicMatch = matchPath(ROUTE_PATTERNS.music, pathname);
+  if (musicMatch) {
+    const slug = musicMatch.params.score ? safeDecode(musicMatch.params.score) : '';
+    return { ...NO_SELECTION, view: View.MUSIC, score: slug ? resolveScoreFile(slug) : null };
+  }
+
+  if (matchPath(ROUTE_PATTERNS.portfolio, pathname)) {
+    return { ...NO_SELECTION, view: View.PORTFOLIO };
+  }
+
+  if (matchPath(ROUTE_PATTERNS.about, pathname)) {
+    return { ...NO_SELECTION, view: View.ABOUT };
+  }
+
+  return { ...NO_SELECTION, view: View.HOME };
+};
@@ -0,0 +1,258 @@
+import { BlogPost } from '../types';
+
+// Client-side full-text search over titles, headings, tags and note bodies.
+// Chinese/Japanese/Korean runs are indexed as overlapping bigrams (no dictionary needed),
+// other text as lowercased words reduced by a small English stemmer. The index is plain
+// JSON so it can be stored in the IndexedDB cache (cacheService.ts) next to the notes.
+
+export const SEARCH_INDEX_VERSION = 1;
+
+export interface SearchDocument {
+  path: string;
+  title: string;
+  tags: string[];
+  headings: string[];
+  text: string; // Markdown stripped to plain text, used for snippets
+}
+
+export interface SearchIndex {
+  version: number;
+  docs: SearchDocument[];
+  // term -> flat [docIndex, weight, docIndex, weight, ...]
+  postings: Record<string, number[]>;
+}
+
+export interface SearchResult {
+  path: string;
+  title: string;
+  score: number;
+  snippet: string;
+  highlights: string[]; // Substrings to highlight in the title and snippet
+}
+
+const FIELD_WEIGHTS = { title: 8, tags: 5, headings: 3, text: 1 };
+// Per note: the index is one cache entry, and one larger than the cache's LRU budget (20 MB)
+// isn't stored at all, or would push the cached notes out
+const MAX_TEXT_LENGTH = 20000;
+const SNIPPET_BEFORE = 30;
+const SNIPPET_AFTER = 90;
+
+const CJK_CHARS = '\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uf900-\\ufaff\\uac00-\\ud7af';
+const CJK_RUN = new RegExp(`^[${CJK_CHARS}]+$`);
+const TOKEN_REGEX = new RegExp(`[${CJK_CHARS}]+|[a-z0-9]+`, 'gi');
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'in', 'is', 'it', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// --- Tokenization ---
+
+const hasVowel = (word: string) => /[aeiouy]/.test(word);
+
+/**
+ * Light suffix-stripping stemmer in the spirit of Porter's first steps.
+ * It only has to map related forms to the same key (render/rendering/rendered),
+ * not produce real words, because queries go through the same function.
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let w = word;
+
+  if (w.endsWith('sses')) w = w.slice(0, -2);
+  else if (w.endsWith('ies')) w = `${w.slice(0, -3)}y`;
+  else if (w.endsWith('s') && !/(ss|us|is)$/.test(w)) w = w.slice(0, -1);
+
+  const ed = w.match(/^(.+?)(ed|ing)$/);
+  if (ed && ed[1].length >= 3 && hasVowel(ed[1])) {
+    w = ed[1];
+    if (/([^aeiouslz])\1$/.test(w)) w = w.slice(0, -1); // running -> run
+  }
+
+  const suffixes: [RegExp, string][] = [
+    [/ational$/, 'at'], [/ization$/, 'iz'], [/ation$/, 'at'], [/fulness$/, 'ful'],
+    [/ousness$/, 'ous'], [/iveness$/, 'iv'], [/ment$/, ''], [/ness$/, ''], [/ly$/, ''],
+  ];
+  for (const [suffix, replacement] of suffixes) {
+    if (suffix.test(w)) {
+      const candidate = w.replace(suffix, replacement);
+      if (candidate.length >= 3) w = candidate;
+      break;
+    }
+  }
+
+  if (w.endsWith('e') && w.length > 4) w = w.slice(0, -1);
+  if (w.endsWith('y') && w.length > 4) w = `${w.slice(0, -1)}i`;
+  return w;
+};
+
+const bigrams = (run: string): string[] => {
+  if (run.length === 1) return [run];
+  const grams: string[] = [];
+  for (let i = 0; i < run.length - 1; i++) grams.push(run.slice(i, i + 2));
+  return grams;
+};
+
+export const tokenize = (text: string): string[] => {
+  const tokens: string[] = [];
+  for (const [match] of text.matchAll(TOKEN_REGEX)) {
+    if (CJK_RUN.test(match)) {
+      tokens.push(...bigrams(match));
+    } else {
+      const word = match.toLowerCase();
+      if (!STOP_WORDS.has(word)) tokens.push(stem(word));
+    }
+  }
+  return tokens;
+};
+
+// --- Indexing ---
+
+const stripMarkdown = (markdown: string) =>
+  markdown
+    .replace(/^```.*$/gm, ' ')
+    .replace(/!\[\[[^\]]*\]\]/g, ' ')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+    .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2')
+    .replace(/\[\[([^\]]+)\]\]/g, '$1')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/%%[\s\S]*?%%/g, ' ')
+    .replace(/^\s*>\s*\[![^\]]+\][-+]?/gm, ' ')
+    .replace(/[#*_`~=>|]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const extractHeadings = (markdown: string) =>
+  [...markdown.matchAll(/^#{1,6}\s+(.+?)\s*#*$/gm)].map(match => match[1].trim());
+
+export const buildSearchIndex = (posts: BlogPost[]): SearchIndex => {
+  const postings: Record<string, number[]> = {};
+
+  const docs = posts.map((post, docIndex) => {
+    const doc: SearchDocument = {
+      path: post.path || post.id,
+      title: post.title,
+      tags: post.tags,
+      headings: extractHeadings(post.content),
+      text: stripMarkdown(post.content).slice(0, MAX_TEXT_LENGTH),
+    };
+
+    const weights = new Map<string, number>();
+    const addField = (text: string, weight: number) => {
+      tokenize(text).forEach(token => weights.set(token, (weights.get(token) || 0) + weight));
+    };
+    addField(doc.title, FIELD_WEIGHTS.title);
+    addField(doc.tags.join(' '), FIELD_WEIGHTS.tags);
+    addField(doc.headings.join(' '), FIELD_WEIGHTS.headings);
+    addField(doc.text, FIELD_WEIGHTS.text);
+
+    weights.forEach((weight, token) => {
+      (postings[token] ||= []).push(docIndex, weight);
+    });
+    return doc;
+  });
+
+  return { version: SEARCH_INDEX_VERSION, docs, postings };
+};
+
+// --- Querying ---
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+type TermMatch = 'exact' | 'prefix' | 'contains';
+
+// Scores per document for one query term. The word being typed last matches every indexed
+// term starting with it; a lone CJK character matches every bigram containing it.
+const scoreTerm = (index: SearchIndex, term: string, match: TermMatch): Map<number, number> => {
+  const scores = new Map<number, number>();
+  const add = (list: number[] | undefined) => {
+    if (!list) return;
+    for (let i = 0; i < list.length; i += 2) {
+      scores.set(list[i], (scores.get(list[i]) || 0) + list[i + 1]);
+    }
+  };
+
+  if (match === 'exact') {
+    add(index.postings[term]);
+  } else {
+    Object.keys(index.postings).forEach(key => {
+      if (match === 'prefix' ? key.startsWith(term) : key.includes(term)) add(index.postings[key]);
+    });
+  }
+  return scores;
+};
+
+// Strings to look for in the original text: CJK runs as typed, English words as typed
+const queryHighlights = (query: string): string[] => {
+  const words = [...query.matchAll(TOKEN_REGEX)]
+    .map(([match]) => match)
+    .filter(word => CJK_RUN.test(word) || !STOP_WORDS.has(word.toLowerCase()));
+  // Also try the stem, so "rendering" still highlights "render" in the text
+  const stems = words.filter(word => !CJK_RUN.test(word)).map(word => stem(word.toLowerCase()));
+  return [...new Set([...words, ...stems])].sort((a, b) => b.length - a.length);
+};
+
+const makeSnippet = (text: string, highlights: string[]): string => {
+  if (highlights.length === 0) return text.slice(0, SNIPPET_AFTER);
+  const matcher = new RegExp(highlights.map(escapeRegExp).join('|'), 'i');
+  const position = text.search(matcher);
+  if (position === -1) return text.slice(0, SNIPPET_AFTER) + (text.length > SNIPPET_AFTER ? '…' : '');
+
+  const start = Math.max(0, position - SNIPPET_BEFORE);
+  const end = Math.min(text.length, position + SNIPPET_AFTER);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+/**
+ * Rank notes containing every query term (title and tag hits weigh most).
+ */
+export const searchIndex = (index: SearchIndex, query: string, limit = 20): SearchResult[] => {
+  const rawTerms = [...query.matchAll(TOKEN_REGEX)].map(([match]) => match);
+  if (rawTerms.length === 0) return [];
+
+  const termScores: Map<number, number>[] = [];
+  rawTerms.forEach((raw, position) => {
+    const isLast = position === rawTerms.length - 1;
+    if (CJK_RUN.test(raw)) {
+      bigrams(raw).forEach(gram => termScores.push(scoreTerm(index, gram, gram.length === 1 ? 'contains' : 'exact')));
+    } else if (!STOP_WORDS.has(raw.toLowerCase())) {
+      const word = raw.toLowerCase();
+      // The last word may still be half typed
+      termScores.push(isLast
+        ? scoreTerm(index, word.slice(0, Math.max(2, stem(word).length)), 'prefix')
+        : scoreTerm(index, stem(word), 'exact'));
+    }
+  });
+  if (termScores.length === 0) return [];
+
+  const [first, ...rest] = termScores;
+  const results: { docIndex: number, score: number }[] = [];
+  first.forEach((score, docIndex) => {
+    let total = score;
+    for (const scores of rest) {
+      const termScore = scores.get(docIndex);
+      if (termScore === undefined) return;
+      total += termScore;
+    }
+    results.push({ docIndex, score: total });
+  });
+
+  const highlights = queryHighlights(query);
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ docIndex, score }) => {
+      const doc = index.docs[docIndex];
+      return { path: doc.path, title: doc.title, score, snippet: makeSnippet(doc.text, highlights), highlights };
+    });
+};
+
+/**
+ * Split text into plain and highlighted parts for rendering.
+ */
+export const splitHighlights = (text: string, highlights: string[]): { text: string, match: boolean }[] => {
+  if (highlights.length === 0) return [{ text, match: false }];
+  const matcher = new RegExp(`(${highlights.map(escapeRegExp).join('|')})`, 'gi');
+  return text
+    .split(matcher)
+    .filter(Boolean)
+    .map(part => ({ text: part, match: highlights.some(h => h.toLowerCase() === part.toLowerCase()) }));
+};
@@ -0,0 +1,205 @@
+import { BlogPostSummary, View } from '../types';
+import { GITHUB_CONFIG, SITE_CONFIG } from '../config';
+import { TAGS_PATH, VIEW_PATHS, buildCategoryUrl, buildPostUrl, buildTagUrl } from './routes';
+import { escapeHtml } from './markdownHtml';
+import { BlockNode, InlineNode, parseMarkdown, toPlainText as toInlineText } from './markdown';
+
+// Per-route <title>, description, OpenGraph and Twitter tags.
+// The same descriptions are injected into the prerendered HTML at build time (for crawlers
+// and link previews) and applied to document.head while navigating in the browser.
+
+export interface PageMeta {
+  title: string;
+  description: string;
+  path: string;   // Route path, made absolute against the site URL
+  type: 'website' | 'article';
+  image?: string; // Absolute URL, site path or repository path of the cover image
+  publishedTime?: string;
+  modifiedTime?: string;
+  tags?: string[];
+}
+
+interface MetaTag {
+  attribute: 'name' | 'property';
+  key: string;
+  content: string;
+}
+
+const DESCRIPTION_LENGTH = 160;
+
+const VIEW_TITLES: Record<View, string> = {
+  [View.HOME]: SITE_CONFIG.title,
+  [View.BLOG]: '魔女的魔法书',
+  [View.PORTFOLIO]: '魔法作品',
+  [View.MUSIC]: '旋律魔女',
+  [View.ABOUT]: '关于我',
+};
+
+const VIEW_DESCRIPTIONS: Record<View, string> = {
+  [View.HOME]: `${SITE_CONFIG.authorName} 的个人站点：${SITE_CONFIG.skills}`,
+  [View.BLOG]: SITE_CONFIG.description,
+  [View.PORTFOLIO]: '用代码和咖啡创造的神器。',
+  [View.MUSIC]: '用 ABC 记谱法书写并演奏的乐谱。',
+  [View.ABOUT]: SITE_CONFIG.authorBio.replace(/^"|"$/g, ''),
+};
+
+const withSiteTitle = (title: string) => (title === SITE_CONFIG.title ? title : `${title} | ${SITE_CONFIG.title}`);
+
+// Readable text of inline content; links to other notes read as their alias or the note's name
+const inlineText = (nodes: InlineNode[]): string =>
+  nodes
+    .map(node => {
+      switch (node.type) {
+        case 'wikiLink':
+        case 'embed':
+          return node.alias ?? node.target.split(/[#^]/)[0];
+        case 'footnoteReference':
+          return '';
+        default:
+          return 'children' in node ? inlineText(node.children) : toInlineText([node]);
+      }
+    })
+    .join('');
+
+// Code, math, raw HTML and footnotes say little in a description and are left out
+const blockText = (block: BlockNode): string => {
+  switch (block.type) {
+    case 'heading':
+    case 'paragraph':
+      return inlineText(block.children);
+    case 'blockquote':
+    case 'callout':
+    case 'details':
+      return block.children.map(blockText).join(' ');
+    case 'list':
+      return block.items.map(item => item.children.map(blockText).join(' ')).join(' ');
+    case 'table':
+      return [block.header, ...block.rows].map(row => row.map(inlineText).join(' ')).join(' ');
+    case 'definitionList':
+      return block.items.map(item => [inlineText(item.term), ...item.definitions.flat().map(blockText)].join(' ')).join(' ');
+    case 'image':
+    case 'embed':
+      return inlineText([block]);
+    default:
+      return '';
+  }
+};
+
+// Excerpts are cut from raw markdown; keep only readable text for descriptions
+export const toPlainText = (markdown: string, maxLength = DESCRIPTION_LENGTH): string => {
+  const text = parseMarkdown(markdown.replace(/\.\.\.$/, ''))
+    .map(blockText)
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+};
+
+export const getViewMeta = (view: View): PageMeta => ({
+  title: withSiteTitle(VIEW_TITLES[view]),
+  description: VIEW_DESCRIPTIONS[view],
+  path: VIEW_PATHS[view],
+  type: 'website',
+});
+
+export const getPostMeta = (post: BlogPostSummary): PageMeta => ({
+  title: withSiteTitle(post.title),
+  description: toPlainText(post.excerpt) || SITE_CONFIG.description,
+  path: buildPostUrl(post.path || post.id),
+  type: 'article',
+  image: post.cover_image,
+  publishedTime: post.published_at,
+  modifiedTime: post.updated_at,
+  tags: post.tags,
+});
+
+// `tag` is '' for the tag cloud itself
+export const getTagMeta = (tag: string): PageMeta => ({
+  title: withSiteTitle(tag ? `#${tag}` : '标签'),
+  description: tag ? `带有 #${tag} 标签的笔记` : '所有分类与标签',
+  path: tag ? buildTagUrl(tag) : TAGS_PATH,
+  type: 'website',
+});
+
+export const getCategoryMeta = (category: string): PageMeta => ({
+  title: withSiteTitle(category),
+  description: `「${category}」分类下的笔记`,
+  path: buildCategoryUrl(category),
+  type: 'website',
+});
+
+// Cover images may be URLs, site paths, or attachments written as `img.png` / `[[img.png]]`
+export const resolveImageUrl = (image: string, siteUrl: string): string => {
+  const cleaned = image.trim().replace(/^!?\[\[([^\]|]+)(\|[^\]]*)?\]\]$/, '$1');
+  if (/^https?:\/\//i.test(cleaned)) return cleaned;
+  if (cleaned.startsWith('/')) return `${siteUrl}${cleaned}`;
+  const path = cleaned.includes('/') ? cleaned : `${GITHUB_CONFIG.attachmentsPath}/${cleaned}`;
+  const query = new URLSearchParams({ owner: GITHUB_CONFIG.username, repo: GITHUB_CONFIG.repo, path });
+  return `${siteUrl}/api/github/raw?${query}`;
+};
+
+const isoDate = (date?: string) => {
+  const time = date ? Date.parse(date) : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+};
+
+const getMetaTags = (meta: PageMeta, siteUrl: string): MetaTag[] => {
+  const url = `${siteUrl}${meta.path}`;
+  const image = meta.image ? resolveImageUrl(meta.image, siteUrl) : undefined;
+  const tags: (MetaTag | null)[] = [
+    { attribute: 'name', key: 'description', content: meta.description },
+    { attribute: 'property', key: 'og:site_name', content: SITE_CONFIG.title },
+    { attribute: 'property', key: 'og:title', content: meta.title },
+    { attribute: 'property', key: 'og:description', content: meta.description },
+    { attribute: 'property', key: 'og:type', content: meta.type },
+    { attribute: 'property', key: 'og:url', content: url },
+    { attribute: 'property', key: 'og:locale', content: 'zh_CN' },
+    image ? { attribute: 'property', key: 'og:image', content: image } : null,
+    { attribute: 'name', key: 'twitter:card', content: image ? 'summary_large_image' : 'summary' },
+    { attribute: 'name', key: 'twitter:title', content: meta.title },
+    { attribute: 'name', key: 'twitter:description', content: meta.description },
+    image ? { attribute: 'name', key: 'twitter:image', content: image } : null,
+  ];
+  if (meta.type === 'article') {
+    const published = isoDate(meta.publishedTime);
+    const modified = isoDate(meta.modifiedTime);
+    if (published) tags.push({ attribute: 'property', key: 'article:published_time', content: published });
+    if (modified) tags.push({ attribute: 'property', key: 'article:modified_time', content: modified });
+    meta.tags?.forEach(tag => tags.push({ attribute: 'property', key: 'article:tag', content: tag }));
+  }
+  return tags.filter((tag): tag is MetaTag => tag !== null);
+};
+
+// Tags written into prerendered HTML carry this marker so the browser can replace them later
+const MANAGED_ATTRIBUTE = 'data-page-meta';
+
+/** `<title>`, canonical link and meta tags as an HTML string, for build-time injection. */
+export const renderPageMeta = (meta: PageMeta, siteUrl: string): string =>
+  [
+    `<title>${escapeHtml(meta.title)}</title>`,
+    `<link rel="canonical" href="${escapeHtml(`${siteUrl}${meta.path}`)}" ${MANAGED_ATTRIBUTE} />`,
+    ...getMetaTags(meta, siteUrl).map(
+      tag => `<meta ${tag.attribute}="${tag.key}" content="${escapeHtml(tag.content)}" ${MANAGED_ATTRIBUTE} />`
+    ),
+  ].join('\n    ');
+
+/** Replace the page's title and meta tags in the browser (no-op outside it). */
+export const applyPageMeta = (meta: PageMeta, siteUrl = typeof window !== 'undefined' ? window.location.origin : '') => {
+  if (typeof document === 'undefined') return;
+  document.title = meta.title;
+  document.head.querySelectorAll(`[${MANAGED_ATTRIBUTE}]`).forEach(element => element.remove());
+
+  const canonical = document.createElement('link');
+  canonical.rel = 'canonical';
+  canonical.href = `${siteUrl}${meta.path}`;
+  canonical.setAttribute(MANAGED_ATTRIBUTE, '');
+  document.head.appendChild(canonical);
+
+  getMetaTags(meta, siteUrl).forEach(tag => {
+    const element = document.createElement('meta');
+    element.setAttribute(tag.attribute, tag.key);
+    element.setAttribute('content', tag.content);
+    element.setAttribute(MANAGED_ATTRIBUTE, '');
+    document.head.appendChild(element);
+  });
+};
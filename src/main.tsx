@@ -1,41 +1,25 @@
 import './styles/index.css';
-import React, { StrictMode, Suspense, lazy } from 'react';
-import { createRoot } from 'react-dom/client';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
-import App from './App';
+import React, { StrictMode } from 'react';
+import { createRoot, hydrateRoot } from 'react-dom/client';
+import { BrowserRouter } from 'react-router-dom';
+import AppRoutes from './AppRoutes';
 import ErrorBoundary from './components/common/ErrorBoundary';
+import { getPrerenderedData } from './lib/prerender';
 
-// Lazy load UI preview page only in dev mode
-const UIPreviewPage = import.meta.env.DEV 
-  ? lazy(() => import('./pages/UIPreviewPage'))
-  : null;
-
-const root = createRoot(document.getElementById('root')!);
-root.render(
+const container = document.getElementById('root')!;
+const app = (
   <ErrorBoundary>
     <StrictMode>
       <BrowserRouter>
-        <Routes>
-          {/* Dev-only UI preview route */}
-          {import.meta.env.DEV && (
-            <Route 
-              path="/ui-preview" 
-              element={
-                <Suspense fallback={
-                  <div className="flex items-center justify-center h-screen bg-gradient-to-br from-slate-950 via-purple-950 to-slate-950 text-purple-400">
-                    Loading UI Preview...
-                  </div>
-                }>
-                  <UIPreviewPage />
-                </Suspense>
-              } 
-            />
-          )}
-          
-          {/* Main application route - catches all other paths */}
-          <Route path="*" element={<App />} />
-        </Routes>
+        <AppRoutes />
       </BrowserRouter>
     </StrictMode>
   </ErrorBoundary>
 );
+
+// Prerendered notes already contain the markup for their route; attach to it instead of replacing it
+if (getPrerenderedData()) {
+  hydrateRoot(container, app);
+} else {
+  createRoot(container).render(app);
+}
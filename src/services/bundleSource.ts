@@ -0,0 +1,54 @@
+import { ContentBundle, ContentBundleFile } from '../types';
+import { getEnv } from '../constants';
+import { CONTENT_BUNDLE_FILE, CONTENT_BUNDLE_VERSION } from '../lib/content';
+import type { ContentSource } from './contentSource';
+
+// Every note in one static JSON file: /content-bundle.json from a build with CONTENT_BUNDLE=on,
+// or any file of the same shape named by VITE_CONTENT_BUNDLE_URL. Attachments are expected
+// next to the bundle, under their paths in the notes repository.
+
+const getBundleUrl = () => getEnv('CONTENT_BUNDLE_URL') || `/${CONTENT_BUNDLE_FILE}`;
+
+let bundlePromise: Promise<Map<string, ContentBundleFile>> | null = null;
+
+const loadBundle = (): Promise<Map<string, ContentBundleFile>> => {
+  if (!bundlePromise) {
+    bundlePromise = fetch(getBundleUrl())
+      .then(async res => {
+        if (!res.ok) throw new Error(`Content bundle responded ${res.status}`);
+        const bundle: ContentBundle = await res.json();
+        if (bundle.version !== CONTENT_BUNDLE_VERSION) {
+          throw new Error(`Content bundle version ${bundle.version} is not supported`);
+        }
+        return new Map(bundle.files.map(file => [file.path, file]));
+      })
+      .catch(error => {
+        bundlePromise = null; // Retried on the next read
+        throw error;
+      });
+  }
+  return bundlePromise;
+};
+
+export const bundleSource: ContentSource = {
+  id: 'bundle',
+  label: '静态内容包',
+  isAvailable: () => true,
+
+  listTree: async () => ({
+    files: [...(await loadBundle()).values()].map(({ path, sha }) => ({ path, sha })),
+  }),
+
+  readFile: async path => {
+    const file = (await loadBundle()).get(path);
+    return file ? { text: file.text, sha: file.sha } : null;
+  },
+
+  readMetadata: async path => {
+    const file = (await loadBundle()).get(path);
+    return file ? { lastCommitDate: file.lastCommitDate } : null;
+  },
+
+  resolveAttachmentUrl: path =>
+    getBundleUrl().replace(/[^/]*$/, '') + path.split('/').map(encodeURIComponent).join('/'),
+};
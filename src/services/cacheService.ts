@@ -0,0 +1,285 @@
+// Persistent cache for GitHub content.
+// Entries live in IndexedDB (two object stores: the data, and small metadata records that
+// are read once at startup to track sizes and access times). Where IndexedDB is missing,
+// such as some private windows or the prerenderer, a per-session Map stands in.
+// The total size is kept under CACHE_BUDGET by evicting the least recently used entries.
+// Freshness is not decided here: entries never expire, callers compare SHAs or ETags.
+
+export interface CacheMeta {
+  key: string;
+  size: number;       // Approximate bytes of the JSON-encoded data
+  etag?: string;      // From the proxy, for conditional revalidation
+  sha?: string;       // Blob SHA the data was built from
+  storedAt: number;
+  checkedAt: number;  // Last time the data was confirmed current
+  accessedAt: number;
+}
+
+export interface CacheEntry<T> extends CacheMeta {
+  data: T;
+}
+
+export interface CacheStats {
+  backend: 'indexeddb' | 'memory';
+  entries: number;
+  bytes: number;
+  budget: number;
+  hits: number;
+  misses: number;
+  staleHits: number;     // Served immediately while revalidating
+  revalidations: number; // Background checks that completed
+  updates: number;       // ...of which found changed content
+  evictions: number;
+}
+
+export type CacheEvent = 'stale' | 'revalidated' | 'updated';
+
+export const CACHE_BUDGET = 20 * 1024 * 1024;
+
+const DB_NAME = 'blogsweb-cache';
+const DB_VERSION = 1;
+const DATA_STORE = 'entries';
+const META_STORE = 'meta';
+// Entries from the localStorage cache this replaced
+const LEGACY_PREFIX = 'gh_cache_';
+
+const counters = { hits: 0, misses: 0, staleHits: 0, revalidations: 0, updates: 0, evictions: 0 };
+
+const EVENT_COUNTERS: Record<CacheEvent, keyof typeof counters> = {
+  stale: 'staleHits',
+  revalidated: 'revalidations',
+  updated: 'updates',
+};
+
+// --- IndexedDB ---
+
+const requestResult = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const clearLegacyCache = () => {
+  if (typeof localStorage === 'undefined') return;
+  Object.keys(localStorage).forEach(key => {
+    if (key.startsWith(LEGACY_PREFIX)) localStorage.removeItem(key);
+  });
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+// Resolves to null when IndexedDB is unavailable or refuses to open
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DATA_STORE);
+        request.result.createObjectStore(META_STORE, { keyPath: 'key' });
+        clearLegacyCache();
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, caching in memory only', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// --- Index ---
+
+const memoryData = new Map<string, unknown>();
+let indexPromise: Promise<Map<string, CacheMeta>> | null = null;
+
+const loadIndex = (): Promise<Map<string, CacheMeta>> => {
+  if (!indexPromise) {
+    indexPromise = openDatabase().then(async db => {
+      if (!db) return new Map<string, CacheMeta>();
+      try {
+        const records = await requestResult(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+        return new Map((records as CacheMeta[]).map(meta => [meta.key, meta]));
+      } catch (e) {
+        console.warn('Cache index could not be read', e);
+        return new Map<string, CacheMeta>();
+      }
+    });
+  }
+  return indexPromise;
+};
+
+const measure = (data: unknown) => new Blob([JSON.stringify(data) ?? '']).size;
+
+const totalBytes = (index: Map<string, CacheMeta>) => {
+  let bytes = 0;
+  index.forEach(meta => { bytes += meta.size; });
+  return bytes;
+};
+
+const writeMeta = async (meta: CacheMeta) => {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    await requestResult(db.transaction(META_STORE, 'readwrite').objectStore(META_STORE).put(meta));
+  } catch (e) {
+    console.warn(`Cache metadata write failed for ${meta.key}`, e);
+  }
+};
+
+const removeKeys = async (keys: string[]) => {
+  keys.forEach(key => memoryData.delete(key));
+  const db = await openDatabase();
+  if (!db || keys.length === 0) return;
+  try {
+    const transaction = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+    keys.forEach(key => {
+      transaction.objectStore(DATA_STORE).delete(key);
+      transaction.objectStore(META_STORE).delete(key);
+    });
+    await transactionDone(transaction);
+  } catch (e) {
+    console.warn('Cache eviction failed', e);
+  }
+};
+
+// Least recently used first, never the entry that was just written
+const evict = async (index: Map<string, CacheMeta>, keep: string) => {
+  let bytes = totalBytes(index);
+  if (bytes <= CACHE_BUDGET) return;
+
+  const evicted: string[] = [];
+  [...index.values()]
+    .filter(meta => meta.key !== keep)
+    .sort((a, b) => a.accessedAt - b.accessedAt)
+    .some(meta => {
+      evicted.push(meta.key);
+      index.delete(meta.key);
+      bytes -= meta.size;
+      return bytes <= CACHE_BUDGET;
+    });
+  counters.evictions += evicted.length;
+  await removeKeys(evicted);
+};
+
+// --- API ---
+
+export const cacheGet = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const index = await loadIndex();
+  const meta = index.get(key);
+  if (!meta) {
+    counters.misses++;
+    return null;
+  }
+
+  let data = memoryData.get(key) as T | undefined;
+  const db = await openDatabase();
+  if (db) {
+    try {
+      data = await requestResult(db.transaction(DATA_STORE).objectStore(DATA_STORE).get(key));
+    } catch (e) {
+      console.warn(`Cache read failed for ${key}`, e);
+    }
+  }
+  if (data === undefined) {
+    // Metadata without data: cleared by the browser or a failed write
+    index.delete(key);
+    counters.misses++;
+    await removeKeys([key]);
+    return null;
+  }
+
+  counters.hits++;
+  meta.accessedAt = Date.now();
+  void writeMeta(meta);
+  return { ...meta, data };
+};
+
+export const cacheSet = async (key: string, data: unknown, { etag, sha }: { etag?: string; sha?: string } = {}) => {
+  const size = measure(data);
+  if (size > CACHE_BUDGET) return;
+
+  const index = await loadIndex();
+  const now = Date.now();
+  const meta: CacheMeta = { key, size, etag, sha, storedAt: now, checkedAt: now, accessedAt: now };
+
+  const db = await openDatabase();
+  if (db) {
+    try {
+      const transaction = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+      transaction.objectStore(DATA_STORE).put(data, key);
+      transaction.objectStore(META_STORE).put(meta);
+      await transactionDone(transaction);
+    } catch (e) {
+      // Quota exceeded or data that can't be cloned - the value is simply not cached
+      console.warn(`Cache write skipped for ${key}`, e);
+      return;
+    }
+  } else {
+    memoryData.set(key, data);
+  }
+
+  index.set(key, meta);
+  await evict(index, key);
+};
+
+// The data was confirmed current (e.g. a 304), so it isn't checked again for a while
+export const cacheTouch = async (key: string) => {
+  const meta = (await loadIndex()).get(key);
+  if (!meta) return;
+  meta.checkedAt = Date.now();
+  await writeMeta(meta);
+};
+
+// Forces a revalidation on the next read; the data is still served until then
+export const cacheExpire = async (key: string) => {
+  const meta = (await loadIndex()).get(key);
+  if (!meta) return;
+  meta.checkedAt = 0;
+  meta.sha = undefined;
+  await writeMeta(meta);
+};
+
+export const cacheDelete = async (key: string) => {
+  (await loadIndex()).delete(key);
+  await removeKeys([key]);
+};
+
+export const cacheClear = async () => {
+  clearLegacyCache();
+  memoryData.clear();
+  (await loadIndex()).clear();
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    const transaction = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+    transaction.objectStore(DATA_STORE).clear();
+    transaction.objectStore(META_STORE).clear();
+    await transactionDone(transaction);
+  } catch (e) {
+    console.warn('Cache clear failed', e);
+  }
+};
+
+export const countCacheEvent = (event: CacheEvent) => {
+  counters[EVENT_COUNTERS[event]]++;
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  const index = await loadIndex();
+  return {
+    backend: (await openDatabase()) ? 'indexeddb' : 'memory',
+    entries: index.size,
+    bytes: totalBytes(index),
+    budget: CACHE_BUDGET,
+    ...counters,
+  };
+};
@@ -0,0 +1,231 @@
+import { BlogPost, BlogPostSummary, DirectoryNode } from '../types';
+import { isPreviewMode } from '../data/mockData';
+import { mapWithConcurrency } from '../lib/utils';
+import { RepoFile, buildPost, buildTree, getPostVisibility, summarizePost } from '../lib/content';
+import { cacheClear, cacheGet, cacheSet, countCacheEvent } from './cacheService';
+import { ContentSource, SourceChange, SourceRevision, SourceTree, getContentSource } from './contentSource';
+
+// Posts, listings and the directory tree, built from whichever content source is active
+// (see contentSource.ts). Summaries are cached per source with the blob SHA they were
+// built from; changes a source reports while watched reach the UI through subscribeContentUpdates().
+
+const SUMMARY_CONCURRENCY = 4; // Parallel file/metadata reads while indexing posts
+export const HISTORY_PAGE_SIZE = 20; // The webhook invalidates pages of this size (api/_lib/githubUrls.ts)
+
+export const clearBlogCache = async () => {
+  await cacheClear();
+  console.log("Magic cache cleared.");
+};
+
+export const getCache = async <T>(key: string): Promise<T | null> => (await cacheGet<T>(key))?.data ?? null;
+
+export const setCache = <T>(key: string, data: T) => cacheSet(key, data);
+
+export type ContentUpdate =
+  | { type: 'index' }                 // The tree changed; reload listings
+  | { type: 'post'; post: BlogPost }; // A loaded note was replaced by a newer version
+
+const contentListeners = new Set<(update: ContentUpdate) => void>();
+
+export const subscribeContentUpdates = (listener: (update: ContentUpdate) => void) => {
+  contentListeners.add(listener);
+  return () => {
+    contentListeners.delete(listener);
+  };
+};
+
+const emitContentUpdate = (update: ContentUpdate) => contentListeners.forEach(listener => listener(update));
+
+// --- Tree ---
+// The most recent tree of each source, so single posts can be checked without listing again
+
+const knownFiles = new Map<string, { sha: string; summary?: BlogPostSummary }>();
+
+const fileKey = (source: ContentSource, path: string) => `${source.id}:${path}`;
+
+const rememberTree = (source: ContentSource, { files, summaries }: SourceTree) =>
+  files.forEach(file => knownFiles.set(fileKey(source, file.path), { sha: file.sha, summary: summaries?.[file.path] }));
+
+const knownSha = (source: ContentSource, path: string) => knownFiles.get(fileKey(source, path))?.sha;
+
+// --- Visibility ---
+// Drafts, unpublished and scheduled notes are left out, except in preview deployments
+// where they stay visible (with a badge) for proofreading.
+
+const isListed = (post: BlogPostSummary) => isPreviewMode() || getPostVisibility(post) === 'published';
+
+// v6: one entry per source and path; its SHA tells whether it still matches the tree
+const summaryCacheKey = (source: ContentSource, path: string) => `summary_v6_${source.id}_${path}`;
+
+interface KnownSummary {
+  summary: BlogPostSummary;
+  current: boolean; // False when cached for an older blob SHA
+}
+
+// Metadata already known without reading the file: supplied with the tree, or a cached summary
+const getKnownSummary = async (source: ContentSource, file: RepoFile): Promise<KnownSummary | null> => {
+  const supplied = knownFiles.get(fileKey(source, file.path))?.summary;
+  if (supplied && supplied.sha === file.sha) return { summary: supplied, current: true };
+  const entry = await cacheGet<BlogPostSummary>(summaryCacheKey(source, file.path));
+  return entry ? { summary: entry.data, current: entry.sha === file.sha } : null;
+};
+
+// Notes whose metadata isn't loaded yet stay in the tree until their summary says otherwise
+const buildVisibleTree = async (source: ContentSource, files: RepoFile[]) => {
+  const known = await Promise.all(files.map(file => getKnownSummary(source, file)));
+  const hidden = new Set(files.filter((_, i) => known[i] && !isListed(known[i]!.summary)).map(file => file.path));
+  return buildTree(files, file => !hidden.has(file.path));
+};
+
+/**
+ * Directory tree and file list of the published notes.
+ * Calling it again after fetchPostSummaries() drops notes whose frontmatter hides them.
+ */
+export const fetchBlogIndex = async (): Promise<{ tree: DirectoryNode[], allFiles: RepoFile[], error?: boolean }> => {
+  const source = getContentSource();
+  try {
+    const sourceTree = await source.listTree();
+    rememberTree(source, sourceTree);
+    return { tree: await buildVisibleTree(source, sourceTree.files), allFiles: sourceTree.files };
+  } catch (e) {
+    console.error(`Failed to fetch blog index from ${source.id}`, e);
+    return { tree: [], allFiles: [], error: true };
+  }
+};
+
+// --- Posts ---
+
+// Read and build a post; `sha` comes back unset when the text couldn't be matched to the tree
+const loadPost = async (source: ContentSource, path: string, sha?: string): Promise<{ post: BlogPost; sha?: string } | null> => {
+  const [file, metadata] = await Promise.all([source.readFile(path, sha), source.readMetadata(path, sha)]);
+  if (!file) return null;
+  const post = buildPost(path, file.text, metadata?.lastCommitDate ?? null);
+  if (post.frontmatterWarnings) {
+    console.warn(`Frontmatter issues in ${path}:\n${post.frontmatterWarnings.join('\n')}`);
+  }
+  return { post, sha: file.sha };
+};
+
+const dateValue = (post: BlogPostSummary) => {
+  const time = Date.parse(post.published_at || post.date);
+  return Number.isNaN(time) ? -Infinity : time;
+};
+
+// Newest first; posts without a parsable date go last
+export const sortPostsByDate = <T extends BlogPostSummary>(posts: T[]): T[] =>
+  [...posts].sort((a, b) => dateValue(b) - dateValue(a) || a.title.localeCompare(b.title));
+
+/**
+ * Build listing metadata for every indexed file.
+ * Summaries are cached with their blob SHA, so after the first visit only changed files
+ * are read again; until then their previous summary is listed. `onProgress` receives
+ * the sorted list each time another summary is ready, letting the listing fill in incrementally.
+ */
+export const fetchPostSummaries = async (
+  files: RepoFile[],
+  onProgress?: (summaries: BlogPostSummary[]) => void
+): Promise<BlogPostSummary[]> => {
+  const source = getContentSource();
+  const summaries = new Map<string, BlogPostSummary>();
+  const report = () => onProgress?.(sortPostsByDate([...summaries.values()].filter(isListed)));
+
+  const known = await Promise.all(files.map(file => getKnownSummary(source, file)));
+
+  // Serve everything supplied or cached first (outdated summaries included), then read
+  // missing and changed files with limited concurrency
+  const outdated = files.filter((file, i) => {
+    if (!known[i]) return true;
+    summaries.set(file.path, known[i]!.summary);
+    if (!known[i]!.current) countCacheEvent('stale');
+    return !known[i]!.current;
+  });
+  if (summaries.size > 0) report();
+
+  await mapWithConcurrency(outdated, SUMMARY_CONCURRENCY, async (file) => {
+    try {
+      const loaded = await loadPost(source, file.path, file.sha);
+      if (!loaded) return;
+      const summary = summarizePost(loaded.post, file.sha);
+      await cacheSet(summaryCacheKey(source, file.path), summary, { sha: loaded.sha });
+      summaries.set(file.path, summary);
+      report();
+    } catch (e) {
+      console.warn(`Failed to index ${file.path}`, e);
+    }
+  });
+
+  return sortPostsByDate([...summaries.values()].filter(isListed));
+};
+
+export const fetchPostContent = async (path: string): Promise<BlogPost | null> => {
+  try {
+    const loaded = await loadPost(getContentSource(), path, knownSha(getContentSource(), path));
+    return loaded && isListed(loaded.post) ? loaded.post : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const fetchBlogPosts = async (): Promise<BlogPost[]> => {
+  const { allFiles } = await fetchBlogIndex();
+  const posts = await mapWithConcurrency(allFiles, SUMMARY_CONCURRENCY, f => fetchPostContent(f.path));
+  return sortPostsByDate(posts.filter((p): p is BlogPost => p !== null));
+};
+
+// URL of an image or attachment referenced by a note
+export const resolveAttachmentUrl = (path: string): string => getContentSource().resolveAttachmentUrl(path);
+
+// --- History ---
+// Only sources backed by git (GitHub, a local checkout) have one
+
+export const supportsHistory = (): boolean => !!getContentSource().listRevisions;
+
+export interface RevisionPage {
+  revisions: SourceRevision[]; // Newest first
+  hasMore: boolean;
+}
+
+export const fetchPostHistory = async (path: string, page = 1): Promise<RevisionPage> => {
+  const source = getContentSource();
+  if (!source.listRevisions) return { revisions: [], hasMore: false };
+  const revisions = await source.listRevisions(path, page, HISTORY_PAGE_SIZE, knownSha(source, path));
+  return { revisions, hasMore: revisions.length === HISTORY_PAGE_SIZE };
+};
+
+// Raw text (frontmatter included) at a commit; null where the file didn't exist or can't be read
+export const fetchRevisionText = async (path: string, revision: string): Promise<string | null> =>
+  (await getContentSource().readFileAt?.(path, revision)) ?? null;
+
+// The note as it was at a commit, dated by that commit
+export const fetchPostAtRevision = async (path: string, revision: SourceRevision): Promise<BlogPost | null> => {
+  const text = await fetchRevisionText(path, revision.sha);
+  return text === null ? null : buildPost(path, text, revision.date.split('T')[0] || null);
+};
+
+// --- Watching ---
+
+const handleSourceChange = async (source: ContentSource, change: SourceChange) => {
+  if (getContentSource() !== source) return; // Switched away in the meantime
+  if (change.type === 'tree') {
+    emitContentUpdate({ type: 'index' });
+    return;
+  }
+  // The newer text is what the source serves now, so the listing can use it too
+  const sha = knownSha(source, change.path);
+  const loaded = await loadPost(source, change.path, sha);
+  if (!loaded) return;
+  await cacheSet(summaryCacheKey(source, change.path), summarizePost(loaded.post, sha), { sha: loaded.sha });
+  if (isListed(loaded.post)) emitContentUpdate({ type: 'post', post: loaded.post });
+};
+
+/**
+ * Follow changes of the active source (pushes, edits to local notes, newer cached copies).
+ * Returns a function that stops watching; call it again after switching sources.
+ */
+export const watchContentSource = (): (() => void) => {
+  const source = getContentSource();
+  const stop = source.watch?.(change => {
+    handleSourceChange(source, change).catch(e => console.warn(`Failed to apply a change from ${source.id}`, e));
+  });
+  return stop ?? (() => {});
+};
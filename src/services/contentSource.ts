@@ -0,0 +1,88 @@
+import type { BlogPostSummary } from '../types';
+import type { RepoFile } from '../lib/content';
+import { getEnv } from '../constants';
+import { githubSource } from './githubService';
+import { localSource } from './localSource';
+import { bundleSource } from './bundleSource';
+import { mockSource } from './mockSource';
+
+// Where the notes come from. contentService builds posts, summaries and the tree on top of
+// whichever source is active; a source only lists files and reads them.
+//   github -> the /api/github proxy (default)
+//   local  -> CONTENT_REPO_DIR served by the dev server, no token needed (plugins/localNotesPlugin.ts)
+//   bundle -> every note in one static JSON file (CONTENT_BUNDLE=on at build time)
+//   mock   -> the sample posts in data/mockData.ts
+// VITE_CONTENT_SOURCE picks the source at startup; the preview console switches it at runtime.
+
+export type ContentSourceId = 'github' | 'local' | 'bundle' | 'mock';
+
+export interface SourceTree {
+  files: RepoFile[]; // Published notes only
+  // Listing metadata the source already has (the build-time index), valid where the SHA matches
+  summaries?: Record<string, BlogPostSummary>;
+}
+
+export interface SourceFile {
+  text: string;
+  sha?: string; // Blob SHA the text is known to match; unset when it couldn't be confirmed
+}
+
+export interface SourceMetadata {
+  lastCommitDate: string | null; // YYYY-MM-DD
+}
+
+// A commit that touched a file
+export interface SourceRevision {
+  sha: string;     // Commit SHA
+  author: string;
+  date: string;    // ISO timestamp
+  message: string;
+  url?: string;    // Commit page, where the source has one
+}
+
+export type SourceChange =
+  | { type: 'tree' }                // Files were added, removed or changed
+  | { type: 'file'; path: string }; // Newer text is available for this file
+
+export interface ContentSource {
+  id: ContentSourceId;
+  label: string; // Shown in the preview console
+  isAvailable: () => boolean;
+  // Rejects when the source can't be reached
+  listTree: () => Promise<SourceTree>;
+  // `sha` is the blob SHA from the tree, when known; null for a missing file
+  readFile: (path: string, sha?: string) => Promise<SourceFile | null>;
+  readMetadata: (path: string, sha?: string) => Promise<SourceMetadata | null>;
+  // URL the browser can load an image or attachment from
+  resolveAttachmentUrl: (path: string) => string;
+  // Revision history, on sources backed by git: commits touching the file, newest first
+  // (`page` counts from 1; `sha` is the file's blob SHA, when known), and its text at one of them
+  listRevisions?: (path: string, page: number, perPage: number, sha?: string) => Promise<SourceRevision[]>;
+  readFileAt?: (path: string, revision: string) => Promise<string | null>;
+  // Reports changes made after the content was read. Returns a function that stops watching.
+  watch?: (onChange: (change: SourceChange) => void) => () => void;
+}
+
+const SOURCES: ContentSource[] = [githubSource, localSource, bundleSource, mockSource];
+
+const findSource = (id: string) => SOURCES.find(source => source.id === id && source.isAvailable());
+
+let activeSource: ContentSource | null = null;
+
+export const getContentSources = (): ContentSource[] => SOURCES.filter(source => source.isAvailable());
+
+export const getContentSource = (): ContentSource => {
+  if (!activeSource) {
+    const configured = getEnv('CONTENT_SOURCE');
+    activeSource = (configured && findSource(configured)) || githubSource;
+    if (configured && activeSource.id !== configured) {
+      console.warn(`Content source '${configured}' is unavailable here, using ${activeSource.id}`);
+    }
+  }
+  return activeSource;
+};
+
+export const setContentSource = (id: ContentSourceId): ContentSource => {
+  activeSource = findSource(id) || getContentSource();
+  return activeSource;
+};
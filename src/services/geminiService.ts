@@ -28,7 +28,7 @@ export const sendMessageToGemini = async (message: string, sessionId?: string):
       }
       
       // 开发环境模拟响应
-      return `[开发模式] 伊蕾娜说："${message}"？嗯...让我想想。作为灰之魔女，我认为这个问题很有趣。不过现在我的魔法正在调试中，请稍后再试。\n\n（提示：在本地开发时，需要设置GEMINI_API_KEY环境变量并启动后端服务器）`;
+      return `[开发模式] 伊蕾娜说："${message}"？嗯...让我想想。作为灰之魔女，我认为这个问题很有趣。不过现在我的魔法正在调试中，请稍后再试。\n\n（提示：在本地开发时，需要在 .env.local 中设置GEMINI_API_KEY，npm run dev 会直接运行 api/ 下的处理函数）`;
     }
 
 
@@ -1,315 +1,458 @@
 
-import { BlogPost, DirectoryNode, GitHubUser } from '../types';
-import { GITHUB_USERNAME, GITHUB_REPO } from '../constants';
-import { BLOG_INCLUDED_FOLDERS, EXCLUDED_PATHS, EXCLUDED_FILES } from '../config';
-import { mockBlogPosts } from '../data/mockData';
-
-const CACHE_PREFIX = 'gh_cache_';
-const CACHE_DURATION = 15 * 60 * 1000; // 15 Minutes Cache
+import { ContentIndex, GitHubUser } from '../types';
+import { GITHUB_USERNAME, GITHUB_REPO, GITHUB_REF } from '../constants';
+import { gitBlobSha } from '../lib/utils';
+import { isPreviewMode } from '../data/mockData';
+import { CacheEntry, cacheExpire, cacheGet, cacheSet, cacheTouch, countCacheEvent } from './cacheService';
+import type { ContentSource, SourceChange, SourceFile, SourceMetadata, SourceRevision, SourceTree } from './contentSource';
+import {
+    CONTENT_INDEX_FILE,
+    CONTENT_INDEX_VERSION,
+    GitHubTreeItem,
+    RepoFile,
+    isPublishedNote,
+} from '../lib/content';
+
+const REVALIDATE_AFTER = 15 * 60 * 1000; // Cached responses older than this are checked in the background
 
 const getHeaders = (): HeadersInit => ({
   'Accept': 'application/json',
 });
 
 // --- Caching Helpers ---
-export const clearBlogCache = () => {
-    if (typeof window === 'undefined') return;
-    Object.keys(localStorage).forEach(key => {
-        if (key.startsWith(CACHE_PREFIX)) {
-            localStorage.removeItem(key);
-        }
-    });
-    console.log("Magic cache cleared.");
-};
-
-const getCache = <T>(key: string): T | null => {
-    if (typeof window === 'undefined') return null;
-    const json = localStorage.getItem(CACHE_PREFIX + key);
-    if (!json) return null;
+// Everything goes through cacheService (IndexedDB). Cached data is served immediately;
+// entries whose blob SHA no longer matches the tree, or that haven't been checked for
+// REVALIDATE_AFTER, are refreshed in the background and changes are reported to whoever
+// watches githubSource.
+
+const sourceListeners = new Set<(change: SourceChange) => void>();
+
+const notifySource = (change: SourceChange) => sourceListeners.forEach(listener => listener(change));
+
+interface CachedFetch<T> {
+    ok: boolean;
+    status?: number; // Of the failed request
+    data?: T;
+}
+
+// Metadata stored with a parsed response; a parser may drop a SHA the content doesn't match
+interface ParsedMeta {
+    sha?: string;
+}
+
+type Parser<T> = (res: Response, meta: ParsedMeta) => Promise<T>;
+
+interface FetchCachedOptions<T> {
+    sha?: string;                 // Blob SHA from the tree; a matching entry is always current
+    onChange?: (data: T) => void; // Called when a background revalidation found new data
+}
+
+const isCurrent = (entry: CacheEntry<unknown>, sha?: string) =>
+    sha ? entry.sha === sha : Date.now() - entry.checkedAt < REVALIDATE_AFTER;
+
+// One background revalidation per key at a time
+const revalidating = new Set<string>();
+
+const revalidate = async <T>(
+    key: string,
+    url: string,
+    parse: Parser<T>,
+    entry: CacheEntry<T>,
+    { sha, onChange }: FetchCachedOptions<T>
+) => {
+    if (revalidating.has(key)) return;
+    revalidating.add(key);
     try {
-        const { timestamp, data } = JSON.parse(json);
-        if (Date.now() - timestamp < CACHE_DURATION) {
-            return data as T;
+        const headers = new Headers(getHeaders());
+        if (entry.etag) headers.set('If-None-Match', entry.etag);
+        const res = await fetch(url, { headers });
+        if (res.status === 304) {
+            // Same content under a new SHA can't happen, so this only renews time-based entries
+            await cacheTouch(key);
+        } else if (res.ok) {
+            const meta: ParsedMeta = { sha };
+            const data = await parse(res, meta);
+            await cacheSet(key, data, { etag: res.headers.get('ETag') || undefined, sha: meta.sha });
+            if (JSON.stringify(data) !== JSON.stringify(entry.data)) {
+                countCacheEvent('updated');
+                onChange?.(data);
+            }
         }
-        localStorage.removeItem(CACHE_PREFIX + key);
+        // Failures keep serving the stale copy and are retried on the next read
+        countCacheEvent('revalidated');
     } catch (e) {
-        localStorage.removeItem(CACHE_PREFIX + key);
+        console.warn(`Revalidation failed for ${key}`, e);
+    } finally {
+        revalidating.delete(key);
     }
-    return null;
-};
-
-const setCache = (key: string, data: any) => {
-    if (typeof window === 'undefined') return;
-    localStorage.setItem(CACHE_PREFIX + key, JSON.stringify({
-        timestamp: Date.now(),
-        data
-    }));
 };
 
-export const fetchUserProfile = async (): Promise<GitHubUser | null> => {
-  if (!GITHUB_USERNAME) return null;
-
-  // Try Cache
-  const cached = getCache<GitHubUser>('profile');
-  if (cached) return cached;
-
-  try {
-    const res = await fetch(`/api/github/user?username=${encodeURIComponent(GITHUB_USERNAME)}`, { headers: getHeaders() });
-    
-    // Rate Limit or Not Found
-    if (!res.ok) {
-        console.warn(`GitHub Profile Error: ${res.status} ${res.statusText}`);
-        if (res.status === 403) {
-             console.error("API Rate Limit Exceeded. Please provide a GITHUB_TOKEN.");
+/**
+ * GET a proxy URL through the cache, stale-while-revalidate: any cached copy is returned
+ * at once, and copies that are no longer current are revalidated in the background with
+ * their ETag. Only a cache miss waits for the network.
+ */
+const fetchCached = async <T>(
+    key: string,
+    url: string,
+    parse: Parser<T>,
+    options: FetchCachedOptions<T> = {}
+): Promise<CachedFetch<T>> => {
+    const entry = await cacheGet<T>(key);
+    if (entry) {
+        if (!isCurrent(entry, options.sha)) {
+            countCacheEvent('stale');
+            void revalidate(key, url, parse, entry, options);
         }
-        return null; 
+        return { ok: true, data: entry.data };
     }
 
-    const data = await res.json();
-    setCache('profile', data);
-    return data;
-  } catch (error) {
-    console.error("GitHub Profile Fetch Error", error);
-    return null;
-  }
+    const res = await fetch(url, { headers: getHeaders() });
+    if (!res.ok) return { ok: false, status: res.status };
+
+    const meta: ParsedMeta = { sha: options.sha };
+    const data = await parse(res, meta);
+    await cacheSet(key, data, { etag: res.headers.get('ETag') || undefined, sha: meta.sha });
+    return { ok: true, data };
 };
 
-const parseFrontmatter = (content: string) => {
-  const frontmatterRegex = /^---\n([\s\S]*?)\n---/;
-  const match = content.match(frontmatterRegex);
-  
-  const metadata: any = {};
-  let body = content;
+// --- Ref Resolution ---
+// Every content request (tree, raw files, attachments, commits) uses the same ref:
+// ?ref= in the page URL, then GITHUB_CONFIG.ref, then the repository's default branch.
 
-  if (match) {
-    const frontmatterBlock = match[1];
-    body = content.replace(frontmatterRegex, '').trim();
-    
-    frontmatterBlock.split('\n').forEach(line => {
-      const [key, ...value] = line.split(':');
-      if (key && value) {
-        let val = value.join(':').trim();
-        if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1);
-        if (val.startsWith('[') && val.endsWith(']')) {
-             metadata[key.trim()] = val.slice(1, -1).split(',').map(s => s.trim());
-        } else {
-             metadata[key.trim()] = val;
-        }
-      }
-    });
-  }
-  return { metadata, body };
+const isValidRef = (ref: string) => /^[\w.\-/]+$/.test(ref) && !ref.includes('..');
+
+// Ref requested through ?ref= for proofreading a draft branch on the live site
+export const getPreviewRef = (): string | null => {
+    if (typeof window === 'undefined') return null;
+    const ref = new URLSearchParams(window.location.search).get('ref');
+    return ref && isValidRef(ref) ? ref : null;
 };
 
-const isExcluded = (path: string) => {
-  const parts = path.split('/');
-  const fileName = parts[parts.length - 1];
+let resolvedRef: string | null = null;
+
+// --- Static Content Index ---
+// Generated at build time by plugins/contentIndexPlugin.ts. When present it replaces the
+// repo, tree and commits requests; only post bodies still go through the raw proxy.
+// Once the content version reports a later push to its branch, the tree is read live again.
 
-  if (EXCLUDED_FILES.includes(fileName)) return true;
+let contentIndexPromise: Promise<ContentIndex | null> | null = null;
 
-  return parts.some(part => 
-    part.startsWith('.') || 
-    EXCLUDED_PATHS.includes(part)
-  );
+const loadContentIndex = (): Promise<ContentIndex | null> => {
+    if (!contentIndexPromise) {
+        contentIndexPromise = fetch(`/${CONTENT_INDEX_FILE}`, { headers: getHeaders() })
+            .then(res => res.ok ? res.json() : null)
+            .then((index: ContentIndex | null) => index?.version === CONTENT_INDEX_VERSION ? index : null)
+            .catch(() => null); // Missing in dev or an old deployment: use the live API
+    }
+    return contentIndexPromise;
 };
 
-const isIncludedFolder = (path: string) => {
-    if (BLOG_INCLUDED_FOLDERS.length === 0) return true; 
-    return BLOG_INCLUDED_FOLDERS.some(folder => path.startsWith(folder));
+// The index only describes the repo and ref it was built from; previewing another ref goes live,
+// and so does preview mode on a production build, whose index leaves out hidden notes
+export const getContentIndex = async (): Promise<ContentIndex | null> => {
+    const index = await loadContentIndex();
+    if (!index) return null;
+    if (isPreviewMode() && !index.preview) return null;
+    if (index.repo.toLowerCase() !== `${GITHUB_USERNAME}/${GITHUB_REPO}`.toLowerCase()) return null;
+
+    const requestedRef = getPreviewRef() || GITHUB_REF;
+    return !requestedRef || requestedRef === index.ref ? index : null;
 };
 
-const buildTree = (files: any[]): DirectoryNode[] => {
-    const root: DirectoryNode[] = [];
-
-    files.forEach(file => {
-        const parts = file.path.split('/');
-        let currentLevel = root;
-
-        parts.forEach((part: string, index: number) => {
-            const isFile = index === parts.length - 1;
-            if (isFile && !part.endsWith('.md')) return;
-
-            let existingNode = currentLevel.find(n => n.name === part);
-
-            if (!existingNode) {
-                const newNode: DirectoryNode = {
-                    name: part.replace('.md', ''),
-                    type: isFile ? 'file' : 'folder',
-                    path: file.path,
-                    children: [],
-                    fileId: isFile ? file.sha : undefined
-                };
-                currentLevel.push(newNode);
-                existingNode = newNode;
-            }
+export const resolveContentRef = async (): Promise<string> => {
+    const requestedRef = getPreviewRef() || GITHUB_REF;
+    if (requestedRef) {
+        resolvedRef = requestedRef;
+        return requestedRef;
+    }
+    if (resolvedRef) return resolvedRef;
 
-            if (!isFile) {
-                currentLevel = existingNode.children;
-            }
-        });
-    });
-
-    const sortNodes = (nodes: DirectoryNode[]) => {
-        nodes.sort((a, b) => {
-            if (a.type === b.type) return a.name.localeCompare(b.name);
-            return a.type === 'folder' ? -1 : 1;
-        });
-        nodes.forEach(n => sortNodes(n.children));
-    };
+    const index = await getContentIndex();
+    if (index) {
+        resolvedRef = index.ref;
+        return index.ref;
+    }
 
-    sortNodes(root);
-    return root;
+    const result = await fetchCached<string>(
+        'default_branch',
+        `/api/github/repo?${repoQuery()}`,
+        async res => (await res.json()).default_branch || 'main'
+    );
+    if (!result.ok) {
+        throw new Error(`Repo fetch failed: ${result.status}`);
+    }
+    resolvedRef = result.data;
+    return result.data;
 };
 
-export const fetchBlogIndex = async (useMockData = false): Promise<{ tree: DirectoryNode[], allFiles: any[], error?: boolean }> => {
-    // Return mock data if requested
-    if (useMockData) {
-        const mockFiles = mockBlogPosts.map((post) => ({
-            path: post.path,
-            sha: post.id,
-            type: 'blob'
-        }));
-        const tree = buildTree(mockFiles);
-        return { tree, allFiles: mockFiles };
-    }
+const repoQuery = (params: Record<string, string> = {}) =>
+    new URLSearchParams({ owner: GITHUB_USERNAME, repo: GITHUB_REPO, ...params }).toString();
 
-    if (!GITHUB_USERNAME || !GITHUB_REPO) return { tree: [], allFiles: [] };
+// URL of a repository file (image, attachment) served through the raw proxy at the resolved ref
+export const getRawFileUrl = (path: string, ref = resolvedRef || getPreviewRef() || GITHUB_REF): string =>
+    `/api/github/raw?${repoQuery(ref ? { path, ref } : { path })}`;
 
-    // Try Cache
-    const cached = getCache<{ tree: DirectoryNode[], allFiles: any[] }>('blog_index');
-    if (cached) return cached;
+export const fetchUserProfile = async (): Promise<GitHubUser | null> => {
+  if (!GITHUB_USERNAME) return null;
 
-    try {
-        const headers = getHeaders();
-        const repoRes = await fetch(`/api/github/repo?owner=${encodeURIComponent(GITHUB_USERNAME)}&repo=${encodeURIComponent(GITHUB_REPO)}`, { headers });
-        if (!repoRes.ok) {
-            console.warn(`Repo fetch failed: ${repoRes.status}`);
-            return { tree: [], allFiles: [], error: true }; // Return error flag
-        }
-        
-        const repoData = await repoRes.json();
-        const defaultBranch = repoData.default_branch || 'main';
-
-        const treeRes = await fetch(`/api/github/tree?owner=${encodeURIComponent(GITHUB_USERNAME)}&repo=${encodeURIComponent(GITHUB_REPO)}&branch=${encodeURIComponent(defaultBranch)}`, { headers });
-        if (!treeRes.ok) {
-             console.warn(`Tree fetch failed: ${treeRes.status}`);
-             return { tree: [], allFiles: [], error: true };
+  try {
+    const result = await fetchCached<GitHubUser>(
+        'profile',
+        `/api/github/user?username=${encodeURIComponent(GITHUB_USERNAME)}`,
+        res => res.json()
+    );
+    
+    // Rate Limit or Not Found
+    if (!result.ok) {
+        console.warn(`GitHub Profile Error: ${result.status}`);
+        if (result.status === 403) {
+             console.error("API Rate Limit Exceeded. Please provide a GITHUB_TOKEN.");
         }
-        
-        const treeData = await treeRes.json();
-        if (!treeData.tree) return { tree: [], allFiles: [] };
-
-        const mdFiles = treeData.tree.filter((item: any) => {
-            return item.type === 'blob' && 
-                   item.path.endsWith('.md') && 
-                   !isExcluded(item.path) &&
-                   isIncludedFolder(item.path);
-        });
-
-        const tree = buildTree(mdFiles);
-        const result = { tree, allFiles: mdFiles };
-        
-        setCache('blog_index', result);
-        return result;
+        return null; 
+    }
 
-    } catch (e) {
-        console.error("Failed to fetch blog index", e);
-        return { tree: [], allFiles: [], error: true };
+    return result.data;
+  } catch (error) {
+    console.error("GitHub Profile Fetch Error", error);
+    return null;
+  }
+};
+
+// --- Notes ---
+
+const listTree = async (): Promise<SourceTree> => {
+    if (!GITHUB_USERNAME || !GITHUB_REPO) return { files: [] };
+
+    // After a push the build-time file list is outdated: new notes and changed SHAs come from the live tree
+    const index = await getContentIndex();
+    if (index && !(await isIndexOutdated(index))) return { files: index.files, summaries: index.posts };
+
+    const ref = await resolveContentRef();
+    const result = await fetchCached<{ allFiles: RepoFile[] }>(
+        `blog_index_${ref}`,
+        `/api/github/tree?${repoQuery({ ref })}`,
+        async res => {
+            const treeData = await res.json();
+            const mdFiles: RepoFile[] = ((treeData.tree || []) as GitHubTreeItem[])
+                .filter(item => item.type === 'blob' && isPublishedNote(item.path))
+                .map(item => ({ path: item.path, sha: item.sha }));
+            return { allFiles: mdFiles };
+        },
+        { onChange: () => notifySource({ type: 'tree' }) }
+    );
+    if (!result.ok) throw new Error(`Tree fetch failed: ${result.status}`);
+    return { files: result.data.allFiles };
+};
+
+/**
+ * Text of a raw proxy response. GitHub's raw CDN can lag a few minutes behind a push,
+ * so a file that doesn't hash to the tree's SHA is shown but not cached under that SHA;
+ * it is fetched again on the next read.
+ */
+const readRawFile = async (res: Response, meta: ParsedMeta): Promise<string> => {
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    if (meta.sha) {
+        const actual = await gitBlobSha(bytes);
+        if (actual && actual !== meta.sha) {
+            console.warn(`Raw file ${res.url} is older than the tree, will retry`);
+            meta.sha = undefined;
+        }
     }
+    return new TextDecoder().decode(bytes);
 };
 
-// Fetch last commit date for a file
-const fetchLastCommitDate = async (path: string): Promise<string | null> => {
-    try {
-        const cacheKey = `commit_${path}`;
-        const cached = getCache<string>(cacheKey);
-        if (cached) return cached;
+// Checked against the tree's SHA when the caller has it, otherwise by the raw proxy's ETag
+const readFile = async (path: string, sha?: string): Promise<SourceFile | null> => {
+    const ref = await resolveContentRef();
+    const result = await fetchCached<SourceFile>(
+        `raw_${ref}_${path}`,
+        getRawFileUrl(path),
+        async (res, meta) => {
+            const text = await readRawFile(res, meta);
+            return { text, sha: meta.sha };
+        },
+        { sha, onChange: () => notifySource({ type: 'file', path }) }
+    );
+    return result.ok ? result.data : null;
+};
 
-        const response = await fetch(
-            `/api/github/commits?owner=${encodeURIComponent(GITHUB_USERNAME)}&repo=${encodeURIComponent(GITHUB_REPO)}&path=${encodeURIComponent(path)}`,
-            { headers: getHeaders() }
+// Last commit date of a file; with its blob SHA the cached date never needs checking
+const readMetadata = async (path: string, sha?: string): Promise<SourceMetadata | null> => {
+    try {
+        const ref = await resolveContentRef();
+        const index = await getContentIndex();
+        const indexed = index?.ref === ref ? index.posts[path] : undefined;
+        if (indexed && (!sha || indexed.sha === sha)) return { lastCommitDate: indexed.lastCommitDate };
+
+        const result = await fetchCached<string | null>(
+            sha ? `commit_${sha}_${path}` : `commit_${ref}_${path}`,
+            `/api/github/commits?${repoQuery({ path, ref })}`,
+            async res => {
+                const data = await res.json();
+                if (Array.isArray(data) && data.length > 0 && data[0].commit?.author?.date) {
+                    const date = new Date(data[0].commit.author.date);
+                    return date.toISOString().split('T')[0]; // YYYY-MM-DD format
+                }
+                return null;
+            },
+            { sha }
         );
 
-        if (!response.ok) {
-            console.warn(`Failed to fetch commit date for ${path}: ${response.status}`);
+        if (!result.ok) {
+            console.warn(`Failed to fetch commit date for ${path}: ${result.status}`);
             return null;
         }
-
-        const data = await response.json();
-        
-        if (Array.isArray(data) && data.length > 0 && data[0].commit?.author?.date) {
-            const date = new Date(data[0].commit.author.date);
-            const formattedDate = date.toISOString().split('T')[0]; // YYYY-MM-DD format
-            setCache(cacheKey, formattedDate);
-            return formattedDate;
-        }
-        
-        return null;
+        return { lastCommitDate: result.data };
     } catch (e) {
         console.error("Failed to fetch commit date", e);
         return null;
     }
 };
 
-export const fetchPostContent = async (path: string, useMockData = false): Promise<BlogPost | null> => {
-    try {
-         // Return mock data if requested
-         if (useMockData) {
-             const mockPost = mockBlogPosts.find(post => post.path === path);
-             return mockPost || null;
-         }
-
-         const cacheKey = `post_${path}`;
-         const cached = getCache<BlogPost>(cacheKey);
-         if (cached) return cached;
-
-         const branch = 'main'; 
-         const rawUrl = `https://raw.githubusercontent.com/${GITHUB_USERNAME}/${GITHUB_REPO}/${branch}/${encodeURI(path)}`;
-         
-         const res = await fetch(rawUrl);
-         if (!res.ok) return null;
-
-         const rawText = await res.text();
-         const { metadata, body } = parseFrontmatter(rawText);
-
-         const pathParts = path.split('/');
-         const fileName = pathParts[pathParts.length - 1].replace('.md', '');
-         
-         // Fetch the last commit date from Git
-         const gitDate = await fetchLastCommitDate(path);
-         
-         const post = {
-             id: path, 
-             title: metadata.title || fileName,
-             date: gitDate || metadata.date || 'Unknown Date',
-             category: metadata.category || pathParts[0],
-             tags: metadata.tags || [],
-             excerpt: metadata.excerpt || body.substring(0, 100) + '...',
-             content: body,
-             path: path,
-             slug: metadata.slug || path.replace('.md', '').replace(/\//g, '-'),
-             cover_image: metadata.cover_image,
-             published_at: metadata.published_at || gitDate,
-             updated_at: metadata.updated_at,
-             author: metadata.author
-         };
-
-         setCache(cacheKey, post);
-         return post;
+// --- History ---
+
+interface GitHubCommit {
+    sha: string;
+    html_url?: string;
+    commit?: { message?: string; author?: { name?: string; date?: string } };
+    author?: { login?: string } | null;
+}
+
+const toRevision = ({ sha, html_url, commit, author }: GitHubCommit): SourceRevision => ({
+    sha,
+    author: author?.login || commit?.author?.name || 'unknown',
+    date: commit?.author?.date || '',
+    message: commit?.message || '',
+    url: html_url,
+});
 
-    } catch (e) {
-        return null;
-    }
+// A file's history only grows when its blob changes, so pages keyed by the blob SHA stay current
+const listRevisions = async (path: string, page: number, perPage: number, sha?: string): Promise<SourceRevision[]> => {
+    const ref = await resolveContentRef();
+    const result = await fetchCached<SourceRevision[]>(
+        `history_${sha || ref}_${path}_${perPage}_${page}`,
+        `/api/github/commits?${repoQuery({ path, ref, page: String(page), per_page: String(perPage) })}`,
+        async res => {
+            const data = await res.json();
+            return Array.isArray(data) ? data.map(toRevision) : [];
+        },
+        { sha }
+    );
+    if (!result.ok) throw new Error(`History fetch failed for ${path}: ${result.status}`);
+    return result.data;
+};
+
+// A file at a commit never changes; the entry is only rechecked with its ETag now and then
+const readFileAt = async (path: string, revision: string): Promise<string | null> => {
+    const result = await fetchCached<string>(
+        `raw_${revision}_${path}`,
+        getRawFileUrl(path, revision),
+        res => res.text()
+    );
+    return result.ok ? result.data : null;
 };
 
-export const fetchBlogPosts = async (useMockData = false): Promise<BlogPost[]> => {
-    // Return mock data if requested
-    if (useMockData) {
-        return mockBlogPosts;
+// --- Content Version ---
+// The push webhook bumps /api/github/version. Polling it costs an empty 304 while nothing
+// changed; after a push the cached tree and the cached entries of the changed notes are
+// expired, and listeners reload, so only those notes are fetched again. Versions are push
+// times; version 0 comes from a server that hasn't seen a push and says nothing. A version
+// older than ours means the server lost its store, so everything is rechecked.
+
+const VERSION_POLL_INTERVAL = 60 * 1000;
+const VERSION_CACHE_KEY = 'content_version';
+
+interface ContentVersion {
+    version: number;
+    changes: { version: number; previous?: number; ref: string; paths: string[]; pushedAt: string }[];
+}
+
+let versionEtag: string | undefined;
+let latestVersion: Promise<ContentVersion | null> | null = null;
+
+// The version the server reported last; fetched once if polling hasn't started yet
+const getLatestVersion = (): Promise<ContentVersion | null> => {
+    if (!latestVersion) {
+        latestVersion = fetch('/api/github/version', { headers: getHeaders() })
+            .then(res => res.ok ? res.json() : null)
+            .catch(() => null); // No API (static hosting): the index is all there is
     }
+    return latestVersion;
+};
+
+// Whether the index's branch was pushed to after the index was built. The change log is
+// capped, but a truncated log still ends with the newest pushes, which is all this needs.
+const isIndexOutdated = async (index: ContentIndex): Promise<boolean> => {
+    const version = await getLatestVersion();
+    const builtAt = Date.parse(index.generatedAt);
+    return !!version?.changes.some(change => change.ref === index.ref && Date.parse(change.pushedAt) > builtAt);
+};
+
+const checkContentVersion = async () => {
+    const headers = new Headers(getHeaders());
+    if (versionEtag) headers.set('If-None-Match', versionEtag);
+    const res = await fetch('/api/github/version', { headers });
+    if (!res.ok) return; // Includes the 304 for an unchanged version
+    versionEtag = res.headers.get('ETag') || undefined;
+
+    const latest: ContentVersion = await res.json();
+    latestVersion = Promise.resolve(latest);
+    const seen = (await cacheGet<number>(VERSION_CACHE_KEY))?.data ?? null;
+    if (latest.version === 0 || latest.version === seen) return;
+    await cacheSet(VERSION_CACHE_KEY, latest.version);
+    if (seen === null) return; // First visit: nothing cached is older than this version
+
+    const ref = await resolveContentRef();
+    const missed = latest.changes.filter(change => change.version > seen);
+    // When the change log doesn't reach back to our version, or the version went backwards,
+    // the tree's SHAs sort it out
+    const complete = missed.length > 0 && missed[0].previous === seen;
+    const changes = missed.filter(change => change.ref === ref);
+    if (complete && changes.length === 0) return; // Pushes to other branches
+
+    const paths = [...new Set(changes.flatMap(change => change.paths))];
+    await Promise.all([
+        cacheExpire(`blog_index_${ref}`),
+        ...paths.flatMap(path => [`raw_${ref}_${path}`, `commit_${ref}_${path}`].map(cacheExpire)),
+    ]);
+    console.log(`Content version ${seen} -> ${latest.version}: ${complete ? `${paths.length} changed notes` : 'rechecking all notes'}`);
+    notifySource({ type: 'tree' });
+};
+
+// Polls the content version while the page is visible; returns a function that stops polling
+const watchContentVersion = (): (() => void) => {
+    if (typeof document === 'undefined') return () => {};
+    const check = () => {
+        if (document.visibilityState === 'visible') {
+            checkContentVersion().catch(e => console.warn('Content version check failed', e));
+        }
+    };
+    check();
+    const timer = window.setInterval(check, VERSION_POLL_INTERVAL);
+    document.addEventListener('visibilitychange', check);
+    return () => {
+        window.clearInterval(timer);
+        document.removeEventListener('visibilitychange', check);
+    };
+};
 
-    const { allFiles } = await fetchBlogIndex(useMockData);
-    const filesToFetch = allFiles.slice(0, 5);
-    const posts = await Promise.all(filesToFetch.map(f => fetchPostContent(f.path, useMockData)));
-    return posts.filter((p): p is BlogPost => p !== null);
+export const githubSource: ContentSource = {
+    id: 'github',
+    label: 'GitHub',
+    isAvailable: () => true,
+    listTree,
+    readFile,
+    readMetadata,
+    resolveAttachmentUrl: path => getRawFileUrl(path),
+    listRevisions,
+    readFileAt,
+    watch: onChange => {
+        sourceListeners.add(onChange);
+        const stopPolling = watchContentVersion();
+        return () => {
+            sourceListeners.delete(onChange);
+            stopPolling();
+        };
+    },
 };
@@ -0,0 +1,64 @@
+import { LOCAL_NOTES_EVENT, LOCAL_NOTES_PATH, RepoFile } from '../lib/content';
+import type { ContentSource, SourceChange, SourceRevision } from './contentSource';
+
+// Notes read from CONTENT_REPO_DIR through the dev server (plugins/localNotesPlugin.ts), for
+// working offline or without a GitHub token. Edits to the folder arrive over Vite's HMR socket.
+
+interface LocalChange {
+  path: string;
+  event: 'add' | 'change' | 'unlink';
+}
+
+const fileUrl = (path: string) => `${LOCAL_NOTES_PATH}/file?${new URLSearchParams({ path })}`;
+
+export const localSource: ContentSource = {
+  id: 'local',
+  label: '本地笔记',
+  isAvailable: () => !!import.meta.env.DEV,
+
+  listTree: async () => {
+    const res = await fetch(`${LOCAL_NOTES_PATH}/tree`);
+    if (!res.ok) throw new Error(`Local notes unavailable (${res.status}); is CONTENT_REPO_DIR set?`);
+    const { files }: { files: RepoFile[] } = await res.json();
+    return { files };
+  },
+
+  readFile: async path => {
+    const res = await fetch(fileUrl(path));
+    if (!res.ok) return null;
+    // The ETag is the blob SHA the server hashed the file to
+    return { text: await res.text(), sha: res.headers.get('ETag')?.replace(/"/g, '') || undefined };
+  },
+
+  readMetadata: async path => {
+    const res = await fetch(`${LOCAL_NOTES_PATH}/meta?${new URLSearchParams({ path })}`);
+    return res.ok ? res.json() : null;
+  },
+
+  resolveAttachmentUrl: fileUrl,
+
+  // From `git log` in the notes folder; empty when it isn't a git checkout
+  listRevisions: async (path, page, perPage) => {
+    const query = new URLSearchParams({ path, page: String(page), per_page: String(perPage) });
+    const res = await fetch(`${LOCAL_NOTES_PATH}/history?${query}`);
+    if (!res.ok) throw new Error(`Local history unavailable (${res.status})`);
+    return (await res.json()) as SourceRevision[];
+  },
+
+  readFileAt: async (path, revision) => {
+    const res = await fetch(`${fileUrl(path)}&${new URLSearchParams({ rev: revision })}`);
+    return res.ok ? res.text() : null;
+  },
+
+  watch: onChange => {
+    const hot = import.meta.hot;
+    if (!hot) return () => {};
+    const handler = ({ path, event }: LocalChange) => {
+      const changes: SourceChange[] = [{ type: 'tree' }];
+      if (event === 'change') changes.push({ type: 'file', path });
+      changes.forEach(onChange);
+    };
+    hot.on(LOCAL_NOTES_EVENT, handler);
+    return () => hot.off(LOCAL_NOTES_EVENT, handler);
+  },
+};
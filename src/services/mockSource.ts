@@ -0,0 +1,55 @@
+import { BlogPost } from '../types';
+import { mockBlogPosts } from '../data/mockData';
+import { RepoFile } from '../lib/content';
+import { gitBlobSha } from '../lib/utils';
+import type { ContentSource } from './contentSource';
+import { getRawFileUrl } from './githubService';
+
+// The sample posts from data/mockData.ts, written back out as notes with frontmatter so
+// they go through the same parsing as real ones. Attachments still come from the GitHub proxy.
+
+const quote = (value: string) => JSON.stringify(value);
+
+const toMarkdown = (post: BlogPost) => [
+  '---',
+  `title: ${quote(post.title)}`,
+  `date: ${quote(post.date)}`,
+  `category: ${quote(post.category)}`,
+  `tags: [${post.tags.map(quote).join(', ')}]`,
+  `excerpt: ${quote(post.excerpt)}`,
+  `slug: ${quote(post.slug)}`,
+  '---',
+  '',
+  post.content,
+].join('\n');
+
+const notes = new Map(mockBlogPosts.map(post => [post.path!, toMarkdown(post)]));
+
+let filesPromise: Promise<RepoFile[]> | null = null;
+
+// Real blob SHAs, so cached summaries follow edits to the samples
+const listFiles = (): Promise<RepoFile[]> => {
+  if (!filesPromise) {
+    filesPromise = Promise.all(
+      [...notes].map(async ([path, text]) => ({ path, sha: (await gitBlobSha(new TextEncoder().encode(text))) || path }))
+    );
+  }
+  return filesPromise;
+};
+
+export const mockSource: ContentSource = {
+  id: 'mock',
+  label: '示例数据',
+  isAvailable: () => true,
+  listTree: async () => ({ files: await listFiles() }),
+  readFile: async path => {
+    const text = notes.get(path);
+    if (text === undefined) return null;
+    return { text, sha: (await listFiles()).find(file => file.path === path)?.sha };
+  },
+  readMetadata: async path => {
+    const post = mockBlogPosts.find(candidate => candidate.path === path);
+    return post ? { lastCommitDate: post.date } : null;
+  },
+  resolveAttachmentUrl: path => getRawFileUrl(path),
+};
@@ -0,0 +1,63 @@
+import { BlogPost } from '../types';
+import { fetchBlogIndex, fetchPostContent, getCache, setCache } from './contentService';
+import { getContentSource } from './contentSource';
+import { isPreviewMode } from '../data/mockData';
+import { mapWithConcurrency } from '../lib/utils';
+import { SEARCH_INDEX_VERSION, SearchIndex, buildSearchIndex } from '../lib/search';
+
+const SEARCH_CACHE_KEY = 'search_index';
+const CONTENT_CONCURRENCY = 4;
+
+interface CachedSearchIndex {
+  signature: string;
+  index: SearchIndex;
+}
+
+let memoryIndex: CachedSearchIndex | null = null;
+let pending: { signature: string, promise: Promise<SearchIndex> } | null = null;
+
+// djb2, enough to tell file lists apart without storing every SHA in the key
+const hashString = (text: string) => {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * Search index over every visible post. It is rebuilt only when a blob SHA changes
+ * (or drafts become visible in preview), and is cached as a single cache entry.
+ */
+export const loadSearchIndex = async (): Promise<SearchIndex> => {
+  const { allFiles } = await fetchBlogIndex();
+  const signature = [
+    SEARCH_INDEX_VERSION,
+    getContentSource().id,
+    isPreviewMode() ? 'preview' : 'public',
+    hashString(allFiles.map(file => `${file.path}@${file.sha}`).join('\n')),
+  ].join(':');
+
+  if (memoryIndex?.signature === signature) return memoryIndex.index;
+
+  const cached = await getCache<CachedSearchIndex>(SEARCH_CACHE_KEY);
+  if (cached?.signature === signature) {
+    memoryIndex = cached;
+    return cached.index;
+  }
+
+  // Opening the search box twice while building must not fetch everything twice
+  if (pending?.signature === signature) return pending.promise;
+
+  const promise = mapWithConcurrency(allFiles, CONTENT_CONCURRENCY, file => fetchPostContent(file.path))
+    .then(posts => {
+      const index = buildSearchIndex(posts.filter((post): post is BlogPost => post !== null));
+      memoryIndex = { signature, index };
+      setCache(SEARCH_CACHE_KEY, memoryIndex);
+      return index;
+    })
+    .finally(() => {
+      if (pending?.signature === signature) pending = null;
+    });
+
+  pending = { signature, promise };
+  return promise;
+};
@@ -28,6 +28,8 @@ export const markdownTheme = {
     table: 'bg-slate-900/50',
     tableHeader: 'bg-slate-900',
     tableRowAlt: 'bg-slate-800/20',
+    kbd: 'bg-slate-800/60',
+    footnotePreview: 'bg-slate-900/95',
   },
 
   // 边框颜色
@@ -40,6 +42,60 @@ export const markdownTheme = {
     horizontalRule: 'border-slate-700/50',
     math: 'border-white/5',
     image: 'border-white/10',
+    kbd: 'border-slate-600',
+    footnotes: 'border-slate-700/50',
+  },
+
+  // 代码块高亮，亮色/暗色主题各一套（随页面主题切换）
+  code: {
+    dark: {
+      background: 'bg-slate-950/80',
+      border: 'border-slate-700/50',
+      text: 'text-slate-200',
+      header: 'bg-slate-900/80 text-slate-400 border-slate-700/50',
+      lineNumber: 'text-slate-600',
+      highlightLine: 'bg-amber-400/10 border-l-2 border-amber-400',
+      diffAdd: 'bg-emerald-500/15',
+      diffRemove: 'bg-red-500/15',
+      diffHunk: 'bg-sky-500/10',
+      tokens: {
+        plain: '',
+        comment: 'text-slate-500 italic',
+        string: 'text-emerald-300',
+        number: 'text-orange-300',
+        keyword: 'text-purple-300',
+        type: 'text-sky-300',
+        builtin: 'text-cyan-300',
+        function: 'text-amber-200',
+        preprocessor: 'text-pink-300',
+        operator: 'text-slate-400',
+        punctuation: 'text-slate-400',
+      },
+    },
+    light: {
+      background: 'bg-slate-50',
+      border: 'border-slate-300',
+      text: 'text-slate-800',
+      header: 'bg-slate-100 text-slate-500 border-slate-300',
+      lineNumber: 'text-slate-400',
+      highlightLine: 'bg-amber-200/50 border-l-2 border-amber-500',
+      diffAdd: 'bg-emerald-200/60',
+      diffRemove: 'bg-red-200/60',
+      diffHunk: 'bg-sky-100',
+      tokens: {
+        plain: '',
+        comment: 'text-slate-400 italic',
+        string: 'text-emerald-700',
+        number: 'text-orange-700',
+        keyword: 'text-purple-700',
+        type: 'text-sky-700',
+        builtin: 'text-cyan-700',
+        function: 'text-amber-700',
+        preprocessor: 'text-pink-700',
+        operator: 'text-slate-500',
+        punctuation: 'text-slate-500',
+      },
+    },
   },
 
   // Callout 样式
@@ -1,3 +1,4 @@
+import type { FrontmatterData } from '../lib/frontmatter';
 
 export enum View {
   HOME = 'HOME',
@@ -21,6 +22,17 @@ export interface BlogPost {
   published_at?: string;
   updated_at?: string;
   author?: string;
+  aliases?: string[]; // Alternative names wiki links may use
+  cssclasses?: string[]; // Extra classes for the rendered note
+  draft?: boolean;
+  publish?: boolean;
+  frontmatterWarnings?: string[]; // Problems found while parsing the frontmatter
+  linkTargets?: string[]; // Wiki/markdown link targets as written in the note
+}
+
+// Listing metadata for a post, without the markdown body
+export interface BlogPostSummary extends Omit<BlogPost, 'content'> {
+  sha?: string; // Blob SHA the summary was built from
 }
 
 export interface DirectoryNode {
@@ -31,6 +43,48 @@ export interface DirectoryNode {
   fileId?: string; // SHA for files
 }
 
+// Resolved note-to-note links, keyed by note path
+export interface LinkGraph {
+  links: Record<string, string[]>; // Notes each note links to
+  backlinks: Record<string, string[]>; // Notes linking to each note
+}
+
+// One note in the build-time content index
+export interface ContentIndexEntry extends BlogPostSummary {
+  frontmatter: FrontmatterData;
+  lastCommitDate: string | null; // YYYY-MM-DD of the last commit touching the file
+  links: string[]; // Paths of notes this note links to
+  backlinks: string[]; // Paths of notes linking to this note
+}
+
+// Static JSON generated at build time (see plugins/contentIndexPlugin.ts)
+export interface ContentIndex {
+  version: number;
+  generatedAt: string; // ISO timestamp
+  repo: string; // owner/repo
+  ref: string; // Branch or commit the index was built from
+  preview?: boolean; // Built for a preview deployment, so hidden notes are included
+  tree: DirectoryNode[];
+  files: { path: string, sha: string }[];
+  posts: Record<string, ContentIndexEntry>;
+}
+
+// One note with its full text, for the static bundle content source
+export interface ContentBundleFile {
+  path: string;
+  sha: string;
+  lastCommitDate: string | null; // YYYY-MM-DD
+  text: string; // Raw markdown, frontmatter included
+}
+
+// Every published note in one JSON file (CONTENT_BUNDLE=on, see plugins/contentIndexPlugin.ts)
+export interface ContentBundle {
+  version: number;
+  generatedAt: string; // ISO timestamp
+  ref: string;
+  files: ContentBundleFile[];
+}
+
 export interface Note {
   pitch: number; // 0-11 (C to B) relative to octave
   octave: number; // 0-8 (standard 88-key piano range)
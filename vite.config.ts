@@ -2,111 +2,42 @@ import path from 'path';
 import {defineConfig, loadEnv} from 'vite';
 import react from '@vitejs/plugin-react';
 import tailwindcss from '@tailwindcss/vite';
+import {vercelApiPlugin} from './plugins/vercelApiPlugin';
+import {contentIndexPlugin} from './plugins/contentIndexPlugin';
+import {feedPlugin} from './plugins/feedPlugin';
+import {seoPlugin} from './plugins/seoPlugin';
+import {prerenderPlugin} from './plugins/prerenderPlugin';
+import {localNotesPlugin} from './plugins/localNotesPlugin';
+import {createNoteLoader} from './plugins/noteSource';
 
 export default defineConfig(({mode}) => {
     // 加载环境变量 (确保 .env.local 存在且包含密钥)
     const env = loadEnv(mode, process.cwd(), '');
+    // 笔记只读取一次，由内容索引、订阅源、SEO 和预渲染插件共用
+    const notes = createNoteLoader(env);
 
     return {
         server: {
             port: 3000,
             host: '0.0.0.0',
-            // 代理配置：这是保护密钥的关键
-
-            proxy: {
-                '/api/github/user': {
-                    target: 'https://api.github.com',
-                    changeOrigin: true,
-                    rewrite: (path) => path.replace(/^\/api\/github\/user\?username=/, '/users/'),
-                    // 在这里注入GitHub Token
-                    configure: (proxy, options) => {
-                        proxy.on('proxyReq', (proxyReq, req, res) => {
-                            if (env.GITHUB_TOKEN) {
-                                proxyReq.setHeader('Authorization', `Bearer ${env.GITHUB_TOKEN}`);
-                            }
-                            // GitHub API需要的headers
-                            proxyReq.setHeader('Accept', 'application/vnd.github+json');
-                            proxyReq.setHeader('User-Agent', 'BlogsWeb-API');
-                        });
-                    },
-                },
-                '/api/github/repo': {
-                    target: 'https://api.github.com',
-                    changeOrigin: true,
-                    rewrite: (path) => {
-                        const url = new URL('http://localhost' + path);
-                        const owner = url.searchParams.get('owner');
-                        const repo = url.searchParams.get('repo');
-                        return `/repos/${owner}/${repo}`;
-                    },
-                    configure: (proxy, options) => {
-                        proxy.on('proxyReq', (proxyReq, req, res) => {
-                            if (env.GITHUB_TOKEN) {
-                                proxyReq.setHeader('Authorization', `Bearer ${env.GITHUB_TOKEN}`);
-                            }
-                            proxyReq.setHeader('Accept', 'application/vnd.github+json');
-                            proxyReq.setHeader('User-Agent', 'BlogsWeb-API');
-                        });
-                    },
-                },
-                '/api/github/tree': {
-                    target: 'https://api.github.com',
-                    changeOrigin: true,
-                    rewrite: (path) => {
-                        const url = new URL('http://localhost' + path);
-                        const owner = url.searchParams.get('owner');
-                        const repo = url.searchParams.get('repo');
-                        const branch = url.searchParams.get('branch');
-                        return `/repos/${owner}/${repo}/git/trees/${branch}?recursive=1`;
-                    },
-                    configure: (proxy, options) => {
-                        proxy.on('proxyReq', (proxyReq, req, res) => {
-                            if (env.GITHUB_TOKEN) {
-                                proxyReq.setHeader('Authorization', `Bearer ${env.GITHUB_TOKEN}`);
-                            }
-                            proxyReq.setHeader('Accept', 'application/vnd.github+json');
-                            proxyReq.setHeader('User-Agent', 'BlogsWeb-API');
-                        });
-                    },
-                },
-                '/api/github/commits': {
-                    target: 'https://api.github.com',
-                    changeOrigin: true,
-                    rewrite: (path) => {
-                        const url = new URL('http://localhost' + path);
-                        const owner = url.searchParams.get('owner');
-                        const repo = url.searchParams.get('repo');
-                        const filePath = url.searchParams.get('path');
-                        return `/repos/${owner}/${repo}/commits?path=${filePath}&per_page=1`;
-                    },
-                    configure: (proxy, options) => {
-                        proxy.on('proxyReq', (proxyReq, req, res) => {
-                            if (env.GITHUB_TOKEN) {
-                                proxyReq.setHeader('Authorization', `Bearer ${env.GITHUB_TOKEN}`);
-                            }
-                            proxyReq.setHeader('Accept', 'application/vnd.github+json');
-                            proxyReq.setHeader('User-Agent', 'BlogsWeb-API');
-                        });
-                    },
-                },
-                // Gemini API 代理配置
-                '/api/gemini': {
-                    target: 'http://localhost:3000',
-                    changeOrigin: true,
-                    // 对于本地开发，我们需要一个后端服务器来处理Gemini请求
-                    // 这里我们配置Vite将请求转发到同一个端口的API路由
-                    // 实际部署时，Vercel会处理这些路由
-                    configure: (proxy, options) => {
-                        // 在本地开发时，我们需要启动一个后端服务器
-                        // 或者使用Vercel dev模式
-                        proxy.on('error', (err, req, res) => {
-                            console.error('Gemini API proxy error:', err);
-                        });
-                    },
-                },
-            }
         },
-        plugins: [react(), tailwindcss()],
+        // /api/* 由 vercelApiPlugin 直接执行 api/ 目录下的真实处理函数，
+        // 与 Vercel 部署运行同一份代码；密钥只在服务端通过 process.env 读取
+        // contentIndexPlugin 在构建时生成 /content-index.json，访客无需再逐篇请求 GitHub API
+        // feedPlugin 在构建时生成 /feed.xml、/atom.xml 和 /feed.json 订阅源
+        // seoPlugin 生成 sitemap.xml、robots.txt，并为每个路由输出带有独立 meta 标签的 HTML
+        // prerenderPlugin 用 react-dom/server 把每篇已发布笔记渲染进对应的 HTML，客户端再 hydrate
+        // localNotesPlugin 仅在开发时把 CONTENT_REPO_DIR 提供给 local 内容源，无需 GitHub Token
+        plugins: [
+            react(),
+            tailwindcss(),
+            vercelApiPlugin({env}),
+            contentIndexPlugin({env, notes}),
+            feedPlugin({env, notes}),
+            seoPlugin({env, notes}),
+            prerenderPlugin({env, notes}),
+            localNotesPlugin({env}),
+        ],
         // ✅ 只在 define 中放公开变量 (如有必要)
         // 如果没有公开变量，整个 define 块都可以删除
         define: {